@@ -3,32 +3,53 @@
 
 const sharp = require('sharp')
 const path = require('path')
+const fs = require('fs')
 
 const inputDir = './assets/images/avatars/'
 const outputDir = './dist/server/avatars/'
-const backgrounds = [
-  '#ffffff',
-  '#000000',
-  '#ff0000',
-  '#00ff00',
-  '#0000ff',
-  '#808000',
-  '#ffff00',
-  '#008000',
-  '#008080',
-  '#00ffff',
-  '#000080',
-  '#800080',
-  '#ff00ff'
-]
+// Bundled avatar sets (the admin can choose one in the plugin settings).
+// Each set uses the same images, with different background colors.
+const sets = {
+  classic: [
+    '#ffffff',
+    '#000000',
+    '#ff0000',
+    '#00ff00',
+    '#0000ff',
+    '#808000',
+    '#ffff00',
+    '#008000',
+    '#008080',
+    '#00ffff',
+    '#000080',
+    '#800080',
+    '#ff00ff'
+  ],
+  pastel: [
+    '#fde2e4',
+    '#fad2e1',
+    '#e2ece9',
+    '#bee1e6',
+    '#f0efeb',
+    '#dfe7fd',
+    '#cddafd',
+    '#fff1e6',
+    '#e8e8e4',
+    '#d8e2dc'
+  ]
+}
 const count = 10
 
-for (let i = 1; i <= count; i++) {
-  const inputFile = path.join(inputDir, i + '.svg')
-  
-  for (let j = 0; j < backgrounds.length; j++) {
-    const out = i + (count * j)
-    const background = backgrounds[j]
-    sharp(inputFile).flatten({background}).resize(120, 120).jpeg({quality: 95, mozjpeg: true}).toFile(path.join(outputDir, out.toString() + '.jpg'))
+for (const [set, backgrounds] of Object.entries(sets)) {
+  const setDir = path.join(outputDir, set)
+  fs.mkdirSync(setDir, { recursive: true })
+  for (let i = 1; i <= count; i++) {
+    const inputFile = path.join(inputDir, i + '.svg')
+
+    for (let j = 0; j < backgrounds.length; j++) {
+      const out = i + (count * j)
+      const background = backgrounds[j]
+      sharp(inputFile).flatten({background}).resize(120, 120).jpeg({quality: 95, mozjpeg: true}).toFile(path.join(setDir, out.toString() + '.jpg'))
+    }
   }
 }
@@ -1,6 +1,8 @@
 import type { RegisterClientOptions } from '@peertube/peertube-types/client'
 import type { Video } from '@peertube/peertube-types'
 import type { ProsodyListRoomsResult } from 'shared/lib/types'
+import { renderChatExportLinks } from './common/export/chat'
+import { renderRoomStats } from './common/stats/room'
 
 interface ActionPluginSettingsParams {
   npmName: string
@@ -33,6 +35,43 @@ function register ({ registerHook, registerSettingsScript, peertubeHelpers }: Re
         diagButton.setAttribute('href', getBaseRoute() + '/settings/diagnostic')
         diagButton.setAttribute('target', '_blank')
       })
+      console.log('[peertube-plugin-livechat] Initializing the avatars upload button')
+      const avatarsUploadButtons: NodeListOf<HTMLAnchorElement> =
+        document.querySelectorAll('.peertube-plugin-livechat-avatars-upload-btn')
+      avatarsUploadButtons.forEach(uploadButton => {
+        if (uploadButton.classList.contains('peertube-plugin-livechat-avatars-upload-btn-binded')) { return }
+        uploadButton.classList.add('peertube-plugin-livechat-avatars-upload-btn-binded')
+        uploadButton.onclick = async (): Promise<void> => {
+          const fileInput = uploadButton.parentElement?.querySelector(
+            'input.peertube-plugin-livechat-avatars-upload-file'
+          ) as HTMLInputElement | null
+          const file = fileInput?.files?.[0]
+          if (!file) {
+            peertubeHelpers.notifier.error(await peertubeHelpers.translate('Please choose a zip file.'))
+            return
+          }
+          try {
+            const response = await fetch(getBaseRoute() + '/settings/avatars', {
+              method: 'POST',
+              headers: Object.assign({}, peertubeHelpers.getAuthHeader(), {
+                'content-type': 'application/zip'
+              }),
+              body: file
+            })
+            const json = await response.json()
+            if (!response.ok || !json.ok) {
+              peertubeHelpers.notifier.error(json.error ?? await peertubeHelpers.translate('Upload failed.'))
+              return
+            }
+            const label = await peertubeHelpers.translate('Avatar set uploaded. Number of avatars:')
+            peertubeHelpers.notifier.success(label + ' ' + (json.count as string))
+          } catch (err) {
+            console.error('[peertube-plugin-livechat] Failed to upload the avatar set.', err)
+            peertubeHelpers.notifier.error(await peertubeHelpers.translate('Upload failed.'))
+          }
+        }
+      })
+
       console.log('[peertube-plugin-livechat] Initializing prosody-list-rooms button')
       const listRoomsButtons: NodeListOf<HTMLAnchorElement> =
         document.querySelectorAll('.peertube-plugin-livechat-prosody-list-rooms-btn')
@@ -105,7 +144,9 @@ function register ({ registerHook, registerSettingsScript, peertubeHelpers }: Re
                 NotFound: await peertubeHelpers.translate('Not found'),
                 Video: await peertubeHelpers.translate('Video'),
                 Channel: await peertubeHelpers.translate('Channel'),
-                LastActivity: await peertubeHelpers.translate('Last activity')
+                LastActivity: await peertubeHelpers.translate('Last activity'),
+                Statistics: await peertubeHelpers.translate('Statistics'),
+                ExportChat: await peertubeHelpers.translate('Export chat')
               }
 
               const titleLineEl = document.createElement('tr')
@@ -117,10 +158,16 @@ function register ({ registerHook, registerSettingsScript, peertubeHelpers }: Re
               titleVideoEl.textContent = `${labels.Video as string} / ${labels.Channel as string}`
               const titleLastActivityEl = document.createElement('th')
               titleLastActivityEl.textContent = labels.LastActivity
+              const titleStatsEl = document.createElement('th')
+              titleStatsEl.textContent = labels.Statistics
+              const titleExportEl = document.createElement('th')
+              titleExportEl.textContent = labels.ExportChat
               titleLineEl.append(titleNameEl)
               titleLineEl.append(titleDescriptionEl)
               titleLineEl.append(titleVideoEl)
               titleLineEl.append(titleLastActivityEl)
+              titleLineEl.append(titleStatsEl)
+              titleLineEl.append(titleExportEl)
               table.append(titleLineEl)
               rooms.forEach(room => {
                 const localpart = room.localpart
@@ -137,11 +184,19 @@ function register ({ registerHook, registerSettingsScript, peertubeHelpers }: Re
                   const date = new Date(room.lasttimestamp * 1000)
                   lastActivityEl.textContent = date.toLocaleDateString() + ' ' + date.toLocaleTimeString()
                 }
+                const statsEl = document.createElement('td')
+                renderRoomStats(statsEl, peertubeHelpers, room.stats).then(() => {}, (err) => {
+                  console.error('[peertube-plugin-livechat] Failed to render the room stats', err)
+                })
+                const exportEl = document.createElement('td')
+                renderChatExportLinks(exportEl, peertubeHelpers, getBaseRoute(), localpart)
                 nameEl.append(aEl)
                 lineEl.append(nameEl)
                 lineEl.append(descriptionEl)
                 lineEl.append(videoEl)
                 lineEl.append(lastActivityEl)
+                lineEl.append(statsEl)
+                lineEl.append(exportEl)
                 table.append(lineEl)
 
                 const channelMatches = localpart.match(/^channel\.(\d+)$/)
@@ -210,6 +265,10 @@ function register ({ registerHook, registerSettingsScript, peertubeHelpers }: Re
         case 'prosody-components-port':
         case 'prosody-components-list':
           return options.formValues['prosody-components'] !== true
+        case 'avatar-set-upload':
+          return options.formValues['avatar-set'] !== 'custom'
+        case 'prometheus-metrics-token':
+          return options.formValues['prometheus-metrics'] !== true
         case 'converse-autocolors':
           return options.formValues['converse-theme'] !== 'peertube'
         case 'chat-per-live-video-warning':
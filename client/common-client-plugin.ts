@@ -1,7 +1,10 @@
 import type { RegisterClientOptions } from '@peertube/peertube-types/client'
 import type { RegisterClientFormFieldOptions } from '@peertube/peertube-types'
+import { registerConfiguration } from './common/configuration/register'
+
+async function register (clientOptions: RegisterClientOptions): Promise<void> {
+  const { peertubeHelpers, registerHook, registerVideoField } = clientOptions
 
-async function register ({ peertubeHelpers, registerHook, registerVideoField }: RegisterClientOptions): Promise<void> {
   registerHook({
     target: 'action:router.navigation-end',
     handler: () => {
@@ -21,6 +24,8 @@ async function register ({ peertubeHelpers, registerHook, registerVideoField }:
     }
   })
 
+  registerConfiguration(clientOptions)
+
   const [label, description, settings] = await Promise.all([
     peertubeHelpers.translate('Use chat'),
     peertubeHelpers.translate('If enabled, there will be a chat next to the video.'),
@@ -0,0 +1,67 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration } from 'shared/lib/types'
+import { callApiWithContent, getChannelConfigurationApiUrl } from './utils'
+import { renderChannelSettings } from './channel/settings'
+import { renderChannelModerators } from './channel/moderators'
+import { renderChannelBans } from './channel/bans'
+import { renderChannelChatFilters } from './channel/filters'
+import { renderChannelChatBot } from './channel/bot'
+import { renderChannelAnnouncements } from './channel/announcements'
+import { renderChannelEmojis } from './channel/emojis'
+import { renderChannelModerationLog } from './channel/moderation-log'
+import { renderChannelRooms } from './channel/rooms'
+
+/**
+ * Renders the chat configuration page for a channel.
+ * @param clientOptions Peertube client options
+ * @param rootEl where to render the page
+ * @param channelId the channel id (from the url)
+ */
+async function renderConfigurationChannel (
+  clientOptions: RegisterClientOptions,
+  rootEl: HTMLElement,
+  channelId: string
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  rootEl.innerHTML = ''
+  const container = document.createElement('div')
+  container.classList.add('margin-content', 'peertube-plugin-livechat-configuration')
+  rootEl.append(container)
+
+  if (!/^\d+$/.test(channelId)) {
+    container.textContent = await peertubeHelpers.translate('Not found')
+    return
+  }
+
+  let channelConfiguration: ChannelConfiguration
+  try {
+    channelConfiguration = await callApiWithContent<ChannelConfiguration>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId)
+    )
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    container.textContent = await peertubeHelpers.translate('Error')
+    container.classList.add('peertube-plugin-livechat-error')
+    return
+  }
+
+  const title = document.createElement('h1')
+  title.textContent = (await peertubeHelpers.translate('Chat configuration')) +
+    ': ' + channelConfiguration.channel.displayName
+  container.append(title)
+
+  await renderChannelSettings(clientOptions, container, channelConfiguration)
+  await renderChannelModerators(clientOptions, container, channelConfiguration)
+  await renderChannelBans(clientOptions, container, channelConfiguration)
+  await renderChannelChatFilters(clientOptions, container, channelConfiguration)
+  await renderChannelChatBot(clientOptions, container, channelConfiguration)
+  await renderChannelAnnouncements(clientOptions, container, channelConfiguration)
+  await renderChannelEmojis(clientOptions, container, channelConfiguration)
+  await renderChannelRooms(clientOptions, container, channelConfiguration)
+  await renderChannelModerationLog(clientOptions, container, channelConfiguration)
+}
+
+export {
+  renderConfigurationChannel
+}
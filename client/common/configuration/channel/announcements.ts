@@ -0,0 +1,147 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type {
+  ChannelConfiguration, ChannelAnnouncements, ScheduledAnnouncement, ScheduledAnnouncementType
+} from 'shared/lib/types'
+import {
+  callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderInputField, renderSection, renderSelectField,
+  renderTable, renderTableLine, renderTextareaField
+} from '../utils'
+
+/**
+ * Renders the channel scheduled announcements list, and the form to add new ones.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelAnnouncements (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelType,
+    labelRecurring,
+    labelOnce,
+    labelMessage,
+    labelSchedule,
+    labelInterval,
+    labelMinutes,
+    labelDate,
+    labelAdd,
+    labelDelete,
+    labelNoAnnouncement,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Scheduled announcements'),
+    peertubeHelpers.translate(
+      'Announcements are posted in the chat rooms of your lives, while they are streaming, ' +
+      'using the chat bot nickname.'
+    ),
+    peertubeHelpers.translate('Type'),
+    peertubeHelpers.translate('Recurring'),
+    peertubeHelpers.translate('One-shot'),
+    peertubeHelpers.translate('Message'),
+    peertubeHelpers.translate('Schedule'),
+    peertubeHelpers.translate('Interval (in minutes), for recurring announcements'),
+    peertubeHelpers.translate('minutes'),
+    peertubeHelpers.translate('Date, for one-shot announcements'),
+    peertubeHelpers.translate('Add'),
+    peertubeHelpers.translate('Delete'),
+    peertubeHelpers.translate('No announcement.'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+  const listContainer = document.createElement('div')
+  section.append(listContainer)
+
+  let current: ScheduledAnnouncement[] = []
+  const save = async (announcements: ScheduledAnnouncement[]): Promise<boolean> => {
+    try {
+      const result = await callApiWithContent<ChannelAnnouncements>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'announcements'),
+        'POST',
+        { announcements }
+      )
+      renderList(result.announcements)
+      return true
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+      return false
+    }
+  }
+
+  const renderList = (announcements: ScheduledAnnouncement[]): void => {
+    current = announcements
+    listContainer.innerHTML = ''
+    if (!announcements.length) {
+      listContainer.textContent = labelNoAnnouncement
+      return
+    }
+    const table = renderTable(listContainer, [labelType, labelMessage, labelSchedule, ''])
+    for (const announcement of announcements) {
+      const schedule = announcement.type === 'recurring'
+        ? (announcement.interval ?? 0).toString() + ' ' + labelMinutes
+        : new Date(announcement.date ?? '').toLocaleString()
+      const actions = document.createElement('div')
+      renderButton(actions, labelDelete, async () => {
+        await save(current.filter(a => a.id !== announcement.id))
+      }, true)
+      renderTableLine(table, [
+        announcement.type === 'recurring' ? labelRecurring : labelOnce,
+        announcement.message,
+        schedule,
+        actions
+      ])
+    }
+  }
+
+  try {
+    const result = await callApiWithContent<ChannelAnnouncements>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId, 'announcements')
+    )
+    renderList(result.announcements)
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  const form = document.createElement('form')
+  section.append(form)
+  const typeSelect = renderSelectField(form, 'announcement-type', labelType, [
+    { value: 'recurring', label: labelRecurring },
+    { value: 'once', label: labelOnce }
+  ] as Array<{ value: ScheduledAnnouncementType, label: string }>, 'recurring')
+  const messageInput = renderTextareaField(form, 'announcement-message', labelMessage, '')
+  const intervalInput = renderInputField(form, 'announcement-interval', labelInterval, '30', 'number')
+  const dateInput = renderInputField(form, 'announcement-date', labelDate, '', 'datetime-local')
+  renderButton(form, labelAdd, async () => {
+    const type = typeSelect.value as ScheduledAnnouncementType
+    const announcement: any = {
+      type,
+      message: messageInput.value
+    }
+    if (type === 'recurring') {
+      announcement.interval = intervalInput.value
+    } else {
+      // datetime-local values are in the browser timezone.
+      announcement.date = dateInput.value ? new Date(dateInput.value).toISOString() : undefined
+    }
+    if (await save([...current, announcement])) {
+      messageInput.value = ''
+      dateInput.value = ''
+    }
+  })
+}
+
+export {
+  renderChannelAnnouncements
+}
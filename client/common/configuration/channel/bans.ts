@@ -0,0 +1,133 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelBan, ChannelBans } from 'shared/lib/types'
+import {
+  callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderInputField, renderSection, renderTable,
+  renderTableLine
+} from '../utils'
+
+/**
+ * Renders the channel ban list, and the form to ban new users.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelBans (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelUser,
+    labelReason,
+    labelAuthor,
+    labelDate,
+    labelExpires,
+    labelNever,
+    labelExpired,
+    labelBan,
+    labelUnban,
+    labelNoBan,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Banned users'),
+    peertubeHelpers.translate(
+      'Banned users can\'t join the chat rooms of this channel, even if the rooms are recreated.'
+    ),
+    peertubeHelpers.translate('User'),
+    peertubeHelpers.translate('Reason'),
+    peertubeHelpers.translate('Banned by'),
+    peertubeHelpers.translate('Date'),
+    peertubeHelpers.translate('Expires'),
+    peertubeHelpers.translate('Never'),
+    peertubeHelpers.translate('Expired'),
+    peertubeHelpers.translate('Ban'),
+    peertubeHelpers.translate('Unban'),
+    peertubeHelpers.translate('No banned user.'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+  const listContainer = document.createElement('div')
+  section.append(listContainer)
+
+  const renderList = (bans: ChannelBan[]): void => {
+    listContainer.innerHTML = ''
+    if (!bans.length) {
+      listContainer.textContent = labelNoBan
+      return
+    }
+    const now = Date.now()
+    const table = renderTable(listContainer, [labelUser, labelReason, labelAuthor, labelDate, labelExpires, ''])
+    for (const ban of bans) {
+      let expires = labelNever
+      if (ban.expires) {
+        expires = new Date(ban.expires).getTime() <= now ? labelExpired : new Date(ban.expires).toLocaleString()
+      }
+      const actions = document.createElement('div')
+      renderButton(actions, labelUnban, async () => {
+        try {
+          const result = await callApiWithContent<ChannelBans>(
+            clientOptions,
+            getChannelConfigurationApiUrl(clientOptions, channelId, 'bans/' + encodeURIComponent(ban.user)),
+            'DELETE'
+          )
+          renderList(result.bans)
+        } catch (err) {
+          console.error('[peertube-plugin-livechat] ', err)
+          peertubeHelpers.notifier.error(labelError)
+        }
+      }, true)
+      renderTableLine(table, [
+        ban.user, ban.reason, ban.author, new Date(ban.date).toLocaleString(), expires, actions
+      ])
+    }
+  }
+
+  try {
+    const result = await callApiWithContent<ChannelBans>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId, 'bans')
+    )
+    renderList(result.bans)
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  const form = document.createElement('form')
+  section.append(form)
+  const userInput = renderInputField(form, 'ban-user', labelUser, '')
+  const reasonInput = renderInputField(form, 'ban-reason', labelReason, '')
+  const expiresInput = renderInputField(form, 'ban-expires', labelExpires, '', 'datetime-local')
+  renderButton(form, labelBan, async () => {
+    try {
+      const result = await callApiWithContent<ChannelBans>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'bans'),
+        'POST',
+        {
+          user: userInput.value,
+          reason: reasonInput.value,
+          // datetime-local values are in the browser timezone.
+          expires: expiresInput.value ? new Date(expiresInput.value).toISOString() : undefined
+        }
+      )
+      userInput.value = ''
+      reasonInput.value = ''
+      expiresInput.value = ''
+      renderList(result.bans)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  })
+}
+
+export {
+  renderChannelBans
+}
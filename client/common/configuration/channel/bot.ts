@@ -0,0 +1,144 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelChatBot, ChatBotAnnouncement } from 'shared/lib/types'
+import {
+  callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderInputField, renderSection, renderSelectField,
+  renderTextareaField
+} from '../utils'
+
+/**
+ * Renders the form to configure the channel chat bot.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelChatBot (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelBot,
+    labelEnabled,
+    labelDisabled,
+    labelNickname,
+    labelWelcomeMessage,
+    labelWelcomeMessageDescription,
+    labelSocials,
+    labelSocialsDescription,
+    labelAnnouncements,
+    labelAnnouncementsDescription,
+    labelInvalidAnnouncement,
+    labelSave,
+    labelSaved,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Chat bot'),
+    peertubeHelpers.translate(
+      'The chat bot answers to some commands in the chat rooms of this channel: ' +
+      '!help, !uptime (for how long the live has been streaming) and !socials (your links).'
+    ),
+    peertubeHelpers.translate('Bot'),
+    peertubeHelpers.translate('Enabled'),
+    peertubeHelpers.translate('Disabled'),
+    peertubeHelpers.translate('Bot nickname'),
+    peertubeHelpers.translate('Welcome message'),
+    peertubeHelpers.translate(
+      'Sent to each new participant. Only this participant can see it. Leave empty to disable.'
+    ),
+    peertubeHelpers.translate('Social links'),
+    peertubeHelpers.translate('One link per line. Displayed by the !socials command.'),
+    peertubeHelpers.translate('Announcements'),
+    peertubeHelpers.translate(
+      'One announcement per line, with the format «minutes | message». ' +
+      'For example: «30 | Don\'t forget to subscribe!» sends the message every 30 minutes. ' +
+      'Announcements are only sent while the live is streaming.'
+    ),
+    peertubeHelpers.translate('Invalid announcement, use the format «minutes | message»:'),
+    peertubeHelpers.translate('Save'),
+    peertubeHelpers.translate('Chat bot saved'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+
+  let current: ChannelChatBot
+  try {
+    current = await callApiWithContent<ChannelChatBot>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId, 'bot')
+    )
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  const form = document.createElement('form')
+  section.append(form)
+  const bot = current.bot
+  const enabled = renderSelectField(form, 'enabled', labelBot, [
+    { value: 'true', label: labelEnabled },
+    { value: 'false', label: labelDisabled }
+  ], bot.enabled ? 'true' : 'false')
+  const nickname = renderInputField(form, 'nickname', labelNickname, bot.nickname)
+  const welcomeMessage = renderTextareaField(
+    form, 'welcomeMessage', labelWelcomeMessage, bot.welcomeMessage, labelWelcomeMessageDescription
+  )
+  const socials = renderTextareaField(
+    form, 'socials', labelSocials, bot.socials.join('\n'), labelSocialsDescription
+  )
+  const announcements = renderTextareaField(
+    form, 'announcements', labelAnnouncements, _formatAnnouncements(bot.announcements), labelAnnouncementsDescription
+  )
+
+  renderButton(form, labelSave, async () => {
+    const parsedAnnouncements: ChatBotAnnouncement[] = []
+    for (const line of announcements.value.split(/\r?\n/)) {
+      if (line.trim() === '') { continue }
+      const matches = line.match(/^\s*(\d+)\s*\|(.+)$/)
+      if (!matches) {
+        peertubeHelpers.notifier.error(labelInvalidAnnouncement + ' ' + line)
+        return
+      }
+      parsedAnnouncements.push({
+        interval: parseInt(matches[1]),
+        message: matches[2].trim()
+      })
+    }
+    try {
+      const result = await callApiWithContent<ChannelChatBot>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'bot'),
+        'POST',
+        {
+          bot: {
+            enabled: enabled.value === 'true',
+            nickname: nickname.value,
+            welcomeMessage: welcomeMessage.value,
+            socials: socials.value.split(/\r?\n/),
+            announcements: parsedAnnouncements
+          }
+        }
+      )
+      nickname.value = result.bot.nickname
+      socials.value = result.bot.socials.join('\n')
+      announcements.value = _formatAnnouncements(result.bot.announcements)
+      peertubeHelpers.notifier.success(labelSaved)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  })
+}
+
+function _formatAnnouncements (announcements: ChatBotAnnouncement[]): string {
+  return announcements.map(a => a.interval.toString() + ' | ' + a.message).join('\n')
+}
+
+export {
+  renderChannelChatBot
+}
@@ -0,0 +1,158 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelEmojis, CustomEmojiDefinition } from 'shared/lib/types'
+import {
+  customEmojiFormats, maxCustomEmojiSize, maxCustomEmojis, normalizeCustomEmojiShortName
+} from 'shared/lib/emojis'
+import {
+  callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderInputField, renderSection, renderTable,
+  renderTableLine
+} from '../utils'
+
+/**
+ * Renders the channel custom emojis list, and the form to upload new ones.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelEmojis (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelEmoji,
+    labelShortName,
+    labelFile,
+    labelUpload,
+    labelDelete,
+    labelNoEmoji,
+    labelInvalidShortName,
+    labelInvalidFile,
+    labelTooManyEmojis,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Custom emojis'),
+    peertubeHelpers.translate(
+      'Custom emojis can be used in the chat rooms of this channel, ' +
+      'by typing their short name (for example :myemote:), or using the emoji picker.'
+    ),
+    peertubeHelpers.translate('Emoji'),
+    peertubeHelpers.translate('Short name'),
+    peertubeHelpers.translate('Image (PNG, JPEG, GIF or WEBP, 256KB maximum)'),
+    peertubeHelpers.translate('Upload'),
+    peertubeHelpers.translate('Delete'),
+    peertubeHelpers.translate('No custom emoji.'),
+    peertubeHelpers.translate(
+      'Invalid short name: use 2 to 32 letters, numbers, dashes or underscores.'
+    ),
+    peertubeHelpers.translate('Invalid image: check the format and the size.'),
+    peertubeHelpers.translate('Too many custom emojis.'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+  const listContainer = document.createElement('div')
+  section.append(listContainer)
+
+  let current: CustomEmojiDefinition[] = []
+  const renderList = (emojis: CustomEmojiDefinition[]): void => {
+    current = emojis
+    listContainer.innerHTML = ''
+    if (!emojis.length) {
+      listContainer.textContent = labelNoEmoji
+      return
+    }
+    const table = renderTable(listContainer, [labelEmoji, labelShortName, ''])
+    for (const emoji of emojis) {
+      const img = document.createElement('img')
+      img.classList.add('peertube-plugin-livechat-custom-emoji')
+      img.setAttribute('src', emoji.url)
+      img.setAttribute('alt', emoji.sn)
+      const actions = document.createElement('div')
+      renderButton(actions, labelDelete, async () => {
+        try {
+          const result = await callApiWithContent<ChannelEmojis>(
+            clientOptions,
+            getChannelConfigurationApiUrl(
+              clientOptions, channelId, 'emojis/' + encodeURIComponent(emoji.sn.replace(/:/g, ''))
+            ),
+            'DELETE'
+          )
+          renderList(result.customEmojis)
+        } catch (err) {
+          console.error('[peertube-plugin-livechat] ', err)
+          peertubeHelpers.notifier.error(labelError)
+        }
+      }, true)
+      renderTableLine(table, [img, emoji.sn, actions])
+    }
+  }
+
+  try {
+    const result = await callApiWithContent<ChannelEmojis>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId, 'emojis')
+    )
+    renderList(result.customEmojis)
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  const form = document.createElement('form')
+  section.append(form)
+  const snInput = renderInputField(form, 'emoji-sn', labelShortName, '')
+  const fileInput = renderInputField(form, 'emoji-file', labelFile, '', 'file')
+  fileInput.setAttribute('accept', Object.keys(customEmojiFormats).join(','))
+  renderButton(form, labelUpload, async () => {
+    const sn = normalizeCustomEmojiShortName(snInput.value)
+    if (!sn) {
+      peertubeHelpers.notifier.error(labelInvalidShortName)
+      return
+    }
+    const file = fileInput.files?.[0]
+    if (!file || !(file.type in customEmojiFormats) || file.size > maxCustomEmojiSize) {
+      peertubeHelpers.notifier.error(labelInvalidFile)
+      return
+    }
+    if (current.length >= maxCustomEmojis && !current.find(e => e.sn === sn)) {
+      peertubeHelpers.notifier.error(labelTooManyEmojis)
+      return
+    }
+    try {
+      const result = await callApiWithContent<ChannelEmojis>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'emojis'),
+        'POST',
+        {
+          sn,
+          data: await _readFileAsDataUrl(file)
+        }
+      )
+      snInput.value = ''
+      fileInput.value = ''
+      renderList(result.customEmojis)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  })
+}
+
+async function _readFileAsDataUrl (file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export {
+  renderChannelEmojis
+}
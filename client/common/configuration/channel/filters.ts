@@ -0,0 +1,138 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelChatFilters, ChatFiltersAction } from 'shared/lib/types'
+import {
+  callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderInputField, renderSection, renderSelectField,
+  renderTextareaField
+} from '../utils'
+
+/**
+ * Renders the form to edit the channel chat filters (automatic moderation).
+ * These filters are applied in addition to the instance ones.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelChatFilters (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelForbiddenWords,
+    labelForbiddenWordsDescription,
+    labelPatterns,
+    labelPatternsDescription,
+    labelBlockLinks,
+    labelEnabled,
+    labelDisabled,
+    labelMaxLength,
+    labelMaxCapsRatio,
+    labelAction,
+    labelActionBlock,
+    labelActionRetract,
+    labelActionKick,
+    labelKickAfter,
+    labelSave,
+    labelSaved,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Automatic moderation'),
+    peertubeHelpers.translate(
+      'These rules are applied on the chat rooms of this channel, in addition to the instance rules. ' +
+      'Moderators are not concerned by these rules.'
+    ),
+    peertubeHelpers.translate('Forbidden words'),
+    peertubeHelpers.translate('One word (or expression) per line. Case insensitive.'),
+    peertubeHelpers.translate('Forbidden patterns'),
+    peertubeHelpers.translate(
+      'One regular expression per line, case insensitive. Lookarounds, backreferences and unicode escapes ' +
+      'are not supported.'
+    ),
+    peertubeHelpers.translate('Block links'),
+    peertubeHelpers.translate('Enabled'),
+    peertubeHelpers.translate('Disabled'),
+    peertubeHelpers.translate('Maximum message length (0 to disable)'),
+    peertubeHelpers.translate('Maximum percentage of capital letters (0 to disable)'),
+    peertubeHelpers.translate('Action to apply'),
+    peertubeHelpers.translate('Block the message'),
+    peertubeHelpers.translate('Remove the message and warn the user'),
+    peertubeHelpers.translate('Remove the message, warn the user, and kick the user after too many offences'),
+    peertubeHelpers.translate('Number of offences before kick'),
+    peertubeHelpers.translate('Save'),
+    peertubeHelpers.translate('Automatic moderation rules saved'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+
+  let current: ChannelChatFilters
+  try {
+    current = await callApiWithContent<ChannelChatFilters>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId, 'filters')
+    )
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  const form = document.createElement('form')
+  section.append(form)
+  const filters = current.filters
+  const forbiddenWords = renderTextareaField(
+    form, 'forbiddenWords', labelForbiddenWords, filters.forbiddenWords.join('\n'), labelForbiddenWordsDescription
+  )
+  const patterns = renderTextareaField(
+    form, 'patterns', labelPatterns, filters.patterns.join('\n'), labelPatternsDescription
+  )
+  const blockLinks = renderSelectField(form, 'blockLinks', labelBlockLinks, [
+    { value: 'true', label: labelEnabled },
+    { value: 'false', label: labelDisabled }
+  ], filters.blockLinks ? 'true' : 'false')
+  const maxLength = renderInputField(form, 'maxLength', labelMaxLength, filters.maxLength.toString(), 'number')
+  const maxCapsRatio = renderInputField(
+    form, 'maxCapsRatio', labelMaxCapsRatio, filters.maxCapsRatio.toString(), 'number'
+  )
+  const action = renderSelectField(form, 'action', labelAction, [
+    { value: 'block', label: labelActionBlock },
+    { value: 'retract', label: labelActionRetract },
+    { value: 'kick', label: labelActionKick }
+  ] as Array<{ value: ChatFiltersAction, label: string }>, filters.action)
+  const kickAfter = renderInputField(form, 'kickAfter', labelKickAfter, filters.kickAfter.toString(), 'number')
+
+  renderButton(form, labelSave, async () => {
+    try {
+      const result = await callApiWithContent<ChannelChatFilters>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'filters'),
+        'POST',
+        {
+          filters: {
+            forbiddenWords: forbiddenWords.value.split(/\r?\n/),
+            patterns: patterns.value.split(/\r?\n/),
+            blockLinks: blockLinks.value === 'true',
+            maxLength: maxLength.value,
+            maxCapsRatio: maxCapsRatio.value,
+            action: action.value,
+            kickAfter: kickAfter.value
+          }
+        }
+      )
+      forbiddenWords.value = result.filters.forbiddenWords.join('\n')
+      patterns.value = result.filters.patterns.join('\n')
+      peertubeHelpers.notifier.success(labelSaved)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  })
+}
+
+export {
+  renderChannelChatFilters
+}
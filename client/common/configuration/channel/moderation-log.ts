@@ -0,0 +1,138 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelModerationLog, ModerationLogAction } from 'shared/lib/types'
+import {
+  callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderSection, renderTable, renderTableLine
+} from '../utils'
+
+// Number of entries displayed in the page. The CSV export contains all entries.
+const displayedEntries = 100
+
+/**
+ * Renders the last moderation actions made in the channel rooms, and a button to export the whole log.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelModerationLog (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelDate,
+    labelRoom,
+    labelAction,
+    labelActor,
+    labelTarget,
+    labelReason,
+    labelDetails,
+    labelRetract,
+    labelKick,
+    labelBan,
+    labelRole,
+    labelAffiliation,
+    labelNoEntry,
+    labelExport,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Moderation log'),
+    peertubeHelpers.translate(
+      'Moderation actions made in the chat rooms of this channel. Only the last actions are displayed, ' +
+      'you can export the whole log as a CSV file.'
+    ),
+    peertubeHelpers.translate('Date'),
+    peertubeHelpers.translate('Room'),
+    peertubeHelpers.translate('Action'),
+    peertubeHelpers.translate('Moderator'),
+    peertubeHelpers.translate('Target'),
+    peertubeHelpers.translate('Reason'),
+    peertubeHelpers.translate('Details'),
+    peertubeHelpers.translate('Message removed'),
+    peertubeHelpers.translate('Kick'),
+    peertubeHelpers.translate('Ban'),
+    peertubeHelpers.translate('Role change'),
+    peertubeHelpers.translate('Affiliation change'),
+    peertubeHelpers.translate('No moderation action.'),
+    peertubeHelpers.translate('Export as CSV'),
+    peertubeHelpers.translate('Error')
+  ])
+  const actionLabels: { [action in ModerationLogAction]: string } = {
+    retract: labelRetract,
+    kick: labelKick,
+    ban: labelBan,
+    role: labelRole,
+    affiliation: labelAffiliation
+  }
+
+  const section = renderSection(container, labelTitle, labelDescription)
+  const url = getChannelConfigurationApiUrl(clientOptions, channelId, 'moderation-log')
+
+  let log: ChannelModerationLog
+  try {
+    log = await callApiWithContent<ChannelModerationLog>(clientOptions, url)
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  if (!log.entries.length) {
+    section.append(labelNoEntry)
+    return
+  }
+
+  renderButton(section, labelExport, async () => {
+    try {
+      await _downloadCSV(clientOptions, url, channelConfiguration.channel.name)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  }, true)
+
+  const table = renderTable(section, [
+    labelDate, labelRoom, labelAction, labelActor, labelTarget, labelReason, labelDetails
+  ])
+  for (const entry of log.entries.slice(-displayedEntries).reverse()) {
+    renderTableLine(table, [
+      new Date(entry.date).toLocaleString(),
+      entry.room,
+      actionLabels[entry.action] ?? entry.action,
+      entry.actor,
+      entry.target,
+      entry.reason ?? '',
+      entry.details ?? ''
+    ])
+  }
+}
+
+/**
+ * Downloads the CSV export.
+ * We can't use a simple link, as the API needs the authentication header.
+ */
+async function _downloadCSV (clientOptions: RegisterClientOptions, url: string, channelName: string): Promise<void> {
+  const response = await fetch(url + '?format=csv', {
+    method: 'GET',
+    headers: clientOptions.peertubeHelpers.getAuthHeader()
+  })
+  if (!response.ok) {
+    throw new Error('Moderation log export failed with status ' + response.status.toString())
+  }
+  const blob = await response.blob()
+  const blobUrl = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = blobUrl
+  a.download = 'moderation-log-' + channelName + '.csv'
+  document.body.append(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(blobUrl)
+}
+
+export {
+  renderChannelModerationLog
+}
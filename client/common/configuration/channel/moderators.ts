@@ -0,0 +1,102 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type {
+  ChannelConfiguration, ChannelModerators, ChannelAffiliationsSyncResult
+} from 'shared/lib/types'
+import {
+  callApi, callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderSection, renderTextareaField
+} from '../utils'
+
+/**
+ * Renders the form to edit the channel chat moderators.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelModerators (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelModerators,
+    labelModeratorsDescription,
+    labelSave,
+    labelSaved,
+    labelSync,
+    labelSynced,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Chat moderators'),
+    peertubeHelpers.translate(
+      'Chat moderators will be admins of the chat rooms of this channel.'
+    ),
+    peertubeHelpers.translate('Moderators'),
+    peertubeHelpers.translate(
+      'One per line. Use the username for users of this instance, or the full address for remote users.'
+    ),
+    peertubeHelpers.translate('Save'),
+    peertubeHelpers.translate('Moderators saved'),
+    peertubeHelpers.translate('Update existing rooms'),
+    peertubeHelpers.translate('Rooms updated'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+
+  let moderators: ChannelModerators
+  try {
+    moderators = await callApiWithContent<ChannelModerators>(
+      clientOptions,
+      getChannelConfigurationApiUrl(clientOptions, channelId, 'moderators')
+    )
+  } catch (err) {
+    console.error('[peertube-plugin-livechat] ', err)
+    section.append(labelError)
+    return
+  }
+
+  const form = document.createElement('form')
+  section.append(form)
+  const textarea = renderTextareaField(
+    form, 'moderators', labelModerators, moderators.moderators.join('\n'), labelModeratorsDescription
+  )
+
+  renderButton(form, labelSave, async () => {
+    try {
+      const result = await callApiWithContent<ChannelModerators>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'moderators'),
+        'POST',
+        { moderators: textarea.value.split(/\r?\n/) }
+      )
+      textarea.value = result.moderators.join('\n')
+      peertubeHelpers.notifier.success(labelSaved)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  })
+
+  renderButton(form, labelSync, async () => {
+    try {
+      await callApi<ChannelAffiliationsSyncResult>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'sync-affiliations'),
+        'POST',
+        {}
+      )
+      peertubeHelpers.notifier.success(labelSynced)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  }, true)
+}
+
+export {
+  renderChannelModerators
+}
@@ -0,0 +1,160 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelRoom, ChannelRooms } from 'shared/lib/types'
+import {
+  callApi, callApiWithContent, getChannelConfigurationApiUrl, renderButton, renderSection, renderTable, renderTableLine
+} from '../utils'
+import { renderChatExportLinks } from '../../export/chat'
+import { renderRoomStats } from '../../stats/room'
+import { getBaseRoute } from '../../../videowatch/uri'
+
+/**
+ * Renders the list of existing chat rooms of the channel, with some actions.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelRooms (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const channelId = channelConfiguration.channel.id
+  const [
+    labelTitle,
+    labelDescription,
+    labelRoom,
+    labelChannelRoom,
+    labelSubject,
+    labelOccupants,
+    labelLastActivity,
+    labelSaveSubject,
+    labelSubjectSaved,
+    labelDestroy,
+    labelDestroyAndPurge,
+    labelConfirmDestroy,
+    labelConfirmDestroyAndPurge,
+    labelCancel,
+    labelNoRoom,
+    labelExportChat,
+    labelStats,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Chat rooms'),
+    peertubeHelpers.translate('Existing chat rooms for this channel.'),
+    peertubeHelpers.translate('Room'),
+    peertubeHelpers.translate('Channel room'),
+    peertubeHelpers.translate('Subject'),
+    peertubeHelpers.translate('Occupants'),
+    peertubeHelpers.translate('Last activity'),
+    peertubeHelpers.translate('Change subject'),
+    peertubeHelpers.translate('Subject changed'),
+    peertubeHelpers.translate('Destroy'),
+    peertubeHelpers.translate('Destroy and purge history'),
+    peertubeHelpers.translate('Are you sure you want to destroy this room?'),
+    peertubeHelpers.translate('Are you sure you want to destroy this room, and delete its history?'),
+    peertubeHelpers.translate('Cancel'),
+    peertubeHelpers.translate('No chat room.'),
+    peertubeHelpers.translate('Export chat'),
+    peertubeHelpers.translate('Statistics'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+  const listContainer = document.createElement('div')
+  section.append(listContainer)
+
+  const refresh = async (): Promise<void> => {
+    let rooms: ChannelRoom[]
+    try {
+      rooms = (await callApiWithContent<ChannelRooms>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelId, 'rooms')
+      )).rooms
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      listContainer.textContent = labelError
+      return
+    }
+
+    listContainer.innerHTML = ''
+    if (!rooms.length) {
+      listContainer.textContent = labelNoRoom
+      return
+    }
+    const table = renderTable(
+      listContainer,
+      [labelRoom, labelSubject, labelOccupants, labelLastActivity, labelStats, '']
+    )
+    for (const room of rooms) {
+      const roomApiPath = 'rooms/' + encodeURIComponent(room.localpart)
+
+      const subjectCell = document.createElement('div')
+      const subjectInput = document.createElement('input')
+      subjectInput.classList.add('form-control')
+      subjectInput.setAttribute('type', 'text')
+      subjectInput.value = room.subject ?? ''
+      subjectCell.append(subjectInput)
+      renderButton(subjectCell, labelSaveSubject, async () => {
+        try {
+          await callApi(
+            clientOptions,
+            getChannelConfigurationApiUrl(clientOptions, channelId, roomApiPath + '/subject'),
+            'POST',
+            { subject: subjectInput.value }
+          )
+          peertubeHelpers.notifier.success(labelSubjectSaved)
+        } catch (err) {
+          console.error('[peertube-plugin-livechat] ', err)
+          peertubeHelpers.notifier.error(labelError)
+        }
+      }, true)
+
+      const actions = document.createElement('div')
+      const destroy = (purge: boolean): void => {
+        peertubeHelpers.showModal({
+          title: labelDestroy,
+          content: purge ? labelConfirmDestroyAndPurge : labelConfirmDestroy,
+          close: true,
+          cancel: { value: labelCancel },
+          confirm: {
+            value: purge ? labelDestroyAndPurge : labelDestroy,
+            action: () => {
+              callApi(
+                clientOptions,
+                getChannelConfigurationApiUrl(clientOptions, channelId, roomApiPath) + (purge ? '?purge=true' : ''),
+                'DELETE'
+              ).then(refresh, (err) => {
+                console.error('[peertube-plugin-livechat] ', err)
+                peertubeHelpers.notifier.error(labelError)
+              })
+            }
+          }
+        })
+      }
+      renderButton(actions, labelDestroy, () => destroy(false), true)
+      renderButton(actions, labelDestroyAndPurge, () => destroy(true), true)
+      const exportEl = document.createElement('div')
+      renderChatExportLinks(exportEl, peertubeHelpers, getBaseRoute(clientOptions), room.localpart, labelExportChat)
+      actions.append(exportEl)
+
+      const statsCell = document.createElement('div')
+      await renderRoomStats(statsCell, peertubeHelpers, room.stats)
+
+      renderTableLine(table, [
+        room.video ? room.video.name : labelChannelRoom,
+        subjectCell,
+        room.occupants.toString(),
+        room.lasttimestamp ? new Date(room.lasttimestamp * 1000).toLocaleString() : '',
+        statsCell,
+        actions
+      ])
+    }
+  }
+
+  await refresh()
+}
+
+export {
+  renderChannelRooms
+}
@@ -0,0 +1,127 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChannelConfiguration, ChannelConfigurationOptions } from 'shared/lib/types'
+import {
+  callApi, getChannelConfigurationApiUrl, renderButton, renderSection, renderSelectField
+} from '../utils'
+
+// Channel options that are booleans (the others are rendered separately).
+type ChannelBooleanOption = Exclude<keyof ChannelConfigurationOptions, 'prosody-room-type' | 'converse-theme'>
+
+/**
+ * Renders the form that allows to override some instance settings for the channel.
+ * @param clientOptions Peertube client options
+ * @param container where to render the section
+ * @param channelConfiguration current channel configuration
+ */
+async function renderChannelSettings (
+  clientOptions: RegisterClientOptions,
+  container: HTMLElement,
+  channelConfiguration: ChannelConfiguration
+): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const [
+    labelTitle,
+    labelDescription,
+    labelDefault,
+    labelEnabled,
+    labelDisabled,
+    labelPerLiveVideo,
+    labelAllLives,
+    labelAllNonLives,
+    labelNoAnonymous,
+    labelLiveStateRooms,
+    labelFederationBans,
+    labelRoomType,
+    labelRoomTypeVideo,
+    labelRoomTypeChannel,
+    labelTheme,
+    labelSave,
+    labelSaved,
+    labelError
+  ] = await Promise.all([
+    peertubeHelpers.translate('Chat settings'),
+    peertubeHelpers.translate('You can override some of the instance settings for this channel.'),
+    peertubeHelpers.translate('Instance default'),
+    peertubeHelpers.translate('Enabled'),
+    peertubeHelpers.translate('Disabled'),
+    peertubeHelpers.translate('Chats can be activated for specific live videos'),
+    peertubeHelpers.translate('Activate chat for all lives'),
+    peertubeHelpers.translate('Activate chat for all non-lives'),
+    peertubeHelpers.translate('Hide the chat for anonymous users'),
+    peertubeHelpers.translate('Close the chat when the live ends'),
+    peertubeHelpers.translate('Apply the partners bans in all chat rooms'),
+    peertubeHelpers.translate('Room type'),
+    peertubeHelpers.translate('Each video has its own webchat room'),
+    peertubeHelpers.translate('Webchat rooms are not unique by videos, but by channel'),
+    peertubeHelpers.translate('ConverseJS theme'),
+    peertubeHelpers.translate('Save'),
+    peertubeHelpers.translate('Settings saved'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  const section = renderSection(container, labelTitle, labelDescription)
+  const form = document.createElement('form')
+  section.append(form)
+
+  const current = channelConfiguration.configuration
+  const booleanValue = (v: boolean | undefined): string => v === undefined ? '' : (v ? 'true' : 'false')
+  const booleanChoices = [
+    { value: '', label: labelDefault },
+    { value: 'true', label: labelEnabled },
+    { value: 'false', label: labelDisabled }
+  ]
+
+  const booleanFields: Array<[ChannelBooleanOption, string]> = [
+    ['chat-per-live-video', labelPerLiveVideo],
+    ['chat-all-lives', labelAllLives],
+    ['chat-all-non-lives', labelAllNonLives],
+    ['chat-no-anonymous', labelNoAnonymous],
+    ['chat-live-state-rooms', labelLiveStateRooms],
+    ['federation-bans-apply', labelFederationBans]
+  ]
+  const booleanSelects = new Map<ChannelBooleanOption, HTMLSelectElement>()
+  for (const [name, label] of booleanFields) {
+    booleanSelects.set(name, renderSelectField(form, name, label, booleanChoices, booleanValue(current[name])))
+  }
+  const roomTypeSelect = renderSelectField(form, 'prosody-room-type', labelRoomType, [
+    { value: '', label: labelDefault },
+    { value: 'video', label: labelRoomTypeVideo },
+    { value: 'channel', label: labelRoomTypeChannel }
+  ], current['prosody-room-type'] ?? '')
+  const themeSelect = renderSelectField(form, 'converse-theme', labelTheme, [
+    { value: '', label: labelDefault },
+    { value: 'peertube', label: 'Peertube' },
+    { value: 'default', label: 'Default ConverseJS theme' },
+    { value: 'concord', label: 'ConverseJS concord theme' }
+  ], current['converse-theme'] ?? '')
+
+  renderButton(form, labelSave, async () => {
+    const data: Partial<ChannelConfigurationOptions> = {}
+    booleanSelects.forEach((select, name) => {
+      if (select.value === '') { return }
+      data[name] = select.value === 'true'
+    })
+    if (roomTypeSelect.value === 'video' || roomTypeSelect.value === 'channel') {
+      data['prosody-room-type'] = roomTypeSelect.value
+    }
+    if (themeSelect.value === 'peertube' || themeSelect.value === 'default' || themeSelect.value === 'concord') {
+      data['converse-theme'] = themeSelect.value
+    }
+    try {
+      await callApi<ChannelConfiguration>(
+        clientOptions,
+        getChannelConfigurationApiUrl(clientOptions, channelConfiguration.channel.id),
+        'POST',
+        data
+      )
+      peertubeHelpers.notifier.success(labelSaved)
+    } catch (err) {
+      console.error('[peertube-plugin-livechat] ', err)
+      peertubeHelpers.notifier.error(labelError)
+    }
+  })
+}
+
+export {
+  renderChannelSettings
+}
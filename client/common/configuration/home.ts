@@ -0,0 +1,55 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { User } from '@peertube/peertube-types'
+
+/**
+ * Renders the configuration home page, that lists the channels of the current user.
+ * @param clientOptions Peertube client options
+ * @param rootEl where to render the page
+ */
+async function renderConfigurationHome (clientOptions: RegisterClientOptions, rootEl: HTMLElement): Promise<void> {
+  const { peertubeHelpers } = clientOptions
+  const [labelTitle, labelDescription, labelError] = await Promise.all([
+    peertubeHelpers.translate('Chat configuration'),
+    peertubeHelpers.translate('Select the channel for which you want to configure the chat.'),
+    peertubeHelpers.translate('Error')
+  ])
+
+  rootEl.innerHTML = ''
+  const container = document.createElement('div')
+  container.classList.add('margin-content', 'peertube-plugin-livechat-configuration')
+  rootEl.append(container)
+
+  const title = document.createElement('h1')
+  title.textContent = labelTitle
+  container.append(title)
+
+  const response = await fetch('/api/v1/users/me', {
+    method: 'GET',
+    headers: peertubeHelpers.getAuthHeader()
+  })
+  if (!response.ok) {
+    container.append(labelError)
+    container.classList.add('peertube-plugin-livechat-error')
+    return
+  }
+  const user: User = await response.json()
+
+  const p = document.createElement('p')
+  p.textContent = labelDescription
+  container.append(p)
+
+  const ul = document.createElement('ul')
+  for (const channel of user.videoChannels ?? []) {
+    const li = document.createElement('li')
+    const a = document.createElement('a')
+    a.href = '/p/livechat/configuration/channel?channelId=' + encodeURIComponent(channel.id)
+    a.textContent = channel.displayName
+    li.append(a)
+    ul.append(li)
+  }
+  container.append(ul)
+}
+
+export {
+  renderConfigurationHome
+}
@@ -0,0 +1,59 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import { renderConfigurationHome } from './home'
+import { renderConfigurationChannel } from './channel'
+
+/**
+ * Registers the pages used by channel owners to configure their chats,
+ * and adds a link in the Peertube left menu.
+ * @param clientOptions Peertube client options
+ */
+function registerConfiguration (clientOptions: RegisterClientOptions): void {
+  const { peertubeHelpers, registerClientRoute, registerHook } = clientOptions
+
+  // registerClientRoute comes with Peertube 4.3.0.
+  if (!registerClientRoute) {
+    console.warn('[peertube-plugin-livechat] registerClientRoute not available, no configuration pages.')
+    return
+  }
+
+  registerClientRoute({
+    route: 'livechat/configuration',
+    onMount: ({ rootEl }) => {
+      renderConfigurationHome(clientOptions, rootEl).then(() => {}, (err) => {
+        console.error('[peertube-plugin-livechat] Failed rendering the configuration page', err)
+      })
+    }
+  })
+
+  registerClientRoute({
+    route: 'livechat/configuration/channel',
+    onMount: ({ rootEl }) => {
+      const channelId = new URLSearchParams(window.location.search).get('channelId') ?? ''
+      renderConfigurationChannel(clientOptions, rootEl, channelId).then(() => {}, (err) => {
+        console.error('[peertube-plugin-livechat] Failed rendering the channel configuration page', err)
+      })
+    }
+  })
+
+  registerHook({
+    target: 'filter:left-menu.links.create.result',
+    handler: async (links: any) => {
+      if (!peertubeHelpers.isLoggedIn()) { return links }
+      if (!Array.isArray(links)) { return links }
+      const myLibraryLinks = links.find(l => l?.key === 'in-my-library')
+      if (!myLibraryLinks || !Array.isArray(myLibraryLinks.links)) { return links }
+      const label = await peertubeHelpers.translate('Chats')
+      myLibraryLinks.links.push({
+        label,
+        shortLabel: label,
+        path: '/p/livechat/configuration',
+        icon: ''
+      })
+      return links
+    }
+  })
+}
+
+export {
+  registerConfiguration
+}
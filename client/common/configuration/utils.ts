@@ -0,0 +1,293 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import { getBaseRoute } from '../../videowatch/uri'
+
+/**
+ * Returns the url of the channel configuration API.
+ * @param clientOptions Peertube client options
+ * @param channelId channel id
+ * @param path optional sub path (without leading slash)
+ * @returns the API url
+ */
+function getChannelConfigurationApiUrl (
+  clientOptions: RegisterClientOptions,
+  channelId: number | string,
+  path?: string
+): string {
+  let url = getBaseRoute(clientOptions) + '/api/configuration/channel/' + encodeURIComponent(channelId)
+  if (path) {
+    url += '/' + path
+  }
+  return url
+}
+
+/**
+ * Calls a plugin API, with the current user authentication header.
+ * Throws an error if the response is not ok.
+ * @param clientOptions Peertube client options
+ * @param url API url
+ * @param method HTTP method
+ * @param body optional body, will be JSON encoded
+ * @returns the JSON decoded response, undefined if the response has no content (HTTP 204)
+ */
+async function callApi<T> (
+  clientOptions: RegisterClientOptions,
+  url: string,
+  method: 'GET' | 'POST' | 'DELETE' = 'GET',
+  body?: any
+): Promise<T | undefined> {
+  const headers: { [key: string]: string } = Object.assign(
+    {},
+    clientOptions.peertubeHelpers.getAuthHeader() ?? {}
+  )
+  if (body !== undefined) {
+    headers['content-type'] = 'application/json;charset=UTF-8'
+  }
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  })
+  if (!response.ok) {
+    throw new Error(`API call failed with status ${response.status}`)
+  }
+  if (response.status === 204) {
+    return undefined
+  }
+  return response.json()
+}
+
+/**
+ * Same as callApi, for APIs that must return some content.
+ * Throws an error if the response is not ok, or has no content.
+ * @param clientOptions Peertube client options
+ * @param url API url
+ * @param method HTTP method
+ * @param body optional body, will be JSON encoded
+ * @returns the JSON decoded response
+ */
+async function callApiWithContent<T> (
+  clientOptions: RegisterClientOptions,
+  url: string,
+  method: 'GET' | 'POST' | 'DELETE' = 'GET',
+  body?: any
+): Promise<T> {
+  const result = await callApi<T>(clientOptions, url, method, body)
+  if (result === undefined) {
+    throw new Error('API call returned no content')
+  }
+  return result
+}
+
+/**
+ * Appends a new section to the configuration page.
+ * @param parent parent element
+ * @param title section title
+ * @param description optional section description
+ * @returns the section element
+ */
+function renderSection (parent: HTMLElement, title: string, description?: string): HTMLElement {
+  const section = document.createElement('div')
+  section.classList.add('peertube-plugin-livechat-configuration-section')
+  const h2 = document.createElement('h2')
+  h2.textContent = title
+  section.append(h2)
+  if (description) {
+    const p = document.createElement('p')
+    p.classList.add('peertube-plugin-livechat-configuration-description')
+    p.textContent = description
+    section.append(p)
+  }
+  parent.append(section)
+  return section
+}
+
+/**
+ * Appends a select field to a form.
+ * @param parent parent element
+ * @param name field name
+ * @param label field label
+ * @param choices available values
+ * @param value current value
+ * @returns the select element
+ */
+function renderSelectField (
+  parent: HTMLElement,
+  name: string,
+  label: string,
+  choices: Array<{ value: string, label: string }>,
+  value: string
+): HTMLSelectElement {
+  const div = document.createElement('div')
+  div.classList.add('form-group')
+  const labelEl = document.createElement('label')
+  labelEl.textContent = label
+  labelEl.setAttribute('for', 'peertube-plugin-livechat-' + name)
+  div.append(labelEl)
+  const select = document.createElement('select')
+  select.classList.add('form-control')
+  select.setAttribute('id', 'peertube-plugin-livechat-' + name)
+  select.setAttribute('name', name)
+  for (const choice of choices) {
+    const option = document.createElement('option')
+    option.value = choice.value
+    option.textContent = choice.label
+    if (choice.value === value) {
+      option.selected = true
+    }
+    select.append(option)
+  }
+  div.append(select)
+  parent.append(div)
+  return select
+}
+
+/**
+ * Appends a text input field to a form.
+ * @param parent parent element
+ * @param name field name
+ * @param label field label
+ * @param value current value
+ * @param type input type
+ * @returns the input element
+ */
+function renderInputField (
+  parent: HTMLElement,
+  name: string,
+  label: string,
+  value: string,
+  type: 'text' | 'number' | 'datetime-local' | 'url' | 'file' = 'text'
+): HTMLInputElement {
+  const div = document.createElement('div')
+  div.classList.add('form-group')
+  const labelEl = document.createElement('label')
+  labelEl.textContent = label
+  labelEl.setAttribute('for', 'peertube-plugin-livechat-' + name)
+  div.append(labelEl)
+  const input = document.createElement('input')
+  input.classList.add('form-control')
+  input.setAttribute('id', 'peertube-plugin-livechat-' + name)
+  input.setAttribute('name', name)
+  input.setAttribute('type', type)
+  input.value = value
+  div.append(input)
+  parent.append(div)
+  return input
+}
+
+/**
+ * Appends a textarea field to a form.
+ * @param parent parent element
+ * @param name field name
+ * @param label field label
+ * @param value current value
+ * @param description optional help text, displayed under the field
+ * @returns the textarea element
+ */
+function renderTextareaField (
+  parent: HTMLElement,
+  name: string,
+  label: string,
+  value: string,
+  description?: string
+): HTMLTextAreaElement {
+  const div = document.createElement('div')
+  div.classList.add('form-group')
+  const labelEl = document.createElement('label')
+  labelEl.textContent = label
+  labelEl.setAttribute('for', 'peertube-plugin-livechat-' + name)
+  div.append(labelEl)
+  const textarea = document.createElement('textarea')
+  textarea.classList.add('form-control')
+  textarea.setAttribute('id', 'peertube-plugin-livechat-' + name)
+  textarea.setAttribute('name', name)
+  textarea.setAttribute('rows', '5')
+  textarea.value = value
+  div.append(textarea)
+  if (description) {
+    const help = document.createElement('div')
+    help.classList.add('form-group-description')
+    help.textContent = description
+    div.append(help)
+  }
+  parent.append(div)
+  return textarea
+}
+
+/**
+ * Appends a button.
+ * @param parent parent element
+ * @param label button label
+ * @param callback function to call on click
+ * @param secondary if true, the button is a secondary button
+ * @returns the button element
+ */
+function renderButton (
+  parent: HTMLElement,
+  label: string,
+  callback: () => void | Promise<void>,
+  secondary: boolean = false
+): HTMLButtonElement {
+  const button = document.createElement('button')
+  button.classList.add('btn', secondary ? 'btn-outline-secondary' : 'orange-button')
+  button.setAttribute('type', 'button')
+  button.textContent = label
+  button.onclick = () => {
+    Promise.resolve(callback()).then(() => {}, (err) => console.error('[peertube-plugin-livechat] ', err))
+  }
+  parent.append(button)
+  return button
+}
+
+/**
+ * Appends a table.
+ * @param parent parent element
+ * @param headers column titles
+ * @returns the table element
+ */
+function renderTable (parent: HTMLElement, headers: string[]): HTMLTableElement {
+  const table = document.createElement('table')
+  table.classList.add('peertube-plugin-livechat-configuration-table')
+  const tr = document.createElement('tr')
+  for (const header of headers) {
+    const th = document.createElement('th')
+    th.textContent = header
+    tr.append(th)
+  }
+  table.append(tr)
+  parent.append(table)
+  return table
+}
+
+/**
+ * Appends a line to a table.
+ * @param table the table
+ * @param cells cells content (string or DOM elements)
+ * @returns the line element
+ */
+function renderTableLine (table: HTMLTableElement, cells: Array<string | HTMLElement>): HTMLTableRowElement {
+  const tr = document.createElement('tr')
+  for (const cell of cells) {
+    const td = document.createElement('td')
+    if (typeof cell === 'string') {
+      td.textContent = cell
+    } else {
+      td.append(cell)
+    }
+    tr.append(td)
+  }
+  table.append(tr)
+  return tr
+}
+
+export {
+  getChannelConfigurationApiUrl,
+  callApi,
+  callApiWithContent,
+  renderSection,
+  renderSelectField,
+  renderInputField,
+  renderTextareaField,
+  renderButton,
+  renderTable,
+  renderTableLine
+}
@@ -0,0 +1,86 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { ChatExportFormat } from 'shared/lib/types'
+
+const formats: Array<{ format: ChatExportFormat, label: string }> = [
+  { format: 'json', label: 'JSON' },
+  { format: 'txt', label: 'Text' },
+  { format: 'vtt', label: 'WebVTT' },
+  { format: 'srt', label: 'SRT' }
+]
+
+/**
+ * Downloads the chat export for a room.
+ * We can't use a simple link, as the API needs the authentication header.
+ * @param peertubeHelpers Peertube helpers
+ * @param baseRoute the plugin router base route
+ * @param localpart room localpart (video uuid, or channel.<id>)
+ * @param format export format
+ */
+async function downloadChatExport (
+  peertubeHelpers: RegisterClientOptions['peertubeHelpers'],
+  baseRoute: string,
+  localpart: string,
+  format: ChatExportFormat
+): Promise<void> {
+  const response = await fetch(
+    baseRoute + '/api/configuration/room/' + encodeURIComponent(localpart) + '/export?format=' + format,
+    {
+      method: 'GET',
+      headers: peertubeHelpers.getAuthHeader()
+    }
+  )
+  if (!response.ok) {
+    throw new Error('Chat export failed with status ' + response.status.toString())
+  }
+  const blob = await response.blob()
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = 'chat-' + localpart + '.' + format
+  document.body.append(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Appends links to export the chat of a room, in all available formats.
+ * @param parent parent element
+ * @param peertubeHelpers Peertube helpers
+ * @param baseRoute the plugin router base route
+ * @param localpart room localpart (video uuid, or channel.<id>)
+ * @param label optional label to display before the links
+ */
+function renderChatExportLinks (
+  parent: HTMLElement,
+  peertubeHelpers: RegisterClientOptions['peertubeHelpers'],
+  baseRoute: string,
+  localpart: string,
+  label?: string
+): void {
+  const container = document.createElement('span')
+  container.classList.add('peertube-plugin-livechat-chat-export')
+  if (label) {
+    container.append(label + ' ')
+  }
+  formats.forEach(({ format, label }, i) => {
+    if (i > 0) { container.append(' | ') }
+    const a = document.createElement('a')
+    a.textContent = label
+    a.href = '#'
+    a.onclick = (ev) => {
+      ev.preventDefault()
+      downloadChatExport(peertubeHelpers, baseRoute, localpart, format).then(() => {}, (err) => {
+        console.error('[peertube-plugin-livechat] ', err)
+        peertubeHelpers.notifier.error(err.message ?? 'Error')
+      })
+    }
+    container.append(a)
+  })
+  parent.append(container)
+}
+
+export {
+  downloadChatExport,
+  renderChatExportLinks
+}
@@ -0,0 +1,61 @@
+import type { RegisterClientOptions } from '@peertube/peertube-types/client'
+import type { RoomStats } from 'shared/lib/types'
+
+/**
+ * Appends a summary of the room chat statistics.
+ * @param parent parent element
+ * @param peertubeHelpers Peertube helpers
+ * @param stats room statistics (if undefined, nothing is rendered)
+ */
+async function renderRoomStats (
+  parent: HTMLElement,
+  peertubeHelpers: RegisterClientOptions['peertubeHelpers'],
+  stats: RoomStats | undefined
+): Promise<void> {
+  if (!stats) { return }
+  const [
+    labelParticipants,
+    labelAnonymous,
+    labelMessages,
+    labelMessagesPerMinute,
+    labelPeakOccupants
+  ] = await Promise.all([
+    peertubeHelpers.translate('Participants'),
+    peertubeHelpers.translate('anonymous'),
+    peertubeHelpers.translate('Messages'),
+    peertubeHelpers.translate('Messages per minute (average / peak)'),
+    peertubeHelpers.translate('Peak of simultaneous occupants')
+  ])
+
+  const anonymousPercent = stats.participants > 0
+    ? Math.round(stats.anonymousParticipants * 100 / stats.participants)
+    : 0
+  const lines: Array<[string, string, string?]> = [
+    [labelParticipants, `${stats.participants} (${anonymousPercent}% ${labelAnonymous})`],
+    [labelMessages, stats.messages.toString()],
+    [labelMessagesPerMinute, `${stats.messagesPerMinute} / ${stats.peakMessagesPerMinute}`],
+    [
+      labelPeakOccupants,
+      stats.peakOccupants.toString(),
+      stats.peakOccupantsDate ? new Date(stats.peakOccupantsDate).toLocaleString() : undefined
+    ]
+  ]
+
+  const dl = document.createElement('dl')
+  dl.classList.add('peertube-plugin-livechat-room-stats')
+  for (const [label, value, title] of lines) {
+    const dt = document.createElement('dt')
+    dt.textContent = label
+    const dd = document.createElement('dd')
+    dd.textContent = value
+    if (title) {
+      dd.setAttribute('title', title)
+    }
+    dl.append(dt, dd)
+  }
+  parent.append(dl)
+}
+
+export {
+  renderRoomStats
+}
@@ -13,6 +13,12 @@ interface VideoWatchLoadedHookOptions {
   playlist?: any
 }
 
+interface VideoWatchPlayerLoadedHookOptions {
+  player: any
+  videojs: any
+  video: Video
+}
+
 function isAnonymousUser (registerOptions: RegisterClientOptions): boolean {
   return !registerOptions.peertubeHelpers.isLoggedIn()
 }
@@ -65,9 +71,31 @@ function guessIamIModerator (_registerOptions: RegisterClientOptions): boolean {
   }
 }
 
+/**
+ * Some settings can be overridden by the channel configuration.
+ * The backend adds the channel configuration options to the video pluginData.
+ * This function returns the settings to use for this video.
+ * @param settings instance settings
+ * @param video the video
+ * @returns effective settings
+ */
+function getVideoEffectiveSettings (settings: any, video: Video): any {
+  const channelOptions = video.pluginData?.['livechat-channel-configuration']
+  if (!channelOptions || (typeof channelOptions !== 'object')) {
+    return settings
+  }
+  const r = Object.assign({}, settings, channelOptions)
+  // chat-no-anonymous can only be enabled by the channel (see the backend getChannelEffectiveSettings)
+  r['chat-no-anonymous'] = !!settings['chat-no-anonymous'] || !!channelOptions['chat-no-anonymous']
+  return r
+}
+
 function register (registerOptions: RegisterClientOptions): void {
   const { registerHook, peertubeHelpers } = registerOptions
   let settings: any = {}
+  // Replay mode: the video is the replay of a live, we replay the chat in sync with the player.
+  let replay: boolean = false
+  let player: any
 
   async function insertChatDom (
     container: HTMLElement, video: Video, showOpenBlank: boolean, showShareUrlButton: boolean
@@ -86,7 +114,7 @@ function register (registerOptions: RegisterClientOptions): void {
         const labelClose = labels[2]
         const labelShareUrl = labels[3]
 
-        const iframeUri = getIframeUri(registerOptions, settings, video)
+        const iframeUri = getIframeUri(registerOptions, settings, video, { replay })
         if (!iframeUri) {
           return reject(new Error('No uri, cant display the buttons.'))
         }
@@ -168,7 +196,7 @@ function register (registerOptions: RegisterClientOptions): void {
     }
 
     logger.info(`Trying to load the chat for video ${video.uuid}.`)
-    const iframeUri = getIframeUri(registerOptions, settings, video)
+    const iframeUri = getIframeUri(registerOptions, settings, video, { replay })
     if (!iframeUri) {
       logger.error('Incorrect iframe uri')
       return false
@@ -195,6 +223,9 @@ function register (registerOptions: RegisterClientOptions): void {
     if (additionalStyles) {
       iframe.setAttribute('style', additionalStyles)
     }
+    if (replay) {
+      iframe.onload = () => sendReplayTime()
+    }
     container.append(iframe)
     container.setAttribute('peertube-plugin-livechat-state', 'open')
 
@@ -217,6 +248,23 @@ function register (registerOptions: RegisterClientOptions): void {
     hackStyles(false)
   }
 
+  /**
+   * In replay mode, sends the player current time to the chat iframe.
+   */
+  function sendReplayTime (): void {
+    if (!replay || !player) { return }
+    const iframe = document.querySelector('#peertube-plugin-livechat-container iframe')
+    if (!iframe) { return }
+    try {
+      (iframe as HTMLIFrameElement).contentWindow?.postMessage({
+        type: 'peertube-plugin-livechat-replay-time',
+        currentTime: player.currentTime()
+      }, window.location.origin)
+    } catch (err) {
+      logger.error(`Failed sending the replay time: '${err as string}'`)
+    }
+  }
+
   function initChat (video: Video): void {
     if (!video) {
       logger.error('No video provided')
@@ -240,20 +288,25 @@ function register (registerOptions: RegisterClientOptions): void {
     placeholder.append(container)
 
     peertubeHelpers.getSettings().then((s: any) => {
-      settings = s
+      settings = getVideoEffectiveSettings(s, video)
 
       logger.log('Checking if this video should have a chat...')
       if (settings['chat-no-anonymous'] === true && isAnonymousUser(registerOptions)) {
         logger.log('No chat for anonymous users')
         return
       }
-      if (!videoHasWebchat(s, video) && !videoHasRemoteWebchat(s, video)) {
-        logger.log('This video has no webchat')
-        return
+      replay = false
+      if (!videoHasWebchat(settings, video) && !videoHasRemoteWebchat(settings, video)) {
+        if (!video.pluginData?.['livechat-replay']) {
+          logger.log('This video has no webchat')
+          return
+        }
+        logger.log('This video has a chat replay')
+        replay = true
       }
 
       let showShareUrlButton: boolean = false
-      if (video.isLocal) { // No need for shareButton on remote chats.
+      if (video.isLocal && !replay) { // No need for shareButton on remote chats.
         const chatShareUrl = settings['chat-share-url'] ?? ''
         if (chatShareUrl === 'everyone') {
           showShareUrlButton = true
@@ -323,6 +376,15 @@ function register (registerOptions: RegisterClientOptions): void {
       initChat(video)
     }
   })
+
+  registerHook({
+    target: 'action:video-watch.player.loaded',
+    handler: ({ player: p }: VideoWatchPlayerLoadedHookOptions) => {
+      player = p
+      player?.on('timeupdate', () => sendReplayTime())
+      player?.on('seeked', () => sendReplayTime())
+    }
+  })
 }
 
 export {
@@ -3,6 +3,7 @@ import type { Video } from '@peertube/peertube-types'
 import { logger } from './logger'
 import { getIframeUri, getXMPPAddr, UriOptions } from './uri'
 import { isAutoColorsAvailable } from 'shared/lib/autocolors'
+import { OverlayAnimation, overlayAnimations, overlayLimits, getDefaultOverlayOptions } from 'shared/lib/overlay'
 
 interface ShareForm {
   shareString: HTMLInputElement
@@ -12,6 +13,15 @@ interface ShareForm {
   withscroll: HTMLInputElement
   transparent: HTMLInputElement
   readonlyOptions: HTMLElement
+  overlay: HTMLInputElement
+  overlayOptions: HTMLElement
+  overlayFadeOut: HTMLInputElement
+  overlayMaxMessages: HTMLInputElement
+  overlayFontSize: HTMLInputElement
+  overlayAvatars: HTMLInputElement
+  overlayHideSystemMessages: HTMLInputElement
+  overlayPolls: HTMLInputElement
+  overlayAnimation: HTMLSelectElement
   autoColors?: HTMLInputElement
   generateIframe: HTMLInputElement
   divTips: HTMLElement
@@ -38,7 +48,18 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
     labelOpen,
     labelAutocolors,
     labelGenerateIframe,
-    labelChatFor
+    labelChatFor,
+    labelOverlay,
+    labelOverlayFadeOut,
+    labelOverlayMaxMessages,
+    labelOverlayFontSize,
+    labelOverlayAvatars,
+    labelOverlayHideSystemMessages,
+    labelOverlayPolls,
+    labelOverlayAnimation,
+    labelOverlayAnimationNone,
+    labelOverlayAnimationFade,
+    labelOverlayAnimationSlide
   ] = await Promise.all([
     peertubeHelpers.translate('Share chat link'),
     peertubeHelpers.translate('Web'),
@@ -56,8 +77,24 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
     peertubeHelpers.translate('Open'),
     peertubeHelpers.translate('Use current theme colors'),
     peertubeHelpers.translate('Generate an iframe to embed the chat in a website'),
-    peertubeHelpers.translate('Chat for live stream:')
+    peertubeHelpers.translate('Chat for live stream:'),
+    peertubeHelpers.translate('Overlay mode (dedicated display for stream integration)'),
+    peertubeHelpers.translate('Hide messages after (in seconds, 0 to never hide them)'),
+    peertubeHelpers.translate('Maximum number of visible messages'),
+    peertubeHelpers.translate('Font size (in pixels)'),
+    peertubeHelpers.translate('Show avatars'),
+    peertubeHelpers.translate('Hide system messages'),
+    peertubeHelpers.translate('Show polls'),
+    peertubeHelpers.translate('Message animation'),
+    peertubeHelpers.translate('None'),
+    peertubeHelpers.translate('Fade in'),
+    peertubeHelpers.translate('Slide in')
   ])
+  const labelOverlayAnimations: {[key in OverlayAnimation]: string} = {
+    none: labelOverlayAnimationNone,
+    fade: labelOverlayAnimationFade,
+    slide: labelOverlayAnimationSlide
+  }
 
   const defaultUri = getIframeUri(registerOptions, settings, video)
   if (!defaultUri) {
@@ -151,6 +188,77 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
       transparentLabelEl.prepend(transparent)
       readonlyOptions.append(transparentLabelEl)
 
+      const overlay = document.createElement('input')
+      overlay.setAttribute('type', 'checkbox')
+      const overlayLabelEl = document.createElement('label')
+      overlayLabelEl.textContent = labelOverlay
+      overlayLabelEl.prepend(overlay)
+      readonlyOptions.append(overlayLabelEl)
+
+      const overlayOptions = document.createElement('div')
+      overlayOptions.classList.add('livechat-shareurl-web-options-overlay')
+      readonlyOptions.append(overlayOptions)
+
+      const createNumberInput = (label: string, limits: { min: number, max: number }): HTMLInputElement => {
+        const input = document.createElement('input')
+        input.setAttribute('type', 'number')
+        input.setAttribute('min', limits.min.toString())
+        input.setAttribute('max', limits.max.toString())
+        input.setAttribute('step', '1')
+        input.classList.add('form-control')
+        const labelEl = document.createElement('label')
+        labelEl.textContent = label
+        labelEl.append(input)
+        overlayOptions.append(labelEl)
+        return input
+      }
+      const overlayFadeOut = createNumberInput(labelOverlayFadeOut, overlayLimits.fadeOut)
+      const overlayMaxMessages = createNumberInput(labelOverlayMaxMessages, overlayLimits.maxMessages)
+      const overlayFontSize = createNumberInput(labelOverlayFontSize, overlayLimits.fontSize)
+
+      const overlayAvatars = document.createElement('input')
+      overlayAvatars.setAttribute('type', 'checkbox')
+      const overlayAvatarsLabelEl = document.createElement('label')
+      overlayAvatarsLabelEl.textContent = labelOverlayAvatars
+      overlayAvatarsLabelEl.prepend(overlayAvatars)
+      overlayOptions.append(overlayAvatarsLabelEl)
+
+      const overlayHideSystemMessages = document.createElement('input')
+      overlayHideSystemMessages.setAttribute('type', 'checkbox')
+      const overlayHideSystemMessagesLabelEl = document.createElement('label')
+      overlayHideSystemMessagesLabelEl.textContent = labelOverlayHideSystemMessages
+      overlayHideSystemMessagesLabelEl.prepend(overlayHideSystemMessages)
+      overlayOptions.append(overlayHideSystemMessagesLabelEl)
+
+      const overlayPolls = document.createElement('input')
+      overlayPolls.setAttribute('type', 'checkbox')
+      const overlayPollsLabelEl = document.createElement('label')
+      overlayPollsLabelEl.textContent = labelOverlayPolls
+      overlayPollsLabelEl.prepend(overlayPolls)
+      overlayOptions.append(overlayPollsLabelEl)
+
+      const overlayAnimation = document.createElement('select')
+      overlayAnimation.classList.add('form-control')
+      for (const animation of overlayAnimations) {
+        const option = document.createElement('option')
+        option.value = animation
+        option.textContent = labelOverlayAnimations[animation]
+        overlayAnimation.append(option)
+      }
+      const overlayAnimationLabelEl = document.createElement('label')
+      overlayAnimationLabelEl.textContent = labelOverlayAnimation
+      overlayAnimationLabelEl.append(overlayAnimation)
+      overlayOptions.append(overlayAnimationLabelEl)
+
+      const overlayDefaults = getDefaultOverlayOptions()
+      overlayFadeOut.value = overlayDefaults.fadeOut.toString()
+      overlayMaxMessages.value = overlayDefaults.maxMessages.toString()
+      overlayFontSize.value = overlayDefaults.fontSize.toString()
+      overlayAvatars.checked = overlayDefaults.avatars
+      overlayHideSystemMessages.checked = overlayDefaults.hideSystemMessages
+      overlayPolls.checked = overlayDefaults.polls
+      overlayAnimation.value = overlayDefaults.animation
+
       let autoColors
       if (isAutoColorsAvailable(settings['converse-theme'])) {
         const label = document.createElement('label')
@@ -188,6 +296,30 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
       transparent.onclick = () => {
         renderContent(container)
       }
+      overlay.onclick = () => {
+        renderContent(container)
+      }
+      overlayFadeOut.onchange = () => {
+        renderContent(container)
+      }
+      overlayMaxMessages.onchange = () => {
+        renderContent(container)
+      }
+      overlayFontSize.onchange = () => {
+        renderContent(container)
+      }
+      overlayAvatars.onclick = () => {
+        renderContent(container)
+      }
+      overlayHideSystemMessages.onclick = () => {
+        renderContent(container)
+      }
+      overlayPolls.onclick = () => {
+        renderContent(container)
+      }
+      overlayAnimation.onchange = () => {
+        renderContent(container)
+      }
       if (autoColors) {
         autoColors.onclick = () => {
           renderContent(container)
@@ -228,6 +360,15 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
         withscroll,
         transparent,
         readonlyOptions,
+        overlay,
+        overlayOptions,
+        overlayFadeOut,
+        overlayMaxMessages,
+        overlayFontSize,
+        overlayAvatars,
+        overlayHideSystemMessages,
+        overlayPolls,
+        overlayAnimation,
         autoColors,
         generateIframe,
         radioProtocolWeb,
@@ -264,14 +405,35 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
       if (form.transparent.checked) {
         uriOptions.transparent = true
       }
-      form.withscroll.disabled = false
+      if (form.overlay.checked) {
+        uriOptions.overlay = {
+          fadeOut: _readNumberInput(form.overlayFadeOut, overlayLimits.fadeOut),
+          maxMessages: _readNumberInput(form.overlayMaxMessages, overlayLimits.maxMessages),
+          fontSize: _readNumberInput(form.overlayFontSize, overlayLimits.fontSize),
+          avatars: form.overlayAvatars.checked,
+          hideSystemMessages: form.overlayHideSystemMessages.checked,
+          animation: form.overlayAnimation.value as OverlayAnimation,
+          polls: form.overlayPolls.checked
+        }
+      }
+      form.withscroll.disabled = form.overlay.checked
       form.transparent.disabled = false
+      form.overlay.disabled = false
       form.readonlyOptions.classList.remove('livechat-shareurl-web-options-readonly-disabled')
     } else {
       form.withscroll.disabled = true
       form.transparent.disabled = true
+      form.overlay.disabled = true
       form.readonlyOptions.classList.add('livechat-shareurl-web-options-readonly-disabled')
     }
+    if (form.readonly.checked && form.overlay.checked) {
+      form.overlayOptions.classList.remove('livechat-shareurl-web-options-overlay-disabled')
+    } else {
+      form.overlayOptions.classList.add('livechat-shareurl-web-options-overlay-disabled')
+    }
+    form.overlayOptions.querySelectorAll('input, select').forEach(el => {
+      (el as HTMLInputElement).disabled = !form?.readonly.checked || !form.overlay.checked
+    })
     let shareStringValue
     let shareStringOpen: string | undefined
     if (!form.radioProtocolXMPP?.checked) {
@@ -316,6 +478,14 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
       readonly: !!form.readonly.checked,
       withscroll: !!form.withscroll.checked,
       transparent: !!form.transparent.checked,
+      overlay: !!form.overlay.checked,
+      overlayFadeOut: form.overlayFadeOut.value,
+      overlayMaxMessages: form.overlayMaxMessages.value,
+      overlayFontSize: form.overlayFontSize.value,
+      overlayAvatars: !!form.overlayAvatars.checked,
+      overlayHideSystemMessages: !!form.overlayHideSystemMessages.checked,
+      overlayPolls: !!form.overlayPolls.checked,
+      overlayAnimation: form.overlayAnimation.value,
       autocolors: !!form.autoColors?.checked,
       generateIframe: !!form.generateIframe.checked,
       protocol: !form.radioProtocolWeb || form.radioProtocolWeb.checked ? 'web' : 'xmpp'
@@ -340,6 +510,21 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
       form.readonly.checked = !!v.readonly
       form.withscroll.checked = !!v.withscroll
       form.transparent.checked = !!v.transparent
+      if ('overlay' in v) {
+        // overlay options were added later, they can be missing.
+        form.overlay.checked = !!v.overlay
+        form.overlayFadeOut.value = v.overlayFadeOut ?? form.overlayFadeOut.value
+        form.overlayMaxMessages.value = v.overlayMaxMessages ?? form.overlayMaxMessages.value
+        form.overlayFontSize.value = v.overlayFontSize ?? form.overlayFontSize.value
+        form.overlayAvatars.checked = !!v.overlayAvatars
+        form.overlayHideSystemMessages.checked = !!v.overlayHideSystemMessages
+        if ('overlayPolls' in v) {
+          form.overlayPolls.checked = !!v.overlayPolls
+        }
+        if (overlayAnimations.includes(v.overlayAnimation)) {
+          form.overlayAnimation.value = v.overlayAnimation
+        }
+      }
       if (form.autoColors) {
         form.autoColors.checked = !!v.autocolors
       }
@@ -392,6 +577,20 @@ async function shareChatUrl (registerOptions: RegisterClientOptions, settings: a
   }, 1000)
 }
 
+/**
+ * Reads a number input value, and forces it to be in the allowed limits.
+ * @param input the input
+ * @param limits allowed limits
+ * @returns the value
+ */
+function _readNumberInput (input: HTMLInputElement, limits: { min: number, max: number }): number {
+  const n = parseInt(input.value)
+  if (isNaN(n)) {
+    return limits.min
+  }
+  return Math.min(Math.max(n, limits.min), limits.max)
+}
+
 export {
   shareChatUrl
 }
@@ -1,6 +1,7 @@
 import type { RegisterClientOptions } from '@peertube/peertube-types/client'
 import type { Video } from '@peertube/peertube-types'
 import { AutoColors, isAutoColorsAvailable } from 'shared/lib/autocolors'
+import { OverlayOptions, overlayOptionsToQuery } from 'shared/lib/overlay'
 import { logger } from './logger'
 import { computeAutoColors } from './colors'
 
@@ -9,6 +10,8 @@ interface UriOptions {
   transparent?: boolean
   ignoreAutoColors?: boolean
   permanent?: boolean
+  replay?: boolean
+  overlay?: OverlayOptions
 }
 
 function getBaseRoute ({ peertubeHelpers }: RegisterClientOptions, permanent: boolean = false): string {
@@ -62,6 +65,18 @@ function getIframeUri (
     iFrameUri.searchParams.set('_transparent', 'true')
   }
 
+  if (uriOptions.replay) {
+    iFrameUri.searchParams.set('_replay', 'true')
+  }
+
+  if (uriOptions.overlay) {
+    iFrameUri.searchParams.set('_overlay', 'true')
+    const overlayQuery = overlayOptionsToQuery(uriOptions.overlay)
+    for (const p in overlayQuery) {
+      iFrameUri.searchParams.set(p, overlayQuery[p])
+    }
+  }
+
   iframeUriStr = iFrameUri.href
   return iframeUriStr
 }
@@ -10,6 +10,12 @@ import {
 } from './lib/converse-params'
 import { getLocalAuthentInfos } from './lib/auth'
 import { randomNick } from './lib/nick'
+import { initReplay } from './lib/replay'
+import { initOverlay } from './lib/overlay'
+import { initSlowMode } from './lib/slow-mode'
+import { initPolls } from './lib/polls'
+import { initPinnedMessage } from './lib/pinned-message'
+import { initCustomEmojis } from './lib/emojis'
 
 declare global {
   interface Window {
@@ -18,6 +24,7 @@ declare global {
       plugins: {
         add: (name: string, plugin: any) => void
       }
+      env: any
     }
     initConverse: (args: InitConverseParams) => Promise<void>
   }
@@ -38,13 +45,21 @@ window.initConverse = async function initConverse (initConverseParams: InitConve
     remoteAuthenticatedXMPPServer,
     authenticationUrl,
     autoViewerMode,
-    forceReadonly
+    forceReadonly,
+    forbidAnonymous
   } = initConverseParams
 
   const converse = window.converse
 
   const isInIframe = inIframe()
   initDom(initConverseParams, isInIframe)
+
+  if (initConverseParams.replayUrl) {
+    // Replay mode: no need to connect to the XMPP server.
+    await initReplay(initConverseParams, isInIframe)
+    return
+  }
+
   const params = defaultConverseParams(initConverseParams, isInIframe)
 
   let isAuthenticated: boolean = false
@@ -66,6 +81,10 @@ window.initConverse = async function initConverse (initConverseParams: InitConve
       throw new Error('Remote server does not allow remote connection')
     }
   } else {
+    if (forbidAnonymous) {
+      // Note: this is also enforced by Prosody (mod_muc_peertubelivechat_channels).
+      throw new Error('This chat is only available for authenticated users')
+    }
     if (!isRemoteChat) {
       localRoomAnonymousParams(initConverseParams, params)
     } else if (remoteAnonymousXMPPServer) {
@@ -166,6 +185,15 @@ window.initConverse = async function initConverse (initConverseParams: InitConve
     //   })
     // }
 
+    if (!forceReadonly) {
+      initSlowMode()
+    }
+
+    initOverlay(initConverseParams)
+    initPolls(initConverseParams)
+    initPinnedMessage(initConverseParams)
+    initCustomEmojis(initConverseParams, params)
+
     converse.initialize(params)
   } catch (error) {
     console.error('Failed initializing converseJS', error)
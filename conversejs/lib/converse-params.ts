@@ -72,7 +72,16 @@ function defaultConverseParams (
     persistent_store: 'sessionStorage',
     show_images_inline: false, // for security reason, and to avoid bugs when image is larger that iframe
     render_media: false, // for security reason, and to avoid bugs when image is larger that iframe
-    whitelisted_plugins: ['livechatWindowTitlePlugin', 'livechatViewerModePlugin', 'livechatDisconnectOnUnloadPlugin'],
+    whitelisted_plugins: [
+      'livechatWindowTitlePlugin',
+      'livechatViewerModePlugin',
+      'livechatDisconnectOnUnloadPlugin',
+      'livechatOverlayPlugin',
+      'livechatSlowModePlugin',
+      'livechatPollsPlugin',
+      'livechatPinnedMessagePlugin',
+      'livechatCustomEmojisPlugin'
+    ],
     show_retraction_warning: false, // No need to use this warning (except if we open to external clients?)
     muc_show_info_messages: mucShowInfoMessages,
     send_chat_state_notifications: false // don't send this for performance reason
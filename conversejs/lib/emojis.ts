@@ -0,0 +1,92 @@
+import type { InitConverseParams } from './types'
+import type { CustomEmojiDefinition } from 'shared/lib/types'
+
+/**
+ * Custom emojis: channel owners can define custom emojis, available with their short name (:myemote:).
+ * They are added in the ConverseJS emojis list (custom category), so they are available in the emoji picker,
+ * and rendered in messages.
+ * @param initConverseParams parameters
+ * @param params ConverseJS parameters
+ */
+function initCustomEmojis ({ customEmojis }: InitConverseParams, params: any): void {
+  if (!customEmojis?.length) { return }
+
+  // Same as ConverseJS default categories, but using our first emoji as custom category icon.
+  params.emoji_categories = {
+    smileys: ':grinning:',
+    people: ':thumbsup:',
+    activity: ':soccer:',
+    travel: ':motorcycle:',
+    objects: ':bomb:',
+    nature: ':rainbow:',
+    food: ':hotdog:',
+    symbols: ':musical_note:',
+    flags: ':flag_ac:',
+    custom: customEmojis[0].sn
+  }
+
+  window.converse.plugins.add('livechatCustomEmojisPlugin', {
+    dependencies: ['converse-emoji'],
+    initialize: function () {
+      const _converse = this._converse
+      _converse.api.listen.on('loadEmojis', (_context: any, json: any) => {
+        // Replacing ConverseJS own custom emojis.
+        json.custom = {}
+        for (const emoji of customEmojis) {
+          json.custom[emoji.sn] = {
+            sn: emoji.sn,
+            url: emoji.url,
+            c: 'custom'
+          }
+        }
+        return json
+      })
+    }
+  })
+}
+
+/**
+ * Renders a text, replacing custom emojis short names by images.
+ * Used by renderers that don't use ConverseJS (overlay, replay).
+ * @param text the text
+ * @param customEmojis custom emojis
+ * @returns text and image nodes
+ */
+function renderTextWithCustomEmojis (
+  text: string,
+  customEmojis: CustomEmojiDefinition[] | undefined
+): Array<string | HTMLElement> {
+  if (!customEmojis?.length) { return [text] }
+  const result: Array<string | HTMLElement> = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  const regexp = /:[a-zA-Z0-9_-]{2,32}:/g
+  while ((match = regexp.exec(text)) !== null) {
+    const sn = match[0]
+    const emoji = customEmojis.find(e => e.sn === sn)
+    if (!emoji) {
+      // The closing colon could be the beginning of another short name.
+      regexp.lastIndex = match.index + sn.length - 1
+      continue
+    }
+    if (match.index > lastIndex) {
+      result.push(text.substring(lastIndex, match.index))
+    }
+    const img = document.createElement('img')
+    img.classList.add('emoji', 'livechat-custom-emoji')
+    img.setAttribute('src', emoji.url)
+    img.setAttribute('alt', sn)
+    img.setAttribute('title', sn)
+    result.push(img)
+    lastIndex = match.index + sn.length
+  }
+  if (lastIndex < text.length) {
+    result.push(text.substring(lastIndex))
+  }
+  return result
+}
+
+export {
+  initCustomEmojis,
+  renderTextWithCustomEmojis
+}
@@ -0,0 +1,136 @@
+import type { InitConverseParams } from './types'
+import type { OverlayOptions } from 'shared/lib/overlay'
+import type { CustomEmojiDefinition } from 'shared/lib/types'
+import { renderTextWithCustomEmojis } from './emojis'
+
+/**
+ * Overlay mode: messages are rendered by a dedicated renderer, instead of the ConverseJS layout.
+ * ConverseJS is still used to connect to the room, but its UI is hidden.
+ * This is meant to be used as a browser source in OBS (or similar softwares).
+ * @param initConverseParams parameters
+ */
+function initOverlay ({ overlay, customEmojis }: InitConverseParams): void {
+  if (!overlay) { return }
+  const body = document.querySelector('body')
+  if (!body) { return }
+  body.classList.add('livechat-overlay-mode')
+  body.classList.add('livechat-overlay-animation-' + overlay.animation)
+  body.style.setProperty('--livechat-overlay-font-size', overlay.fontSize.toString() + 'px')
+
+  const container = document.createElement('div')
+  container.classList.add('livechat-overlay')
+  const list = document.createElement('ul')
+  container.append(list)
+  body.append(container)
+
+  window.converse.plugins.add('livechatOverlayPlugin', {
+    dependencies: ['converse-muc'],
+    initialize: function () {
+      const _converse = this._converse
+      _converse.api.listen.on('message', (data: any) => {
+        try {
+          if (data?.attrs?.type !== 'groupchat') { return }
+          _renderMessage(overlay, list, data.attrs, data.chatbox, customEmojis)
+        } catch (err) {
+          console.error('[livechatOverlayPlugin] Failed rendering a message', err)
+        }
+      })
+    }
+  })
+}
+
+function _renderMessage (
+  overlay: OverlayOptions,
+  list: HTMLElement,
+  attrs: any,
+  chatbox: any,
+  customEmojis: CustomEmojiDefinition[]
+): void {
+  if (attrs.retracted || attrs.moderated) {
+    // Messages removed by moderators must disappear from the overlay.
+    const retractedId = attrs.retracted_id ?? attrs.moderated_id
+    if (retractedId) {
+      list.querySelector(`li[data-id="${CSS.escape(retractedId as string)}"]`)?.remove()
+    }
+    return
+  }
+  if (!attrs.body || typeof attrs.body !== 'string') { return }
+
+  // Messages sent by the room itself (without nickname) are system messages.
+  const isSystemMessage = !attrs.nick
+  if (isSystemMessage && overlay.hideSystemMessages) { return }
+
+  const messageTime = attrs.time ? new Date(attrs.time as string).getTime() : Date.now()
+  const age = (Date.now() - messageTime) / 1000
+  if (overlay.fadeOut > 0 && age >= overlay.fadeOut) {
+    // History messages that should already be hidden.
+    return
+  }
+
+  if (attrs.replace_id) {
+    // Corrected message: updating the existing one.
+    const selector = `li[data-id="${CSS.escape(attrs.replace_id as string)}"] .livechat-overlay-body`
+    const existing = list.querySelector(selector)
+    if (existing) {
+      existing.innerHTML = ''
+      existing.append(...renderTextWithCustomEmojis(attrs.body as string, customEmojis))
+      return
+    }
+  }
+
+  const li = document.createElement('li')
+  li.classList.add('livechat-overlay-message')
+  if (attrs.msgid) {
+    li.setAttribute('data-id', attrs.msgid as string)
+  }
+  if (isSystemMessage) {
+    li.classList.add('livechat-overlay-system')
+  } else {
+    if (overlay.avatars) {
+      li.append(_renderAvatar(attrs.nick as string, chatbox))
+    }
+    const nick = document.createElement('span')
+    nick.classList.add('livechat-overlay-nick')
+    nick.textContent = attrs.nick
+    li.append(nick, ' ')
+  }
+  const body = document.createElement('span')
+  body.classList.add('livechat-overlay-body')
+  body.append(...renderTextWithCustomEmojis(attrs.body as string, customEmojis))
+  li.append(body)
+  list.append(li)
+
+  while (list.children.length > overlay.maxMessages) {
+    list.firstElementChild?.remove()
+  }
+
+  if (overlay.fadeOut > 0) {
+    setTimeout(() => {
+      li.classList.add('livechat-overlay-hidden')
+      // waiting for the CSS transition to end before removing the message.
+      setTimeout(() => li.remove(), 1000)
+    }, (overlay.fadeOut - age) * 1000)
+  }
+}
+
+function _renderAvatar (nick: string, chatbox: any): HTMLElement {
+  const vcard = chatbox?.occupants?.findOccupant?.({ nick })?.vcard
+  const image = vcard?.get?.('image')
+  if (image) {
+    const img = document.createElement('img')
+    img.classList.add('livechat-overlay-avatar')
+    const imageType: string = vcard.get('image_type') ?? 'image/png'
+    img.setAttribute('src', 'data:' + imageType + ';base64,' + (image as string))
+    img.setAttribute('alt', '')
+    return img
+  }
+  // No avatar: using the first letter of the nickname.
+  const span = document.createElement('span')
+  span.classList.add('livechat-overlay-avatar')
+  span.textContent = nick.substring(0, 1).toUpperCase()
+  return span
+}
+
+export {
+  initOverlay
+}
@@ -0,0 +1,188 @@
+import type { InitConverseParams } from './types'
+import { sendRoomCommand, isSentByRoom } from './utils'
+
+const xmlnsPinned = 'urn:peertube-plugin-livechat:pinned'
+
+interface PinnedMessage {
+  text: string
+  by: string
+  date: number // unix timestamp (seconds)
+}
+
+/**
+ * Pinned message: the Prosody module mod_muc_peertubelivechat_pinned_message sends the pinned message
+ * in groupchat messages (see its README for the stanza format).
+ * This plugin displays it as a banner on top of the chat (also in readonly and overlay modes),
+ * and adds a form so that room owners and admins can change it.
+ * @param initConverseParams parameters
+ */
+function initPinnedMessage ({ overlay, forceReadonly }: InitConverseParams): void {
+  const canEdit = !overlay && !forceReadonly
+
+  window.converse.plugins.add('livechatPinnedMessagePlugin', {
+    dependencies: ['converse-muc', 'converse-muc-views'],
+    initialize: function () {
+      const _converse = this._converse
+      const pinnedMessages = new Map<string, PinnedMessage | null>() // by room jid
+
+      function isRoomAdmin (model: any): boolean {
+        const affiliation = model?.getOwnAffiliation?.()
+        return affiliation === 'owner' || affiliation === 'admin'
+      }
+
+      function getContainer (jid: string): HTMLElement | null {
+        if (overlay) {
+          return document.querySelector('.livechat-overlay')
+        }
+        const view = _converse.chatboxviews?.get(jid)
+        return view?.querySelector?.('converse-muc-chatarea') ?? null
+      }
+
+      function render (jid: string): void {
+        const container = getContainer(jid)
+        const pinned = pinnedMessages.get(jid)
+        let el: HTMLElement | null = container?.querySelector(':scope > .livechat-pinned-message') ?? null
+        if (!container || !pinned) {
+          el?.remove()
+          return
+        }
+        if (!el) {
+          el = document.createElement('div')
+          el.classList.add('livechat-pinned-message')
+          container.prepend(el)
+        }
+        el.innerHTML = ''
+        if (pinned.by) {
+          el.setAttribute('title', 'Pinned by ' + pinned.by)
+        }
+
+        const text = document.createElement('div')
+        text.classList.add('livechat-pinned-message-text')
+        text.append(..._renderText(pinned.text))
+        el.append(text)
+
+        if (canEdit && isRoomAdmin(_converse.chatboxes?.get(jid))) {
+          const unpin = document.createElement('button')
+          unpin.classList.add('livechat-pinned-message-unpin')
+          unpin.setAttribute('type', 'button')
+          unpin.setAttribute('title', 'Unpin')
+          unpin.textContent = '×'
+          unpin.onclick = () => sendRoomCommand(_converse, jid, '/unpin')
+          el.append(unpin)
+        }
+      }
+
+      function renderPinForm (model: any): void {
+        const jid: string = model.get('jid')
+        const view = _converse.chatboxviews?.get(jid)
+        const bottomPanel: HTMLElement | null = view?.querySelector?.('converse-muc-bottom-panel') ?? null
+        if (!bottomPanel) { return }
+
+        let el: HTMLElement | null = bottomPanel.querySelector('.livechat-pinned-message-form')
+        if (!isRoomAdmin(model)) {
+          el?.remove()
+          return
+        }
+        if (el) { return }
+
+        el = document.createElement('details')
+        el.classList.add('livechat-pinned-message-form')
+        const summary = document.createElement('summary')
+        summary.textContent = 'Pin a message'
+        el.append(summary)
+
+        const form = document.createElement('form')
+        const textarea = document.createElement('textarea')
+        textarea.setAttribute('placeholder', 'Message to pin. Links: [label](https://example.com)')
+        textarea.setAttribute('rows', '3')
+        textarea.setAttribute('maxlength', '1000')
+        textarea.required = true
+        const submit = document.createElement('button')
+        submit.setAttribute('type', 'submit')
+        submit.classList.add('btn', 'btn-primary')
+        submit.textContent = 'Pin'
+        form.append(textarea, submit)
+        form.onsubmit = (ev) => {
+          ev.preventDefault()
+          const text = textarea.value.trim()
+          if (text === '') { return }
+          sendRoomCommand(_converse, jid, '/pin ' + text)
+          textarea.value = ''
+          el?.removeAttribute('open')
+        }
+        el.append(form)
+        bottomPanel.prepend(el)
+      }
+
+      _converse.api.listen.on('message', (data: any) => {
+        const pinnedEl = data?.stanza?.getElementsByTagNameNS?.(xmlnsPinned, 'pinned')?.[0]
+        const jid = data?.chatbox?.get?.('jid')
+        if (!pinnedEl || !jid) { return }
+        if (!isSentByRoom(pinnedEl, jid)) {
+          // Occupants can't change the pinned message by themselves.
+          console.warn('[livechatPinnedMessagePlugin] Ignoring a pinned message that was not sent by the room.')
+          return
+        }
+        const text = pinnedEl.textContent ?? ''
+        pinnedMessages.set(jid, text === ''
+          ? null
+          : {
+              text,
+              by: pinnedEl.getAttribute('by') ?? '',
+              date: parseInt(pinnedEl.getAttribute('date') ?? '0') || 0
+            }
+        )
+        render(jid)
+      })
+
+      _converse.api.listen.on('chatRoomViewInitialized', (view: any) => {
+        const model = view?.model
+        if (!model) { return }
+        render(model.get('jid'))
+        if (canEdit) {
+          renderPinForm(model)
+        }
+      })
+
+      if (canEdit) {
+        _converse.api.listen.on('chatRoomInitialized', (model: any) => {
+          // Affiliations can change while in the room.
+          model.occupants?.on('change:affiliation', () => {
+            renderPinForm(model)
+            render(model.get('jid'))
+          })
+        })
+      }
+    }
+  })
+}
+
+/**
+ * Renders the pinned text. Markdown links with http(s) urls are converted to links, everything else is text.
+ */
+function _renderText (text: string): Array<string | HTMLElement> {
+  const result: Array<string | HTMLElement> = []
+  const linkRegexp = /\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = linkRegexp.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      result.push(text.substring(lastIndex, match.index))
+    }
+    const a = document.createElement('a')
+    a.textContent = match[1]
+    a.href = match[2]
+    a.target = '_blank'
+    a.rel = 'noopener noreferrer'
+    result.push(a)
+    lastIndex = match.index + match[0].length
+  }
+  if (lastIndex < text.length) {
+    result.push(text.substring(lastIndex))
+  }
+  return result
+}
+
+export {
+  initPinnedMessage
+}
@@ -0,0 +1,262 @@
+import type { InitConverseParams } from './types'
+import { sendRoomCommand, isSentByRoom } from './utils'
+
+const xmlnsPoll = 'urn:peertube-plugin-livechat:poll'
+
+interface PollChoice {
+  id: string
+  label: string
+  votes: number
+}
+
+interface PollState {
+  id: string
+  question: string
+  choices: PollChoice[]
+  votes: number
+  end: number // unix timestamp (seconds)
+  over: boolean
+  version: number
+}
+
+// Number of seconds during which the results of a finished poll remain visible.
+const resultsDisplayDuration = 60
+
+/**
+ * Polls: the Prosody module mod_muc_peertubelivechat_polls sends the poll state in groupchat messages
+ * (see its README for the stanza format).
+ * This plugin displays the running poll (with vote buttons) and its results,
+ * and adds a form so that moderators can create polls.
+ * In overlay mode, polls are displayed above the messages, if the overlay polls option is enabled.
+ * @param initConverseParams parameters
+ */
+function initPolls ({ overlay, forceReadonly }: InitConverseParams): void {
+  if (overlay && !overlay.polls) { return }
+  const canVote = !overlay && !forceReadonly
+
+  window.converse.plugins.add('livechatPollsPlugin', {
+    dependencies: ['converse-muc', 'converse-muc-views'],
+    initialize: function () {
+      const _converse = this._converse
+      const polls = new Map<string, PollState>() // by room jid
+      const ownVotes = new Map<string, string>() // poll id => voted choice id
+      const timers = new Map<string, number>()
+
+      function getContainer (jid: string): HTMLElement | null {
+        if (overlay) {
+          return document.querySelector('.livechat-overlay')
+        }
+        const view = _converse.chatboxviews?.get(jid)
+        return view?.querySelector?.('converse-muc-chatarea') ?? null
+      }
+
+      function clearTimer (jid: string): void {
+        const timer = timers.get(jid)
+        if (timer !== undefined) {
+          window.clearInterval(timer)
+          timers.delete(jid)
+        }
+      }
+
+      function render (jid: string): void {
+        const container = getContainer(jid)
+        const poll = polls.get(jid)
+        let el: HTMLElement | null = container?.querySelector(':scope > .livechat-poll') ?? null
+        const now = Date.now() / 1000
+        if (!container || !poll || (poll.over && now - poll.end > resultsDisplayDuration)) {
+          el?.remove()
+          clearTimer(jid)
+          return
+        }
+        if (!el) {
+          el = document.createElement('div')
+          el.classList.add('livechat-poll')
+          container.prepend(el)
+        }
+        el.classList.toggle('livechat-poll-over', poll.over)
+        el.innerHTML = ''
+
+        const question = document.createElement('div')
+        question.classList.add('livechat-poll-question')
+        question.textContent = poll.question
+        el.append(question)
+
+        if (!overlay) {
+          const close = document.createElement('button')
+          close.classList.add('livechat-poll-close')
+          close.setAttribute('type', 'button')
+          close.setAttribute('title', 'Close')
+          close.textContent = '×'
+          close.onclick = () => {
+            polls.delete(jid)
+            render(jid)
+          }
+          el.append(close)
+        }
+
+        const ownVote = ownVotes.get(poll.id)
+        const list = document.createElement('ul')
+        list.classList.add('livechat-poll-choices')
+        for (const choice of poll.choices) {
+          const li = document.createElement('li')
+          li.classList.add('livechat-poll-choice')
+          if (ownVote === choice.id) {
+            li.classList.add('livechat-poll-choice-voted')
+          }
+          const percent = poll.votes > 0 ? Math.round(choice.votes * 100 / poll.votes) : 0
+          li.style.setProperty('--livechat-poll-percent', percent.toString() + '%')
+
+          const label = document.createElement(canVote && !poll.over && !ownVote ? 'button' : 'span')
+          label.classList.add('livechat-poll-choice-label')
+          label.textContent = '!' + choice.id + ' ' + choice.label
+          if (label instanceof HTMLButtonElement) {
+            label.setAttribute('type', 'button')
+            label.onclick = () => {
+              ownVotes.set(poll.id, choice.id)
+              sendRoomCommand(_converse, jid, '!' + choice.id)
+              render(jid)
+            }
+          }
+          const votes = document.createElement('span')
+          votes.classList.add('livechat-poll-choice-votes')
+          votes.textContent = `${choice.votes} (${percent}%)`
+          li.append(label, votes)
+          list.append(li)
+        }
+        el.append(list)
+
+        const footer = document.createElement('div')
+        footer.classList.add('livechat-poll-footer')
+        if (poll.over) {
+          footer.textContent = `Poll over: ${poll.votes} votes.`
+        } else {
+          const remaining = Math.max(0, Math.ceil(poll.end - now))
+          footer.textContent = `${poll.votes} votes. The poll ends in ${remaining} seconds.`
+        }
+        el.append(footer)
+
+        // Refreshing the countdown, and removing the results after a while.
+        if (!timers.has(jid)) {
+          timers.set(jid, window.setInterval(() => render(jid), 1000))
+        }
+      }
+
+      function renderCreateForm (model: any): void {
+        const jid: string = model.get('jid')
+        const view = _converse.chatboxviews?.get(jid)
+        const bottomPanel: HTMLElement | null = view?.querySelector?.('converse-muc-bottom-panel') ?? null
+        if (!bottomPanel) { return }
+
+        let el: HTMLElement | null = bottomPanel.querySelector('.livechat-poll-create')
+        if (model.getOwnRole?.() !== 'moderator') {
+          el?.remove()
+          return
+        }
+        if (el) { return }
+
+        el = document.createElement('details')
+        el.classList.add('livechat-poll-create')
+        const summary = document.createElement('summary')
+        summary.textContent = 'Create a poll'
+        el.append(summary)
+
+        const form = document.createElement('form')
+        const question = document.createElement('input')
+        question.setAttribute('type', 'text')
+        question.setAttribute('placeholder', 'Question')
+        question.required = true
+        const choices = document.createElement('textarea')
+        choices.setAttribute('placeholder', 'Choices (one per line)')
+        choices.setAttribute('rows', '3')
+        choices.required = true
+        const duration = document.createElement('input')
+        duration.setAttribute('type', 'number')
+        duration.setAttribute('min', '10')
+        duration.setAttribute('max', '3600')
+        duration.setAttribute('title', 'Duration (in seconds)')
+        duration.value = '60'
+        const submit = document.createElement('button')
+        submit.setAttribute('type', 'submit')
+        submit.classList.add('btn', 'btn-primary')
+        submit.textContent = 'Start the poll'
+        form.append(question, choices, duration, submit)
+        form.onsubmit = (ev) => {
+          ev.preventDefault()
+          // The pipe character is used as separator in the /poll command.
+          const parts = [question.value, ...choices.value.split(/\r?\n/)]
+            .map(s => s.replace(/\|/g, '/').trim())
+            .filter(s => s !== '')
+          const seconds = parseInt(duration.value) || 60
+          sendRoomCommand(_converse, jid, '/poll ' + seconds.toString() + ' ' + parts.join(' | '))
+          question.value = ''
+          choices.value = ''
+          el?.removeAttribute('open')
+        }
+        el.append(form)
+        bottomPanel.prepend(el)
+      }
+
+      _converse.api.listen.on('message', (data: any) => {
+        const pollEl = data?.stanza?.getElementsByTagNameNS?.(xmlnsPoll, 'poll')?.[0]
+        const jid = data?.chatbox?.get?.('jid')
+        if (!pollEl || !jid) { return }
+        if (!isSentByRoom(pollEl, jid)) {
+          // Occupants can't send polls by themselves (they must use the /poll command).
+          console.warn('[livechatPollsPlugin] Ignoring a poll that was not sent by the room.')
+          return
+        }
+        const poll = _parsePoll(pollEl)
+        if (!poll) { return }
+        const current = polls.get(jid)
+        if (current?.id === poll.id && current.version >= poll.version) {
+          // Outdated state (for example from the room history).
+          return
+        }
+        polls.set(jid, poll)
+        render(jid)
+      })
+
+      _converse.api.listen.on('chatRoomViewInitialized', (view: any) => {
+        const model = view?.model
+        if (!model) { return }
+        render(model.get('jid'))
+        if (canVote) {
+          renderCreateForm(model)
+        }
+      })
+
+      if (canVote) {
+        _converse.api.listen.on('chatRoomInitialized', (model: any) => {
+          model.occupants?.on('change:role', () => renderCreateForm(model))
+        })
+      }
+    }
+  })
+}
+
+function _parsePoll (el: Element): PollState | null {
+  const id = el.getAttribute('id')
+  const question = el.getElementsByTagName('question')[0]?.textContent
+  if (!id || !question) { return null }
+  const choices: PollChoice[] = []
+  for (const choice of Array.from(el.getElementsByTagName('choice'))) {
+    choices.push({
+      id: choice.getAttribute('id') ?? (choices.length + 1).toString(),
+      label: choice.textContent ?? '',
+      votes: parseInt(choice.getAttribute('votes') ?? '0') || 0
+    })
+  }
+  return {
+    id,
+    question,
+    choices,
+    votes: parseInt(el.getAttribute('votes') ?? '0') || 0,
+    end: parseInt(el.getAttribute('end') ?? '0') || 0,
+    over: el.getAttribute('over') === 'true',
+    version: parseInt(el.getAttribute('version') ?? '0') || 0
+  }
+}
+
+export {
+  initPolls
+}
@@ -0,0 +1,73 @@
+import type { InitConverseParams } from './types'
+import type { ChatReplay } from 'shared/lib/types'
+import { renderTextWithCustomEmojis } from './emojis'
+
+/**
+ * Replays the chat of a past live, in sync with the video player.
+ * The parent window (the video watch page) sends the player current time using postMessage.
+ * When not in an iframe, there is no player: all messages are displayed.
+ * @param initConverseParams parameters
+ * @param isInIframe true if we are in an iframe
+ */
+async function initReplay ({ replayUrl, customEmojis }: InitConverseParams, isInIframe: boolean): Promise<void> {
+  if (!replayUrl) { return }
+  const body = document.querySelector('body')
+  body?.classList.add('livechat-replay-mode')
+
+  const container = document.createElement('div')
+  container.classList.add('livechat-replay')
+  const list = document.createElement('ul')
+  container.append(list)
+  body?.append(container)
+
+  const response = await fetch(replayUrl)
+  if (!response.ok) {
+    throw new Error('Failed to load the chat replay.')
+  }
+  const replay: ChatReplay = await response.json()
+  const messages = replay.messages.sort((a, b) => a.offset - b.offset)
+
+  let displayed = 0 // number of displayed messages.
+  function render (currentTime: number): void {
+    // Seek-aware: if the player went backward, we restart from scratch.
+    if (displayed > 0 && messages[displayed - 1].offset > currentTime) {
+      list.innerHTML = ''
+      displayed = 0
+    }
+    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 20
+    while (displayed < messages.length && messages[displayed].offset <= currentTime) {
+      const message = messages[displayed]
+      const li = document.createElement('li')
+      const nick = document.createElement('span')
+      nick.classList.add('livechat-replay-nick')
+      nick.textContent = message.nick
+      const text = document.createElement('span')
+      text.classList.add('livechat-replay-body')
+      text.append(...renderTextWithCustomEmojis(message.body, customEmojis))
+      li.append(nick, ' ', text)
+      list.append(li)
+      displayed++
+    }
+    if (atBottom) {
+      container.scrollTop = container.scrollHeight
+    }
+  }
+
+  if (!isInIframe) {
+    render(Infinity)
+    return
+  }
+
+  render(0)
+  window.addEventListener('message', (event: MessageEvent) => {
+    if (event.origin !== window.location.origin) { return }
+    const data = event.data
+    if (data?.type !== 'peertube-plugin-livechat-replay-time') { return }
+    if (typeof data.currentTime !== 'number') { return }
+    render(data.currentTime)
+  })
+}
+
+export {
+  initReplay
+}
@@ -0,0 +1,89 @@
+/**
+ * Slow mode: the Prosody module mod_muc_slow_mode advertises the minimum delay between two messages
+ * in the room disco#info (muc#roominfo_slow_mode_duration), and rejects messages sent too early.
+ * This plugin displays the slow mode status, and a countdown, above the message input.
+ * Strings are translated by ConverseJS (the keys are also in the plugin languages files).
+ */
+function initSlowMode (): void {
+  window.converse.plugins.add('livechatSlowModePlugin', {
+    dependencies: ['converse-muc', 'converse-muc-views'],
+    initialize: function () {
+      const _converse = this._converse
+      const __ = _converse.__
+      const lastMessageTimes = new Map<string, number>()
+      const timers = new Map<string, number>()
+
+      function getDuration (model: any): number {
+        const duration = parseInt(model?.config?.get('slow_mode_duration') ?? '0')
+        return isNaN(duration) || duration < 0 ? 0 : duration
+      }
+
+      function refresh (model: any): void {
+        const jid: string = model.get('jid')
+        const view = _converse.chatboxviews?.get(jid)
+        const bottomPanel: HTMLElement | null = view?.querySelector?.('converse-muc-bottom-panel') ?? null
+        if (!bottomPanel) { return }
+
+        let info: HTMLElement | null = bottomPanel.querySelector('.livechat-slow-mode-info')
+        const duration = getDuration(model)
+        // Moderators are not concerned by the slow mode.
+        if (duration === 0 || model.getOwnRole?.() === 'moderator') {
+          info?.remove()
+          return
+        }
+        if (!info) {
+          info = document.createElement('div')
+          info.classList.add('livechat-slow-mode-info')
+          bottomPanel.prepend(info)
+        }
+
+        const remaining = Math.ceil(duration - (Date.now() - (lastMessageTimes.get(jid) ?? 0)) / 1000)
+        if (remaining > 0) {
+          info.classList.add('livechat-slow-mode-waiting')
+          info.textContent = __(
+            'Slow mode is enabled: you can send a new message in %1$s seconds.', remaining.toString()
+          )
+          if (!timers.has(jid)) {
+            timers.set(jid, window.setInterval(() => refresh(model), 1000))
+          }
+        } else {
+          info.classList.remove('livechat-slow-mode-waiting')
+          info.textContent = __('Slow mode is enabled: you can send a message every %1$s seconds.', duration.toString())
+          const timer = timers.get(jid)
+          if (timer !== undefined) {
+            window.clearInterval(timer)
+            timers.delete(jid)
+          }
+        }
+      }
+
+      _converse.api.listen.on('chatRoomInitialized', (model: any) => {
+        model.config?.on('change:slow_mode_duration', () => refresh(model))
+        model.occupants?.on('change:role', () => refresh(model))
+      })
+
+      _converse.api.listen.on('chatRoomViewInitialized', (view: any) => {
+        if (view?.model) {
+          refresh(view.model)
+        }
+      })
+
+      _converse.api.listen.on('sendMessage', (data: any) => {
+        const model = data?.chatbox
+        if (model?.get('type') !== 'chatroom') { return }
+        lastMessageTimes.set(model.get('jid'), Date.now())
+        refresh(model)
+      })
+
+      _converse.api.listen.on('message', (data: any) => {
+        // Status code 104: the room configuration has changed (for example the slow mode duration).
+        if (!data?.stanza?.querySelector?.('status[code="104"]')) { return }
+        data.chatbox?.refreshDiscoInfo?.()
+      })
+    }
+  })
+}
+
+export {
+  initSlowMode
+}
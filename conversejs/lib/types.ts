@@ -1,3 +1,6 @@
+import type { OverlayOptions } from 'shared/lib/overlay'
+import type { CustomEmojiDefinition } from 'shared/lib/types'
+
 interface InitConverseParams {
   isRemoteChat: boolean
   localAnonymousJID: string
@@ -16,6 +19,10 @@ interface InitConverseParams {
   noScroll: boolean
   theme: string
   transparent: boolean
+  forbidAnonymous: boolean
+  replayUrl: string | null
+  overlay: OverlayOptions | null
+  customEmojis: CustomEmojiDefinition[]
 }
 
 export {
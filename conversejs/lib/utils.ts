@@ -6,6 +6,36 @@ function inIframe (): boolean {
   }
 }
 
+/**
+ * Sends a message body to a room, without displaying it in the chat.
+ * This is used for commands handled by Prosody modules (votes, /poll, /pin, ...).
+ * @param _converse the _converse object
+ * @param jid room JID
+ * @param body message body
+ */
+function sendRoomCommand (_converse: any, jid: string, body: string): void {
+  const { $msg } = window.converse.env
+  _converse.api.send(
+    $msg({ to: jid, type: 'groupchat', id: 'livechat-' + Date.now().toString() })
+      .c('body').t(body)
+  )
+}
+
+/**
+ * Checks that an element was sent by the room itself (and not by an occupant).
+ * Elements added by Prosody modules (polls, pinned message, ...) must be ignored if they come from an occupant.
+ * Note: the element must be a direct child of the message stanza (which can be forwarded, for the room history).
+ * @param el the element
+ * @param jid room JID
+ */
+function isSentByRoom (el: Element, jid: string): boolean {
+  const from = el.parentElement?.getAttribute('from')
+  // Occupants messages come from the room JID with a resource (the occupant nickname).
+  return !!from && from.toLowerCase() === jid.toLowerCase()
+}
+
 export {
-  inIframe
+  inIframe,
+  sendRoomCommand,
+  isSentByRoom
 }
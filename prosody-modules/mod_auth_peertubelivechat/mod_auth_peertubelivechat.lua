@@ -0,0 +1,233 @@
+-- Authentication module for Peertube users.
+-- Passwords are short-lived tokens signed by the Peertube plugin, verified locally (without any API call).
+-- Some parts are inspired by mod_auth_http (Copyright (C) 2008-2013 Matthew Wild, Waqas Hussain, Kim Alvefur).
+
+local new_sasl = require "util.sasl".new;
+local hashes = require "util.hashes";
+local json = require "util.json";
+local have_async, async = pcall(require, "util.async");
+local http = require "net.http";
+local storagemanager = require "core.storagemanager";
+local time_now = require "util.time".now;
+
+if not have_async then
+  error("Your version of Prosody does not support async and is incompatible");
+end
+
+local host = module.host;
+
+local secret = module:get_option_string("peertubelivechat_auth_secret", "");
+if secret == "" then error("peertubelivechat_auth_secret required") end
+
+local api_base = module:get_option_string("peertubelivechat_auth_api_url", ""):gsub("/$", "");
+if api_base == "" then error("peertubelivechat_auth_api_url required") end
+local apikey = module:get_option_string("peertubelivechat_auth_apikey", "");
+
+-- Revocation time (in milliseconds), by username: tokens issued until this timestamp are refused.
+local revocations = module:open_store("peertubelivechat_auth_revocations");
+
+local constant_time_equals = hashes.equals or function (a, b) return a == b; end;
+
+local provider = {};
+
+local function make_request(method_name, method_type, params)
+  local wait, done = async.waiter();
+
+  params.server = host;
+  local url = api_base.."/"..method_name.."?apikey="..http.urlencode(apikey);
+  local ex = {
+    method = method_type;
+    headers = {};
+  };
+  if method_type == "POST" then
+    ex.headers["Content-Type"] = "application/json";
+    ex.body = json.encode(params);
+  else
+    url = url.."&"..http.formencode(params);
+  end
+
+  local content, code;
+  local function cb(content_, code_)
+    content, code = content_, code_;
+    done();
+  end
+  http.request(url, ex, cb);
+  wait();
+  return code, content;
+end
+
+local function revoke(username)
+  local ok, err = revocations:set(username, { before = math.floor(time_now() * 1000) });
+  if not ok then
+    module:log("error", "Failed to revoke tokens for user %s: %s", username, err);
+    return false;
+  end
+  module:log("debug", "Tokens revoked for user %s", username);
+  return true;
+end
+
+-- Token format: <issued>.<expires>.<signature>
+-- where signature is the hex HMAC-SHA256 of "<username>.<issued>.<expires>" (timestamps are in milliseconds).
+function provider.test_password(username, password)
+  if type(username) ~= "string" or type(password) ~= "string" then
+    return false;
+  end
+  local issued, expires, signature = password:match("^(%d+)%.(%d+)%.(%x+)$");
+  if not issued then
+    return false;
+  end
+  local expected = hashes.hmac_sha256(secret, username.."."..issued.."."..expires, true);
+  if not constant_time_equals(expected, signature:lower()) then
+    return false;
+  end
+  if tonumber(expires) <= time_now() * 1000 then
+    module:log("debug", "Expired token for user %s", username);
+    return false;
+  end
+  local revocation = revocations:get(username);
+  if revocation and revocation.before and tonumber(issued) <= revocation.before then
+    module:log("debug", "Revoked token for user %s", username);
+    return false;
+  end
+  return true;
+end
+
+function provider.users()
+  return function()
+    return nil;
+  end
+end
+
+-- Passwords can't be chosen: setting a password revokes current tokens.
+function provider.set_password(username, _password)
+  revoke(username);
+  local code = make_request("set_password", "POST", { user = username });
+  return code == 200 or code == 201 or code == 204;
+end
+
+function provider.user_exists(username)
+  local code, body = make_request("user_exists", "GET", { user = username });
+  return code == 200 and body == "true";
+end
+
+-- Accounts are Peertube accounts: this only succeeds if the Peertube user exists (the password is ignored).
+function provider.create_user(username, _password)
+  local code = make_request("register", "POST", { user = username });
+  return code == 201;
+end
+
+function provider.delete_user(username)
+  revoke(username);
+  local code = make_request("remove_user", "POST", { user = username });
+  return code == 200 or code == 201 or code == 204;
+end
+
+function provider.get_sasl_handler()
+  return new_sasl(host, {
+    --luacheck: ignore 212/sasl 212/realm
+    plain_test = function(sasl, username, password, realm)
+      return provider.test_password(username, password), true;
+    end;
+  });
+end
+
+module:provides("auth", provider);
+
+-- HTTP API, so that the Peertube plugin can revoke tokens (for example when a user is blocked).
+module:depends"http";
+
+local function check_request_auth(event)
+  if apikey == "" then
+    return false, 500;
+  end
+  if not constant_time_equals(event.request.headers.authorization or "", "Bearer " .. apikey) then
+    return false, 401;
+  end
+  return true;
+end
+
+-- Returns the username from the request body, or nil and an HTTP error code.
+local function get_request_user(event)
+  local permit, code = check_request_auth(event);
+  if not permit then
+    return nil, code;
+  end
+  local data = json.decode(event.request.body or "");
+  if type(data) ~= "table" or type(data.user) ~= "string" or data.user == "" then
+    return nil, 400;
+  end
+  return data.user, nil, data;
+end
+
+-- Closes all current sessions of the user.
+local function close_sessions(username, reason)
+  local user = prosody.hosts[host].sessions[username];
+  if not user then
+    return 0;
+  end
+  local count = 0;
+  for _, session in pairs(user.sessions) do
+    session:close({ condition = "not-authorized", text = reason });
+    count = count + 1;
+  end
+  return count;
+end
+
+local function revoke_user(event)
+  local username, code = get_request_user(event);
+  if not username then
+    return code;
+  end
+  if not revoke(username) then
+    return 500;
+  end
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true });
+end
+
+-- Revokes tokens, and closes current sessions (for example when the user is blocked).
+local function kick_user(event)
+  local username, code, data = get_request_user(event);
+  if not username then
+    return code;
+  end
+  if not revoke(username) then
+    return 500;
+  end
+  local reason = type(data.reason) == "string" and data.reason or nil;
+  local closed = close_sessions(username, reason);
+  module:log("info", "Closed %d sessions for user %s", closed, username);
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true; closed = closed });
+end
+
+-- Revokes tokens, closes current sessions, and removes all stored data of the user (when the account is deleted).
+local function delete_user(event)
+  local username, code = get_request_user(event);
+  if not username then
+    return code;
+  end
+  if not revoke(username) then
+    return 500;
+  end
+  close_sessions(username, "Account deleted");
+  local ok, err = storagemanager.purge(username, host);
+  if not ok then
+    module:log("error", "Failed to purge data for user %s: %s", username, err);
+    return 500;
+  end
+  -- Other modules (for example mod_vcard_peertubelivechat) can clean their caches.
+  module:fire_event("user-deleted", { username = username; host = host });
+  module:log("info", "Data removed for user %s", username);
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true });
+end
+
+module:provides("http", {
+  name = "peertubelivechat_auth";
+  route = {
+    ["POST /revoke"] = revoke_user;
+    ["POST /kick"] = kick_user;
+    ["POST /delete"] = delete_user;
+  };
+});
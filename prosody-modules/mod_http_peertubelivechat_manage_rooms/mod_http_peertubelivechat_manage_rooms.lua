@@ -0,0 +1,344 @@
+local json = require "util.json";
+local jid_prep = require "util.jid".prep;
+local jid_split = require "util.jid".split;
+local jid_resource = require "util.jid".resource;
+local array = require "util.array";
+local st = require "util.stanza";
+local id = require "util.id";
+
+local mod_muc = module:depends"muc";
+local get_room_from_jid = rawget(mod_muc, "get_room_from_jid");
+local all_rooms = rawget(mod_muc, "all_rooms");
+
+module:depends"http";
+
+function check_auth(routes)
+  local function check_request_auth(event)
+    local apikey = module:get_option_string("peertubelivechat_manage_rooms_apikey", "")
+    if apikey == "" then
+      return false, 500;
+    end
+    if event.request.headers.authorization ~= "Bearer " .. apikey then
+      return false, 401;
+    end
+    return true;
+  end
+
+  for route, handler in pairs(routes) do
+    routes[route] = function (event, ...)
+      local permit, code = check_request_auth(event);
+      if not permit then
+        return code;
+      end
+      return handler(event, ...);
+    end;
+  end
+  return routes;
+end
+
+local function parse_body(event)
+  local data = json.decode(event.request.body or "");
+  if type(data) ~= "table" then
+    return nil;
+  end
+  return data;
+end
+
+-- Updates affiliations on existing rooms.
+-- Expected body: { rooms = { "room1@room.example.com", ... }, affiliations = { ["user@example.com"] = "admin", ... } }
+-- Missing rooms are ignored (affiliations will be set by mod_muc_http_defaults when they will be created).
+local function update_rooms_affiliations(event)
+  local data = parse_body(event);
+  if not data or type(data.rooms) ~= "table" or type(data.affiliations) ~= "table" then
+    return 400;
+  end
+
+  local updated = 0;
+  for _, room_jid in ipairs(data.rooms) do
+    local room = type(room_jid) == "string" and get_room_from_jid(room_jid);
+    if room then
+      for user_jid, affiliation in pairs(data.affiliations) do
+        local prepped_jid = type(user_jid) == "string" and jid_prep(user_jid);
+        if prepped_jid and type(affiliation) == "string" then
+          local ok, err = room:set_affiliation(true, prepped_jid, affiliation);
+          if not ok then
+            module:log("error", "Could not set affiliation %s for %s in %s: %s", affiliation, prepped_jid, room.jid, err);
+          end
+        else
+          module:log("error", "Invalid affiliation item for room %s: %q", room.jid, user_jid);
+        end
+      end
+      room:save(true);
+      updated = updated + 1;
+    end
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true; updated = updated });
+end
+
+-- Bans and unbans users in a room. Returns true if some affiliations were changed.
+local function update_room_bans(room, bans, unbans)
+  local changed = false;
+  for _, user_jid in ipairs(bans) do
+    local prepped_jid = type(user_jid) == "string" and jid_prep(user_jid);
+    if prepped_jid and not room:get_affiliation(prepped_jid) then
+      local ok, err = room:set_affiliation(true, prepped_jid, "outcast");
+      if ok then
+        changed = true;
+      else
+        module:log("error", "Could not ban %s in %s: %s", prepped_jid, room.jid, err);
+      end
+    end
+  end
+  for _, user_jid in ipairs(unbans) do
+    local prepped_jid = type(user_jid) == "string" and jid_prep(user_jid);
+    if prepped_jid and room:get_affiliation(prepped_jid) == "outcast" then
+      local ok, err = room:set_affiliation(true, prepped_jid, "none");
+      if ok then
+        changed = true;
+      else
+        module:log("error", "Could not unban %s in %s: %s", prepped_jid, room.jid, err);
+      end
+    end
+  end
+  return changed;
+end
+
+-- Bans and unbans users in all existing rooms, except the rooms listed in the optional except field.
+-- Expected body: { bans = { "user@example.com", ... }, unbans = { "user@example.com", ... },
+--   except = { "room@room.example.com", ... } }
+-- Users that have an affiliation (owners, admins, members) are never banned.
+-- Users are only unbanned if they are currently banned.
+local function update_all_rooms_bans(event)
+  local data = parse_body(event);
+  if not data or type(data.bans) ~= "table" or type(data.unbans) ~= "table" then
+    return 400;
+  end
+  local except = {};
+  if type(data.except) == "table" then
+    for _, room_jid in ipairs(data.except) do
+      local prepped_jid = type(room_jid) == "string" and jid_prep(room_jid);
+      if prepped_jid then
+        except[prepped_jid] = true;
+      end
+    end
+  end
+
+  local updated = 0;
+  for room in all_rooms() do
+    if not except[room.jid] and update_room_bans(room, data.bans, data.unbans) then
+      room:save(true);
+      updated = updated + 1;
+    end
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true; updated = updated });
+end
+
+-- Updates affiliations in all existing rooms.
+-- Expected body: { affiliations = { ["user@example.com"] = "owner", ["other@example.com"] = "none", ... } }
+-- "none" only removes existing affiliations. Unchanged affiliations are not set again.
+local function update_all_rooms_affiliations(event)
+  local data = parse_body(event);
+  if not data or type(data.affiliations) ~= "table" then
+    return 400;
+  end
+
+  local updated = 0;
+  for room in all_rooms() do
+    local changed = false;
+    for user_jid, affiliation in pairs(data.affiliations) do
+      local prepped_jid = type(user_jid) == "string" and jid_prep(user_jid);
+      if prepped_jid and type(affiliation) == "string" then
+        if (room:get_affiliation(prepped_jid) or "none") ~= affiliation then
+          local ok, err = room:set_affiliation(true, prepped_jid, affiliation);
+          if ok then
+            changed = true;
+          else
+            module:log("error", "Could not set affiliation %s for %s in %s: %s", affiliation, prepped_jid, room.jid, err);
+          end
+        end
+      else
+        module:log("error", "Invalid affiliation item: %q", user_jid);
+      end
+    end
+    if changed then
+      room:save(true);
+      updated = updated + 1;
+    end
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true; updated = updated });
+end
+
+-- Returns informations about existing rooms.
+-- Expected body: { rooms = { "room1@room.example.com", ... } }
+-- Missing rooms are not in the result.
+local function rooms_infos(event)
+  local data = parse_body(event);
+  if not data or type(data.rooms) ~= "table" then
+    return 400;
+  end
+
+  local rooms_json = array();
+  for _, room_jid in ipairs(data.rooms) do
+    local room = type(room_jid) == "string" and get_room_from_jid(room_jid);
+    if room then
+      local localpart = jid_split(room.jid);
+      local history = room._history;
+      local lasttimestamp;
+      if history ~= nil and #history > 0 then
+        lasttimestamp = history[#history].timestamp;
+      end
+      local occupants = 0;
+      for _ in room:each_occupant() do
+        occupants = occupants + 1;
+      end
+      rooms_json:push({
+        jid = room.jid;
+        localpart = localpart;
+        name = room:get_name() or localpart;
+        subject = room:get_subject();
+        occupants = occupants;
+        lasttimestamp = lasttimestamp;
+      })
+    end
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode_array(rooms_json);
+end
+
+-- Changes the room subject.
+-- Expected body: { room = "room1@room.example.com", subject = "new subject" }
+local function set_room_subject(event)
+  local data = parse_body(event);
+  if not data or type(data.room) ~= "string" or type(data.subject) ~= "string" then
+    return 400;
+  end
+  local room = get_room_from_jid(data.room);
+  if not room then
+    return 404;
+  end
+  room:set_subject(room.jid, data.subject);
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true });
+end
+
+-- Sends a message in the room, using the given nickname (that must not be used by an occupant).
+-- The nickname should be reserved (see mod_muc_peertubelivechat_bot), so that nobody can impersonate it.
+-- Expected body: { room = "room1@room.example.com", nick = "Bot", body = "message" }
+local function send_message(event)
+  local data = parse_body(event);
+  if not data or type(data.room) ~= "string" or type(data.nick) ~= "string" or type(data.body) ~= "string" then
+    return 400;
+  end
+  local room = get_room_from_jid(data.room);
+  if not room then
+    return 404;
+  end
+  for _, occupant in room:each_occupant() do
+    local nick = jid_resource(occupant.nick);
+    if nick and nick:lower() == data.nick:lower() then
+      module:log("warn", "Can't send a message as %s in room %s: an occupant uses this nickname", data.nick, room.jid);
+      return 409;
+    end
+  end
+  local message = st.message({
+    type = "groupchat";
+    from = room.jid .. "/" .. data.nick;
+    id = id.medium();
+  }):text_tag("body", data.body);
+  room:broadcast_message(message);
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true });
+end
+
+-- Opens or closes the room, depending on the live state.
+-- When the live ends, the room is moderated: participants without affiliation become visitors, and can't talk anymore.
+-- When the live starts, all visitors without affiliation get their voice back
+-- (including users that joined while the room was closed).
+-- Expected body: { room = "room1@room.example.com", live = true|false, message = "optional message" }
+local function set_room_live_state(event)
+  local data = parse_body(event);
+  if not data or type(data.room) ~= "string" or type(data.live) ~= "boolean" then
+    return 400;
+  end
+  local room = get_room_from_jid(data.room);
+  if not room then
+    return 404;
+  end
+
+  if data.live then
+    room:set_moderated(false);
+    for nick, occupant in room:each_occupant() do
+      if occupant.role == "visitor" and not room:get_affiliation(occupant.bare_jid) then
+        room:set_role(true, nick, "participant");
+      end
+    end
+  else
+    room:set_moderated(true);
+    for nick, occupant in room:each_occupant() do
+      if occupant.role == "participant" and not room:get_affiliation(occupant.bare_jid) then
+        room:set_role(true, nick, "visitor");
+      end
+    end
+  end
+  room:save(true);
+
+  if type(data.message) == "string" and data.message ~= "" then
+    local message = st.message({
+      type = "groupchat";
+      from = room.jid;
+      id = id.medium();
+    }):text_tag("body", data.message);
+    room:broadcast_message(message);
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true });
+end
+
+-- Destroys the room. If purge is true, also deletes the room archive.
+-- Expected body: { room = "room1@room.example.com", reason = "optional reason", purge = true|false }
+local function destroy_room(event)
+  local data = parse_body(event);
+  if not data or type(data.room) ~= "string" then
+    return 400;
+  end
+  local room = get_room_from_jid(data.room);
+  if not room then
+    return 404;
+  end
+  local reason = type(data.reason) == "string" and data.reason or nil;
+  room:destroy(nil, reason);
+
+  if data.purge == true then
+    local archive = module:open_store("muc_log", "archive");
+    local ok, err = archive:delete(jid_split(data.room));
+    if not ok then
+      module:log("error", "Could not purge the archive of %s: %s", data.room, err);
+    end
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true });
+end
+
+module:provides("http", {
+  route = check_auth {
+    ["POST /update-rooms-affiliations"] = update_rooms_affiliations;
+    ["POST /update-all-rooms-bans"] = update_all_rooms_bans;
+    ["POST /update-all-rooms-affiliations"] = update_all_rooms_affiliations;
+    ["POST /rooms-infos"] = rooms_infos;
+    ["POST /set-room-subject"] = set_room_subject;
+    ["POST /send-message"] = send_message;
+    ["POST /set-room-live-state"] = set_room_live_state;
+    ["POST /destroy-room"] = destroy_room;
+  };
+});
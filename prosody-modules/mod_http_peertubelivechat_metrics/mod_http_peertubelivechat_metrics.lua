@@ -0,0 +1,107 @@
+local json = require "util.json";
+local hashes = require "util.hashes";
+local jid_split = require"util.jid".split;
+
+local mod_muc = module:depends"muc";
+local all_rooms = rawget(mod_muc, "all_rooms")
+local muc_log_archive = module:open_store("muc_log", "archive");
+
+module:depends"http";
+
+local constant_time_equals = hashes.equals or function (a, b) return a == b; end;
+
+function check_auth(routes)
+  local function check_request_auth(event)
+    local apikey = module:get_option_string("peertubelivechat_metrics_apikey", "")
+    if apikey == "" then
+      return false, 500;
+    end
+    if not constant_time_equals(event.request.headers.authorization or "", "Bearer " .. apikey) then
+      return false, 401;
+    end
+    return true;
+  end
+
+  for route, handler in pairs(routes) do
+    routes[route] = function (event, ...)
+      local permit, code = check_request_auth(event);
+      if not permit then
+        return code;
+      end
+      return handler(event, ...);
+    end;
+  end
+  return routes;
+end
+
+local function count(t)
+  local result = 0;
+  if t then
+    for _ in pairs(t) do
+      result = result + 1;
+    end
+  end
+  return result;
+end
+
+local function count_sessions()
+  local sessions = { c2s = 0; bosh = 0; websocket = 0 };
+  for _, session in pairs(prosody.full_sessions) do
+    if session.bosh_version then
+      sessions.bosh = sessions.bosh + 1;
+    elseif session.websocket_request then
+      sessions.websocket = sessions.websocket + 1;
+    else
+      sessions.c2s = sessions.c2s + 1;
+    end
+  end
+  return sessions;
+end
+
+local function count_outgoing_s2s()
+  local result = 0;
+  for _, host in pairs(prosody.hosts) do
+    result = result + count(host.s2sout);
+  end
+  return result;
+end
+
+-- Returns the number of rooms, and the number of archived messages.
+local function count_rooms()
+  local rooms, archived = 0, 0;
+  for room in all_rooms() do
+    rooms = rooms + 1;
+    local room_node = jid_split(room.jid);
+    local ok, total = pcall(function ()
+      local _, t = muc_log_archive:find(room_node, { limit = 0; total = true });
+      return t;
+    end);
+    if ok and type(total) == "number" then
+      archived = archived + total;
+    end
+  end
+  return rooms, archived;
+end
+
+local function metrics(event)
+  local rooms, archived = count_rooms();
+  local result = {
+    uptime = os.time() - math.floor(prosody.start_time or os.time());
+    sessions = count_sessions();
+    s2s = {
+      incoming = count(prosody.incoming_s2s);
+      outgoing = count_outgoing_s2s();
+    };
+    rooms = rooms;
+    archived_messages = archived;
+    memory = math.floor(collectgarbage("count") * 1024);
+  };
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode(result);
+end
+
+module:provides("http", {
+  route = check_auth {
+    ["GET /metrics"] = metrics;
+  };
+});
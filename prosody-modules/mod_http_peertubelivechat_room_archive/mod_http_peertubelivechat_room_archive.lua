@@ -0,0 +1,78 @@
+local json = require "util.json";
+local jid_split = require "util.jid".split;
+local array = require "util.array";
+
+local archive = module:open_store("muc_log", "archive");
+
+module:depends"http";
+
+function check_auth(routes)
+  local function check_request_auth(event)
+    local apikey = module:get_option_string("peertubelivechat_room_archive_apikey", "")
+    if apikey == "" then
+      return false, 500;
+    end
+    if event.request.headers.authorization ~= "Bearer " .. apikey then
+      return false, 401;
+    end
+    return true;
+  end
+
+  for route, handler in pairs(routes) do
+    routes[route] = function (event, ...)
+      local permit, code = check_request_auth(event);
+      if not permit then
+        return code;
+      end
+      return handler(event, ...);
+    end;
+  end
+  return routes;
+end
+
+-- Returns the archived messages of a room.
+-- Expected body: { room = "room1@room.example.com", start = optional unix timestamp, ["end"] = optional unix timestamp }
+-- The room does not have to exist anymore.
+local function room_messages(event)
+  local data = json.decode(event.request.body or "");
+  if type(data) ~= "table" or type(data.room) ~= "string" then
+    return 400;
+  end
+  local room_node, room_host = jid_split(data.room);
+  if not room_node or room_host ~= module.host then
+    return 404;
+  end
+
+  local results, err = archive:find(room_node, {
+    with = "message<groupchat";
+    start = tonumber(data.start);
+    ["end"] = tonumber(data["end"]);
+  });
+  if not results then
+    module:log("error", "Could not read the archive of %s: %s", data.room, err);
+    return 500;
+  end
+
+  local messages = array();
+  for id, item, when in results do
+    local body = item:get_child_text("body");
+    if body then
+      local _, _, nick = jid_split(item.attr.from);
+      messages:push({
+        id = id;
+        timestamp = when;
+        nick = nick or "";
+        body = body;
+      });
+    end
+  end
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode_array(messages);
+end
+
+module:provides("http", {
+  route = check_auth {
+    ["POST /room-messages"] = room_messages;
+  };
+});
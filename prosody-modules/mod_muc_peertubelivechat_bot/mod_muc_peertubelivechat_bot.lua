@@ -0,0 +1,154 @@
+local http = require "net.http";
+local json = require "util.json";
+local st = require "util.stanza";
+local id = require "util.id";
+local urlencode = require "util.http".urlencode;
+local jid_node = require "util.jid".node;
+local jid_resource = require "util.jid".resource;
+
+module:depends"muc";
+-- Channel bots come with the room settings.
+local mod_channels = module:depends"muc_peertubelivechat_channels";
+
+local uptime_url = module:get_option_string("peertubelivechat_bot_uptime_url", nil);
+
+local function get_room_bot(room)
+  local bot = mod_channels.get_room_settings(room).bot;
+  if type(bot) ~= "table" or not bot.enabled or type(bot.nickname) ~= "string" then
+    return nil;
+  end
+  return bot;
+end
+
+-- Sends a message from the bot to all occupants (and to the room archive).
+local function say(room, bot, text)
+  local message = st.message({
+    type = "groupchat";
+    from = room.jid .. "/" .. bot.nickname;
+    id = id.medium();
+  }):text_tag("body", text);
+  room:broadcast_message(message);
+end
+
+-- Sends a message from the bot to a single occupant session. It is not archived.
+local function whisper(room, bot, to, text)
+  local message = st.message({
+    type = "groupchat";
+    from = room.jid .. "/" .. bot.nickname;
+    to = to;
+    id = id.medium();
+  }):text_tag("body", text)
+    :tag("no-store", { xmlns = "urn:xmpp:hints" }):up();
+  room:route_stanza(message);
+end
+
+local function format_duration(seconds)
+  local hours = math.floor(seconds / 3600);
+  local minutes = math.floor((seconds % 3600) / 60);
+  if hours > 0 then
+    return string.format("%dh%02dm", hours, minutes);
+  end
+  return string.format("%dm", minutes);
+end
+
+local commands = {};
+
+commands.help = function(room, bot)
+  local names = {};
+  for name in pairs(commands) do
+    if name ~= "socials" or (type(bot.socials) == "table" and #bot.socials > 0) then
+      table.insert(names, "!" .. name);
+    end
+  end
+  table.sort(names);
+  say(room, bot, "Available commands: " .. table.concat(names, ", "));
+end
+
+commands.socials = function(room, bot)
+  if type(bot.socials) ~= "table" or #bot.socials == 0 then
+    return;
+  end
+  say(room, bot, table.concat(bot.socials, "\n"));
+end
+
+commands.uptime = function(room, bot)
+  if not uptime_url then
+    return;
+  end
+  local url = uptime_url .. "&room=" .. urlencode(jid_node(room.jid));
+  http.request(url, nil, function(body, code)
+    -- On connection errors, code is not a number.
+    if type(code) ~= "number" or math.floor(code / 100) ~= 2 then
+      module:log("warn", "Failed to get the uptime for room %s: %s %s", room.jid, code, body);
+      say(room, bot, "The uptime is unavailable.");
+      return;
+    end
+    local result = json.decode(body);
+    if type(result) ~= "table" then
+      module:log("warn", "Failed to parse the uptime for room %s: %s", room.jid, body);
+      say(room, bot, "The uptime is unavailable.");
+      return;
+    end
+    if not result.live then
+      say(room, bot, "The live is not streaming.");
+      return;
+    end
+    if type(result.uptime) ~= "number" then
+      say(room, bot, "The live is streaming.");
+      return;
+    end
+    say(room, bot, "The live has been streaming for " .. format_duration(result.uptime) .. ".");
+  end);
+end
+
+-- Low priority: commands blocked by other modules (slow mode, filters, ...) are ignored.
+module:hook("muc-occupant-groupchat", function(event)
+  local room = event.room;
+  local bot = get_room_bot(room);
+  if not bot then
+    return;
+  end
+  local body = event.stanza:get_child_text("body");
+  if not body then
+    return;
+  end
+  local name = body:match("^!(%w+)%s*$");
+  local command = name and commands[name:lower()];
+  if not command then
+    return;
+  end
+  -- The answer must come after the command message, that is not broadcasted yet.
+  module:add_timer(0, function()
+    command(room, bot);
+  end);
+end, -30);
+
+module:hook("muc-occupant-joined", function(event)
+  local room = event.room;
+  local bot = get_room_bot(room);
+  if not bot or type(bot.welcomeMessage) ~= "string" or bot.welcomeMessage == "" then
+    return;
+  end
+  local to = event.stanza.attr.from;
+  module:add_timer(0, function()
+    whisper(room, bot, to, bot.welcomeMessage);
+  end);
+end);
+
+-- Nobody can use the bot nickname, that is also used by the Peertube plugin to post announcements
+-- (the announcer field of the room settings). It is reserved even if the bot is disabled.
+local function check_nickname(event)
+  local room, stanza = event.room, event.stanza;
+  local reserved = mod_channels.get_room_settings(room).announcer;
+  if type(reserved) ~= "string" or not event.occupant then
+    return;
+  end
+  local nick = jid_resource(event.occupant.nick);
+  if nick and nick:lower() == reserved:lower() then
+    module:log("debug", "Rejecting %s, using the bot nickname in room %s", stanza.attr.from, room.jid);
+    event.origin.send(st.error_reply(stanza, "cancel", "conflict", nil, room.jid));
+    return true;
+  end
+end
+module:hook("muc-occupant-pre-join", check_nickname, 10);
+module:hook("muc-occupant-pre-change", check_nickname, 10);
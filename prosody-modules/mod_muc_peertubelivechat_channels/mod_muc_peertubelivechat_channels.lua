@@ -0,0 +1,146 @@
+local http = require "net.http";
+local json = require "util.json";
+local async = require "util.async";
+local st = require "util.stanza";
+local jid_node = require "util.jid".node;
+local jid_host = require "util.jid".host;
+local urlencode = require "util.http".urlencode;
+local time_now = os.time;
+
+module:depends"muc";
+
+local api_url = assert(
+  module:get_option_string("peertubelivechat_channels_api_url", nil),
+  "'peertubelivechat_channels_api_url' is a required option"
+);
+local apikey = module:get_option_string("peertubelivechat_channels_apikey", "");
+local anonymous_host = module:get_option_string("peertubelivechat_channels_anonymous_host", nil);
+
+-- Settings are cached, and invalidated by the Peertube plugin when channel settings change.
+local cache_expiry = 3600;
+-- When the API call fails, we retry sooner.
+local error_cache_expiry = 60;
+
+-- Cached settings, by room jid: { settings = {...}; expires = timestamp }
+local cache = {};
+-- Callbacks waiting for a pending API call, by room jid.
+local pending = {};
+-- Incremented at each invalidation, so that responses of pending API calls are not cached if they may be outdated.
+local generation = 0;
+
+local function fetch_room_settings(room_jid, callback)
+  if pending[room_jid] then
+    table.insert(pending[room_jid], callback);
+    return;
+  end
+  pending[room_jid] = { callback };
+  local request_generation = generation;
+
+  local url = api_url .. "&room=" .. urlencode(jid_node(room_jid));
+  http.request(url, nil, function(body, code)
+    local settings, expiry;
+    if math.floor(code / 100) == 2 then
+      settings = json.decode(body);
+      expiry = cache_expiry;
+    end
+    if type(settings) ~= "table" then
+      module:log("warn", "Failed to get settings for room %s: %s %s", room_jid, code, body);
+      settings = {};
+      expiry = error_cache_expiry;
+    end
+    -- JSON null values are decoded as json.null, removing them so that other modules can just test fields.
+    for key, value in pairs(settings) do
+      if value == json.null then
+        settings[key] = nil;
+      end
+    end
+    if request_generation ~= generation then
+      expiry = 0;
+    end
+    cache[room_jid] = { settings = settings; expires = time_now() + expiry };
+
+    local callbacks = pending[room_jid];
+    pending[room_jid] = nil;
+    for _, cb in ipairs(callbacks) do
+      cb(settings);
+    end
+  end);
+end
+
+-- Returns the channel settings that apply to the room (see the plugin API for the structure).
+-- When called from an async context (stanza handlers), waits for the API response if needed.
+-- Otherwise, returns the cached value (or an empty table), and refreshes it in the background.
+function get_room_settings(room)
+  local entry = cache[room.jid];
+  if entry and entry.expires > time_now() then
+    return entry.settings;
+  end
+  if not async.ready() then
+    fetch_room_settings(room.jid, function() end);
+    return entry and entry.settings or {};
+  end
+  local wait, done = async.waiter();
+  local result;
+  fetch_room_settings(room.jid, function(settings)
+    result = settings;
+    done();
+  end);
+  wait();
+  return result;
+end
+
+module:hook("muc-room-destroyed", function(event)
+  cache[event.room.jid] = nil;
+end);
+
+-- Channels can forbid anonymous users.
+-- This is also checked by the Peertube frontend, but we must enforce it for other clients.
+module:hook("muc-occupant-pre-join", function(event)
+  local room, stanza = event.room, event.stanza;
+  if not anonymous_host or jid_host(stanza.attr.from) ~= anonymous_host then
+    return;
+  end
+  if get_room_settings(room).noAnonymous then
+    module:log("debug", "Rejecting anonymous user %s in room %s", stanza.attr.from, room.jid);
+    event.origin.send(st.error_reply(
+      stanza, "auth", "registration-required", "Anonymous users are not allowed in this room.", room.jid
+    ));
+    return true;
+  end
+end, 20);
+
+-- HTTP API, so that the Peertube plugin can invalidate the cache when channel settings change.
+module:depends"http";
+
+local function invalidate(event)
+  if apikey == "" then
+    return 500;
+  end
+  if event.request.headers.authorization ~= "Bearer " .. apikey then
+    return 401;
+  end
+  local data = json.decode(event.request.body or "");
+  if type(data) ~= "table" or type(data.channel) ~= "number" then
+    return 400;
+  end
+
+  generation = generation + 1;
+  local invalidated = 0;
+  for room_jid, entry in pairs(cache) do
+    if entry.settings.channel == data.channel then
+      cache[room_jid] = nil;
+      invalidated = invalidated + 1;
+    end
+  end
+  module:log("debug", "Invalidated settings of %d rooms for channel %d", invalidated, data.channel);
+
+  event.response.headers["Content-Type"] = "application/json";
+  return json.encode({ ok = true; invalidated = invalidated });
+end
+
+module:provides("http", {
+  name = "peertubelivechat_channels";
+  route = {
+    ["POST /invalidate"] = invalidate;
+  };
+});
@@ -0,0 +1,182 @@
+local json = require "util.json";
+local st = require "util.stanza";
+local id = require "util.id";
+local jid_bare = require "util.jid".bare;
+local utf8_length = require "util.encodings".utf8.length;
+local new_cache = require "util.cache".new;
+local regex = module:require "regex";
+
+module:depends"muc";
+-- Channel filters come with the room settings.
+local mod_channels = module:depends"muc_peertubelivechat_channels";
+
+local filters_config;
+
+local function get_filters_config()
+  if filters_config == nil then
+    local raw = module:get_option_string("peertubelivechat_filters", "{}");
+    local config, err = json.decode(raw);
+    if type(config) ~= "table" then
+      module:log("error", "Invalid peertubelivechat_filters option: %s", err);
+      config = {};
+    end
+    filters_config = config;
+  end
+  return filters_config;
+end
+
+-- Instance filters are changed by rewriting the configuration and reloading Prosody.
+module:hook_global("config-reloaded", function()
+  filters_config = nil;
+end);
+
+local function get_room_rulesets(room)
+  local config = get_filters_config();
+  local rulesets = {};
+  if type(config.instance) == "table" then
+    table.insert(rulesets, config.instance);
+  end
+  local channel_rules = mod_channels.get_room_settings(room).filters;
+  if type(channel_rules) == "table" then
+    table.insert(rulesets, channel_rules);
+  end
+  return rulesets;
+end
+
+-- Compiled regular expressions, by pattern.
+local compiled_patterns = new_cache(1000);
+
+local function find_pattern(pattern, body)
+  local compiled = compiled_patterns:get(pattern);
+  if compiled == nil then
+    local err;
+    compiled, err = regex.compile(pattern);
+    if not compiled then
+      module:log("warn", "Invalid chat filter pattern %q: %s", pattern, err);
+      compiled = false;
+    end
+    compiled_patterns:set(pattern, compiled);
+  end
+  if not compiled then
+    return false;
+  end
+  local found, err = regex.find(compiled, body);
+  if found == nil then
+    module:log("warn", "Chat filter pattern %q ignored for a message: %s", pattern, err);
+    return false;
+  end
+  return found;
+end
+
+local function escape_pattern(s)
+  return (s:gsub("[%^%$%(%)%%%.%[%]%*%+%-%?]", "%%%0"));
+end
+
+-- Returns the reason if the message does not pass the rules, else nil.
+local function check_rules(rules, body)
+  local lower = body:lower();
+
+  local max_length = tonumber(rules.maxLength) or 0;
+  if max_length > 0 and (utf8_length(body) or #body) > max_length then
+    return "Your message is too long.";
+  end
+
+  if rules.blockLinks and (lower:find("https?://") or lower:find("www%.")) then
+    return "Links are not allowed.";
+  end
+
+  local max_caps_ratio = tonumber(rules.maxCapsRatio) or 0;
+  if max_caps_ratio > 0 then
+    local _, letters = body:gsub("%a", "");
+    if letters >= 10 then
+      local _, caps = body:gsub("%u", "");
+      if caps * 100 / letters > max_caps_ratio then
+        return "Your message contains too many capital letters.";
+      end
+    end
+  end
+
+  for _, word in ipairs(rules.forbiddenWords or {}) do
+    local pattern = escape_pattern(word);
+    -- only matching whole words
+    if word:match("^%w") then
+      pattern = "%f[%w]" .. pattern;
+    end
+    if word:match("%w$") then
+      pattern = pattern .. "%f[%W]";
+    end
+    if lower:find(pattern) then
+      return "Your message contains a forbidden word.";
+    end
+  end
+
+  for _, pattern in ipairs(rules.patterns or {}) do
+    if find_pattern(pattern, body) then
+      return "Your message is not allowed.";
+    end
+  end
+
+  return nil;
+end
+
+local function send_warning(room, stanza, text)
+  local warning = st.message({
+    type = "groupchat";
+    from = room.jid;
+    to = stanza.attr.from;
+    id = id.medium();
+  }):text_tag("body", text);
+  room:route_stanza(warning);
+end
+
+local function count_offence(room, bare_jid)
+  local offences = room._peertubelivechat_filters_offences;
+  if not offences then
+    offences = {};
+    room._peertubelivechat_filters_offences = offences;
+  end
+  offences[bare_jid] = (offences[bare_jid] or 0) + 1;
+  return offences[bare_jid];
+end
+
+local function apply_action(room, occupant, stanza, rules, reason)
+  local action = rules.action or "block";
+  if action == "block" then
+    room:route_stanza(st.error_reply(stanza, "modify", "policy-violation", reason, room.jid));
+    return;
+  end
+
+  send_warning(room, stanza, "Your message was removed by the automatic moderation: " .. reason);
+  if action ~= "kick" then
+    return;
+  end
+
+  local bare_jid = jid_bare(occupant.bare_jid or stanza.attr.from);
+  local kick_after = tonumber(rules.kickAfter) or 3;
+  if count_offence(room, bare_jid) >= kick_after then
+    module:log("info", "Kicking %s from room %s: too many offences", occupant.nick, room.jid);
+    room._peertubelivechat_filters_offences[bare_jid] = nil;
+    room:set_role(true, occupant.nick, "none", "Kicked by the automatic moderation: too many offences.");
+  end
+end
+
+module:hook("muc-occupant-groupchat", function(event)
+  local room, occupant, stanza = event.room, event.occupant, event.stanza;
+  if not occupant or occupant.role == "moderator" then
+    -- moderators are not concerned by the filters.
+    return;
+  end
+  local body = stanza:get_child_text("body");
+  if not body then
+    return;
+  end
+
+  for _, rules in ipairs(get_room_rulesets(room)) do
+    local reason = check_rules(rules, body);
+    if reason then
+      module:log("debug", "Message from %s in room %s rejected by chat filters: %s", occupant.nick, room.jid, reason);
+      apply_action(room, occupant, stanza, rules, reason);
+      return true;
+    end
+  end
+end, 25);
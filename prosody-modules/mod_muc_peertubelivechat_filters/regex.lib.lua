@@ -0,0 +1,420 @@
+-- Minimal regular expressions engine for the chat filters (Lua has no regular expressions).
+-- Supported syntax (a subset of Javascript regular expressions, as validated by the Peertube plugin):
+--   * literals, and escaped special characters (\. \* \( ...), \n \r \t \f \v,
+--   * . (any character, except line terminators),
+--   * character classes: [abc], [^a-z], \d \w \s and their negations \D \W \S,
+--   * anchors: ^, $, word boundaries \b and \B,
+--   * groups (...) and (?:...), alternation |,
+--   * quantifiers * + ? {n} {n,} {n,m} (n and m up to 1000), and their lazy versions (*? ...).
+-- Matching is done on unicode code points, and is case insensitive.
+-- Backtracking is limited, so that a pattern can't freeze the server.
+
+local max_steps = 100000;
+local max_repeat = 1000;
+
+-- Case folding for the most common alphabets (ASCII, Latin-1, Latin Extended-A, Greek and Cyrillic).
+local function lower(cp)
+  if (cp >= 65 and cp <= 90) or (cp >= 0xC0 and cp <= 0xDE and cp ~= 0xD7)
+    or (cp >= 0x391 and cp <= 0x3AB and cp ~= 0x3A2) or (cp >= 0x410 and cp <= 0x42F) then
+    return cp + 32;
+  elseif cp >= 0x400 and cp <= 0x40F then
+    return cp + 80;
+  elseif ((cp >= 0x100 and cp <= 0x137) or (cp >= 0x14A and cp <= 0x177)) and cp % 2 == 0 then
+    return cp + 1;
+  end
+  return cp;
+end
+
+local function upper(cp)
+  if (cp >= 97 and cp <= 122) or (cp >= 0xE0 and cp <= 0xFE and cp ~= 0xF7)
+    or (cp >= 0x3B1 and cp <= 0x3CB and cp ~= 0x3C2) or (cp >= 0x430 and cp <= 0x44F) then
+    return cp - 32;
+  elseif cp >= 0x450 and cp <= 0x45F then
+    return cp - 80;
+  elseif ((cp >= 0x100 and cp <= 0x137) or (cp >= 0x14A and cp <= 0x177)) and cp % 2 == 1 then
+    return cp - 1;
+  end
+  return cp;
+end
+
+-- Decodes an UTF-8 string to a list of code points. Invalid bytes are kept as is.
+local function decode(s)
+  local cps = {};
+  local i, n = 1, #s;
+  while i <= n do
+    local c = s:byte(i);
+    local len, cp = 1, c;
+    if c >= 0xC0 and c < 0xE0 then
+      len, cp = 2, c % 0x20;
+    elseif c >= 0xE0 and c < 0xF0 then
+      len, cp = 3, c % 0x10;
+    elseif c >= 0xF0 and c < 0xF8 then
+      len, cp = 4, c % 0x08;
+    end
+    if len > 1 then
+      for j = i + 1, i + len - 1 do
+        local b = s:byte(j);
+        if not b or b < 0x80 or b >= 0xC0 then
+          len, cp = 1, c;
+          break;
+        end
+        cp = cp * 64 + b % 64;
+      end
+    end
+    cps[#cps + 1] = cp;
+    i = i + len;
+  end
+  return cps;
+end
+
+local function is_digit(cp)
+  return cp >= 48 and cp <= 57;
+end
+
+local function is_word(cp)
+  return is_digit(cp) or (cp >= 97 and cp <= 122) or (cp >= 65 and cp <= 90) or cp == 95;
+end
+
+local function is_space(cp)
+  return cp == 32 or (cp >= 9 and cp <= 13) or cp == 0xA0 or cp == 0x1680 or (cp >= 0x2000 and cp <= 0x200A)
+    or cp == 0x2028 or cp == 0x2029 or cp == 0x202F or cp == 0x205F or cp == 0x3000 or cp == 0xFEFF;
+end
+
+local function is_line_terminator(cp)
+  return cp == 10 or cp == 13 or cp == 0x2028 or cp == 0x2029;
+end
+
+local classes = { d = is_digit; w = is_word; s = is_space };
+local control_escapes = { n = 10; r = 13; t = 9; f = 12; v = 11 };
+
+-- Parses the pattern. Throws an error if the pattern is invalid.
+local function parse(pattern)
+  local p = decode(pattern);
+  local pos = 1;
+  local parse_alternation;
+
+  local function fail(message)
+    error(message .. " at position " .. pos, 0);
+  end
+
+  -- pos is after the backslash.
+  local function parse_escape(in_set)
+    local c = p[pos];
+    if not c then
+      fail("pattern ends with \\");
+    end
+    pos = pos + 1;
+    local ch = c < 128 and string.char(c) or nil;
+    if ch and classes[ch] then
+      return { type = "class"; test = classes[ch]; negate = false };
+    elseif ch and classes[ch:lower()] then
+      return { type = "class"; test = classes[ch:lower()]; negate = true };
+    elseif ch and control_escapes[ch] then
+      return { type = "char"; cp = control_escapes[ch] };
+    elseif not in_set and (ch == "b" or ch == "B") then
+      return { type = "word_boundary"; negate = ch == "B" };
+    elseif ch and ch:match("%w") then
+      fail("unsupported escape \\" .. ch);
+    end
+    return { type = "char"; cp = lower(c) };
+  end
+
+  -- pos is after the [.
+  local function parse_set()
+    local node = { type = "set"; negate = false; ranges = {}; classes = {} };
+    if p[pos] == 94 then -- ^
+      node.negate = true;
+      pos = pos + 1;
+    end
+    while true do
+      local c = p[pos];
+      if not c then
+        fail("missing ]");
+      end
+      pos = pos + 1;
+      if c == 93 then -- ]
+        break;
+      end
+      local item = c == 92 and parse_escape(true) or { type = "char"; cp = c };
+      if item.type == "class" then
+        table.insert(node.classes, item);
+      else
+        local from, to = item.cp, item.cp;
+        if p[pos] == 45 and p[pos + 1] and p[pos + 1] ~= 93 then -- range, like a-z
+          pos = pos + 1;
+          local c2 = p[pos];
+          pos = pos + 1;
+          local item2 = c2 == 92 and parse_escape(true) or { type = "char"; cp = c2 };
+          if item2.type == "class" then
+            -- like Javascript, [a-\d] means a, - or a digit.
+            table.insert(node.ranges, { 45, 45 });
+            table.insert(node.classes, item2);
+          elseif item2.cp < from then
+            fail("invalid range");
+          else
+            to = item2.cp;
+          end
+        end
+        table.insert(node.ranges, { from, to });
+      end
+    end
+    return node;
+  end
+
+  -- Parses {n}, {n,} or {n,m} at index i. Returns min, max (nil if unbounded) and the next index,
+  -- or nil if this is not a quantifier (the { is then a literal).
+  local function parse_braces(i)
+    local j = i + 1;
+    local function number()
+      local start, n = j, 0;
+      while p[j] and is_digit(p[j]) do
+        n = n * 10 + p[j] - 48;
+        j = j + 1;
+      end
+      if j == start then
+        return nil;
+      end
+      return n;
+    end
+    local min = number();
+    if not min then
+      return nil;
+    end
+    local max = min;
+    if p[j] == 44 then -- ,
+      j = j + 1;
+      max = number();
+    end
+    if p[j] ~= 125 then -- }
+      return nil;
+    end
+    return min, max, j + 1;
+  end
+
+  local function parse_atom()
+    local c = p[pos];
+    if c == 42 or c == 43 or c == 63 or (c == 123 and parse_braces(pos)) then -- * + ? {n}
+      fail("nothing to repeat");
+    end
+    pos = pos + 1;
+    if c == 46 then -- .
+      return { type = "any" };
+    elseif c == 94 then -- ^
+      return { type = "start" };
+    elseif c == 36 then -- $
+      return { type = "end" };
+    elseif c == 92 then -- \
+      return parse_escape(false);
+    elseif c == 91 then -- [
+      return parse_set();
+    elseif c == 40 then -- (
+      if p[pos] == 63 then -- ?
+        if p[pos + 1] ~= 58 then -- :
+          fail("unsupported group");
+        end
+        pos = pos + 2;
+      end
+      local node = parse_alternation();
+      if p[pos] ~= 41 then -- )
+        fail("missing )");
+      end
+      pos = pos + 1;
+      return node;
+    end
+    return { type = "char"; cp = lower(c) };
+  end
+
+  local function parse_quantifier(atom)
+    local c = p[pos];
+    local min, max;
+    if c == 42 then -- *
+      min, max = 0, nil;
+      pos = pos + 1;
+    elseif c == 43 then -- +
+      min, max = 1, nil;
+      pos = pos + 1;
+    elseif c == 63 then -- ?
+      min, max = 0, 1;
+      pos = pos + 1;
+    elseif c == 123 then -- {
+      local next_pos;
+      min, max, next_pos = parse_braces(pos);
+      if not min then
+        return atom;
+      end
+      pos = next_pos;
+    else
+      return atom;
+    end
+    if atom.type == "start" or atom.type == "end" or atom.type == "word_boundary" then
+      fail("nothing to repeat");
+    end
+    if max and max < min then
+      fail("numbers out of order in quantifier");
+    end
+    if min > max_repeat or (max and max > max_repeat) then
+      fail("quantifier too large");
+    end
+    local lazy = false;
+    if p[pos] == 63 then -- ?
+      lazy = true;
+      pos = pos + 1;
+    end
+    return { type = "repeat"; node = atom; min = min; max = max; lazy = lazy };
+  end
+
+  local function parse_sequence()
+    local sequence = {};
+    while p[pos] and p[pos] ~= 124 and p[pos] ~= 41 do -- | )
+      sequence[#sequence + 1] = parse_quantifier(parse_atom());
+    end
+    return sequence;
+  end
+
+  function parse_alternation()
+    local alternatives = { parse_sequence() };
+    while p[pos] == 124 do -- |
+      pos = pos + 1;
+      alternatives[#alternatives + 1] = parse_sequence();
+    end
+    return { type = "group"; alternatives = alternatives };
+  end
+
+  local root = parse_alternation();
+  if p[pos] then
+    fail("unexpected )");
+  end
+  return root;
+end
+
+local function set_contains(set, cp)
+  local other = cp == lower(cp) and upper(cp) or lower(cp);
+  for _, range in ipairs(set.ranges) do
+    if (cp >= range[1] and cp <= range[2]) or (other >= range[1] and other <= range[2]) then
+      return true;
+    end
+  end
+  for _, class in ipairs(set.classes) do
+    if class.test(cp) ~= class.negate then
+      return true;
+    end
+  end
+  return false;
+end
+
+local budget_exceeded = {};
+
+-- Searches the compiled pattern in the code points list s.
+-- Nodes are matched with continuations (k), so that backtracking can explore all alternatives.
+local function search(root, s)
+  local n = #s;
+  local steps = 0;
+  local match_node;
+
+  local function match_sequence(sequence, i, pos, k)
+    if i > #sequence then
+      return k(pos);
+    end
+    return match_node(sequence[i], pos, function (next_pos)
+      return match_sequence(sequence, i + 1, next_pos, k);
+    end);
+  end
+
+  local function match_repeat(node, pos, count, k)
+    local function more()
+      if node.max and count >= node.max then
+        return false;
+      end
+      return match_node(node.node, pos, function (next_pos)
+        if next_pos == pos and count >= node.min then
+          -- empty iteration, stopping here to avoid infinite loops.
+          return false;
+        end
+        return match_repeat(node, next_pos, count + 1, k);
+      end);
+    end
+    if count < node.min then
+      return more();
+    end
+    if node.lazy then
+      return k(pos) or more();
+    end
+    return more() or k(pos);
+  end
+
+  function match_node(node, pos, k)
+    steps = steps + 1;
+    if steps > max_steps then
+      error(budget_exceeded, 0);
+    end
+    local t = node.type;
+    local c = s[pos];
+    if t == "char" then
+      return c == node.cp and k(pos + 1);
+    elseif t == "any" then
+      return c ~= nil and not is_line_terminator(c) and k(pos + 1);
+    elseif t == "class" then
+      return c ~= nil and node.test(c) ~= node.negate and k(pos + 1);
+    elseif t == "set" then
+      return c ~= nil and set_contains(node, c) ~= node.negate and k(pos + 1);
+    elseif t == "start" then
+      return pos == 1 and k(pos);
+    elseif t == "end" then
+      return pos == n + 1 and k(pos);
+    elseif t == "word_boundary" then
+      local before = pos > 1 and is_word(s[pos - 1]);
+      local after = pos <= n and is_word(s[pos]);
+      return (before ~= after) ~= node.negate and k(pos);
+    elseif t == "group" then
+      for _, sequence in ipairs(node.alternatives) do
+        if match_sequence(sequence, 1, pos, k) then
+          return true;
+        end
+      end
+      return false;
+    elseif t == "repeat" then
+      return match_repeat(node, pos, 0, k);
+    end
+    return false;
+  end
+
+  local function found()
+    return true;
+  end
+  for start = 1, n + 1 do
+    if match_node(root, start, found) then
+      return true;
+    end
+  end
+  return false;
+end
+
+local regex = {};
+
+-- Compiles a pattern. Returns the compiled pattern, or nil and an error message if the pattern is invalid.
+function regex.compile(pattern)
+  local ok, result = pcall(parse, pattern);
+  if not ok then
+    return nil, result;
+  end
+  return { root = result };
+end
+
+-- Returns true if the compiled pattern matches somewhere in the string, false otherwise.
+-- Returns nil and an error message if the match was aborted (too much backtracking).
+function regex.find(compiled, str)
+  local s = decode(str);
+  for i, cp in ipairs(s) do
+    s[i] = lower(cp);
+  end
+  local ok, result = pcall(search, compiled.root, s);
+  if not ok then
+    if result == budget_exceeded then
+      return nil, "too much backtracking";
+    end
+    return nil, tostring(result);
+  end
+  return result;
+end
+
+return regex;
@@ -0,0 +1,125 @@
+local http = require "net.http";
+local json = require "util.json";
+local jid_bare = require "util.jid".bare;
+local jid_split = require "util.jid".split;
+
+local mod_muc = module:depends"muc";
+local muc_log_archive = module:open_store("muc_log", "archive");
+
+local moderation_log_url = module:get_option_string("peertubelivechat_moderation_log_url", nil);
+if not moderation_log_url then
+  module:log("error", "Missing peertubelivechat_moderation_log_url option, moderation actions will not be logged.");
+end
+
+local function report(room, action, actor, target, reason, details)
+  if not moderation_log_url then
+    return;
+  end
+  local entry = {
+    room = room.jid;
+    action = action;
+    actor = actor;
+    target = target;
+    reason = reason;
+    details = details;
+    timestamp = os.time();
+  };
+  module:log("debug", "Reporting moderation action %s on %s in room %s", action, target, room.jid);
+  http.request(moderation_log_url, {
+    method = "POST";
+    body = json.encode(entry);
+    headers = { ["Content-Type"] = "application/json" };
+  }, function (body, code)
+    if math.floor(code / 100) ~= 2 then
+      module:log("warn", "Failed to report moderation action to %s: %s %s", moderation_log_url, code, body);
+    end
+  end);
+end
+
+-- Returns true if the stanza sender is a moderator of the room.
+local function is_moderator(room, actor)
+  local occupant = room:get_occupant_by_real_jid(actor);
+  return occupant and occupant.role == "moderator";
+end
+
+-- Bans and affiliation changes.
+module:hook("muc-set-affiliation", function(event)
+  local actor = event.actor;
+  if actor == true or actor == nil then
+    -- changes made by the server itself.
+    return;
+  end
+  if event.affiliation == event.previous_affiliation then
+    return;
+  end
+  if event.affiliation == "outcast" then
+    report(event.room, "ban", jid_bare(actor), event.jid, event.reason, nil);
+  else
+    report(event.room, "affiliation", jid_bare(actor), event.jid, event.reason, event.affiliation);
+  end
+end);
+
+-- Kicks and role changes.
+-- mod_muc handles this IQ with priority -2, so this hook is called before the change.
+module:hook("iq-set/bare/http://jabber.org/protocol/muc#admin:query", function(event)
+  local stanza = event.stanza;
+  local room = mod_muc.get_room_from_jid(stanza.attr.to);
+  if not room then
+    return;
+  end
+  local actor = stanza.attr.from;
+  if not is_moderator(room, actor) then
+    -- the request will be rejected by mod_muc.
+    return;
+  end
+  for item in stanza.tags[1]:childtags("item") do
+    local role, nick = item.attr.role, item.attr.nick;
+    if role and nick then
+      local reason = item:get_child_text("reason");
+      local occupant = room:get_occupant_by_nick(room.jid .. "/" .. nick);
+      if occupant and occupant.role ~= role then
+        if role == "none" then
+          report(room, "kick", jid_bare(actor), nick, reason, nil);
+        else
+          report(room, "role", jid_bare(actor), nick, reason, role);
+        end
+      end
+    end
+  end
+end, 1);
+
+-- Message retractions (XEP-0425).
+-- mod_muc_moderation replaces the message by a tombstone, so the author must be read before.
+module:hook("iq-set/bare/urn:xmpp:fasten:0:apply-to", function(event)
+  local stanza = event.stanza;
+  local apply_to = stanza.tags[1];
+  local moderate_tag = apply_to:get_child("moderate", "urn:xmpp:message-moderate:0");
+  if not moderate_tag or not apply_to.attr.id then
+    return;
+  end
+  local room = mod_muc.get_room_from_jid(stanza.attr.to);
+  if not room then
+    return;
+  end
+  local actor = stanza.attr.from;
+  if not is_moderator(room, actor) then
+    return;
+  end
+
+  local stanza_id = apply_to.attr.id;
+  local target = stanza_id;
+  local room_node = jid_split(room.jid);
+  local ok, err = pcall(function ()
+    for i, item in muc_log_archive:find(room_node, { key = stanza_id, limit = 1 }) do
+      if i == stanza_id and item.attr.from then
+        local _, _, nick = jid_split(item.attr.from);
+        target = nick or target;
+      end
+    end
+  end);
+  if not ok then
+    module:log("debug", "Failed to retrieve the retracted message author: %s", err);
+  end
+
+  report(room, "retract", jid_bare(actor), target, moderate_tag:get_child_text("reason"), "message " .. stanza_id);
+end, 1);
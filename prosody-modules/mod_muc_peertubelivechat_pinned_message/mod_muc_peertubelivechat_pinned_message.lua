@@ -0,0 +1,94 @@
+local st = require "util.stanza";
+local id = require "util.id";
+local jid_bare = require "util.jid".bare;
+local jid_resource = require "util.jid".resource;
+local utf8_length = require "util.encodings".utf8.length;
+
+module:depends"muc";
+
+local xmlns_pinned = "urn:peertube-plugin-livechat:pinned";
+
+local max_length = module:get_option_number("pinned_message_max_length", 1000);
+
+local function pinned_message_stanza(room)
+  local msg = st.message({ type = "groupchat"; from = room.jid; id = id.medium() })
+    :tag("no-store", { xmlns = "urn:xmpp:hints" }):up();
+  local pinned = room._data.pinned_message;
+  if pinned then
+    msg:text_tag("pinned", pinned.text, { xmlns = xmlns_pinned; by = pinned.by; date = tostring(pinned.date) });
+  else
+    msg:tag("pinned", { xmlns = xmlns_pinned }):up();
+  end
+  return msg;
+end
+
+-- Only owners and admins can change the pinned message.
+local function can_pin(room, stanza)
+  local affiliation = room:get_affiliation(jid_bare(stanza.attr.from));
+  return affiliation == "owner" or affiliation == "admin";
+end
+
+local function set_pinned_message(room, occupant, text)
+  if text then
+    room._data.pinned_message = {
+      text = text;
+      by = jid_resource(occupant.nick) or "";
+      date = os.time();
+    };
+  else
+    room._data.pinned_message = nil;
+  end
+  room:save(true);
+  room:broadcast_message(pinned_message_stanza(room));
+end
+
+module:hook("muc-occupant-groupchat", function(event)
+  local room, occupant, stanza = event.room, event.occupant, event.stanza;
+  -- Only the room can send the pinned message: occupants must not be able to spoof it.
+  stanza:remove_children("pinned", xmlns_pinned);
+  if not occupant then
+    return;
+  end
+  local body = stanza:get_child_text("body");
+  if not body then
+    return;
+  end
+
+  local text = body:match("^/pin%s+(.+)$");
+  local unpin = body:match("^/unpin%s*$");
+  if not text and not unpin then
+    return;
+  end
+
+  if not can_pin(room, stanza) then
+    room:route_stanza(st.error_reply(
+      stanza, "auth", "forbidden", "Only room owners and admins can change the pinned message.", room.jid
+    ));
+    return true;
+  end
+
+  if text then
+    text = text:match("^%s*(.-)%s*$");
+    if (utf8_length(text) or #text) > max_length then
+      room:route_stanza(st.error_reply(
+        stanza, "modify", "not-acceptable", "The pinned message must not exceed " .. max_length .. " characters.", room.jid
+      ));
+      return true;
+    end
+    module:log("debug", "Pinning a message in room %s", room.jid);
+    set_pinned_message(room, occupant, text);
+  else
+    module:log("debug", "Removing the pinned message in room %s", room.jid);
+    set_pinned_message(room, occupant, nil);
+  end
+  return true;
+end, 30);
+
+-- Late joiners must get the current pinned message.
+module:hook("muc-occupant-joined", function(event)
+  local room, occupant = event.room, event.occupant;
+  if not occupant or not room._data.pinned_message then
+    return;
+  end
+  room:route_to_occupant(occupant, pinned_message_stanza(room));
+end);
@@ -0,0 +1,274 @@
+local http = require "net.http";
+local json = require "util.json";
+local st = require "util.stanza";
+local id = require "util.id";
+local jid_bare = require "util.jid".bare;
+local time_now = os.time;
+
+module:depends"muc";
+
+local xmlns_poll = "urn:peertube-plugin-livechat:poll";
+
+local polls_url = module:get_option_string("peertubelivechat_polls_url", nil);
+local default_duration = 60;
+local min_duration = 10;
+local max_duration = 3600;
+local max_choices = 10;
+local max_label_length = 1000;
+-- Minimum delay (in seconds) between two broadcasted results updates.
+local update_interval = 2;
+
+local function poll_element(poll)
+  local el = st.stanza("poll", {
+    xmlns = xmlns_poll;
+    id = poll.id;
+    ["end"] = tostring(poll.end_time);
+    over = poll.over and "true" or "false";
+    votes = tostring(poll.total);
+    version = tostring(poll.version);
+  });
+  el:text_tag("question", poll.question);
+  for i, label in ipairs(poll.choices) do
+    el:text_tag("choice", label, { id = tostring(i); votes = tostring(poll.votes[i]) });
+  end
+  return el;
+end
+
+local function poll_text(poll)
+  local lines = {};
+  if poll.over then
+    table.insert(lines, "Poll results: " .. poll.question);
+  else
+    table.insert(lines, "Poll: " .. poll.question);
+  end
+  for i, label in ipairs(poll.choices) do
+    if poll.over then
+      local percent = poll.total > 0 and math.floor(poll.votes[i] * 100 / poll.total + 0.5) or 0;
+      table.insert(lines, "!" .. i .. ": " .. label .. " (" .. poll.votes[i] .. " votes, " .. percent .. "%)");
+    else
+      table.insert(lines, "!" .. i .. ": " .. label);
+    end
+  end
+  if not poll.over then
+    table.insert(lines, "Send !<number> to vote. The poll ends in " .. (poll.end_time - poll.start_time) .. " seconds.");
+  end
+  return table.concat(lines, "\n");
+end
+
+-- Broadcasts the poll state. Intermediate states are not stored.
+local function broadcast_poll(room, poll, with_body)
+  local msg = st.message({ type = "groupchat"; from = room.jid; id = id.medium() });
+  if with_body then
+    msg:text_tag("body", poll_text(poll));
+  else
+    msg:tag("no-store", { xmlns = "urn:xmpp:hints" }):up();
+  end
+  msg:add_child(poll_element(poll));
+  room:broadcast_message(msg);
+end
+
+local function report_poll(room, poll)
+  if not polls_url then
+    return;
+  end
+  local choices = {};
+  for i, label in ipairs(poll.choices) do
+    table.insert(choices, { label = label; votes = poll.votes[i] });
+  end
+  http.request(polls_url, {
+    method = "POST";
+    body = json.encode({
+      room = room.jid;
+      id = poll.id;
+      question = poll.question;
+      choices = choices;
+      creator = poll.creator;
+      start = poll.start_time;
+      ["end"] = poll.end_time;
+    });
+    headers = { ["Content-Type"] = "application/json" };
+  }, function (body, code)
+    if math.floor(code / 100) ~= 2 then
+      module:log("warn", "Failed to report poll results to %s: %s %s", polls_url, code, body);
+    end
+  end);
+end
+
+local function end_poll(room, poll)
+  if poll.over then
+    return;
+  end
+  module:log("debug", "Ending poll %s in room %s", poll.id, room.jid);
+  poll.over = true;
+  poll.end_time = time_now();
+  poll.version = poll.version + 1;
+  room._peertubelivechat_poll = nil;
+  broadcast_poll(room, poll, true);
+  report_poll(room, poll);
+end
+
+local function schedule_update(room, poll)
+  if poll.update_pending then
+    return;
+  end
+  poll.update_pending = true;
+  module:add_timer(update_interval, function()
+    poll.update_pending = false;
+    if room._peertubelivechat_poll == poll then
+      broadcast_poll(room, poll, false);
+    end
+  end);
+end
+
+local function reply_error(room, stanza, condition, text)
+  room:route_stanza(st.error_reply(stanza, "modify", condition, text, room.jid));
+end
+
+-- Parses "/poll [duration] question | choice 1 | choice 2".
+local function parse_poll_command(args)
+  local duration = default_duration;
+  local value, rest = args:match("^(%d+)%s+(.+)$");
+  if value then
+    duration = tonumber(value);
+    args = rest;
+  end
+  local parts = {};
+  for part in (args .. "|"):gmatch("([^|]*)|") do
+    part = part:match("^%s*(.-)%s*$");
+    if part ~= "" then
+      table.insert(parts, part);
+    end
+  end
+  return duration, parts;
+end
+
+local function handle_poll_command(room, occupant, stanza, args)
+  if occupant.role ~= "moderator" then
+    room:route_stanza(st.error_reply(stanza, "auth", "forbidden", "Only moderators can create polls.", room.jid));
+    return;
+  end
+  if room._peertubelivechat_poll then
+    reply_error(room, stanza, "conflict", "A poll is already running. Use /endpoll to end it.");
+    return;
+  end
+  local duration, parts = parse_poll_command(args);
+  if duration < min_duration or duration > max_duration then
+    reply_error(room, stanza, "not-acceptable",
+      "The poll duration must be between " .. min_duration .. " and " .. max_duration .. " seconds.");
+    return;
+  end
+  local question = table.remove(parts, 1);
+  if not question or #parts < 2 or #parts > max_choices then
+    reply_error(room, stanza, "not-acceptable",
+      "Usage: /poll [duration] question | choice 1 | choice 2 (2 to " .. max_choices .. " choices).");
+    return;
+  end
+  for _, part in ipairs(parts) do
+    if #part > max_label_length then
+      reply_error(room, stanza, "not-acceptable", "Poll choices are too long.");
+      return;
+    end
+  end
+  if #question > max_label_length then
+    reply_error(room, stanza, "not-acceptable", "The poll question is too long.");
+    return;
+  end
+
+  local now = time_now();
+  local poll = {
+    id = id.medium();
+    question = question;
+    choices = parts;
+    votes = {};
+    voters = {};
+    total = 0;
+    creator = jid_bare(occupant.bare_jid or stanza.attr.from);
+    start_time = now;
+    end_time = now + duration;
+    version = 1;
+    over = false;
+  };
+  for i in ipairs(parts) do
+    poll.votes[i] = 0;
+  end
+  module:log("debug", "Starting poll %s in room %s", poll.id, room.jid);
+  room._peertubelivechat_poll = poll;
+  broadcast_poll(room, poll, true);
+  module:add_timer(duration, function()
+    if room._peertubelivechat_poll == poll then
+      end_poll(room, poll);
+    end
+  end);
+end
+
+local function handle_vote(room, occupant, stanza, poll, choice)
+  if not poll.votes[choice] then
+    reply_error(room, stanza, "not-acceptable", "There is no choice " .. choice .. " in this poll.");
+    return;
+  end
+  local voter = jid_bare(occupant.bare_jid or stanza.attr.from);
+  if poll.voters[voter] then
+    reply_error(room, stanza, "not-acceptable", "You have already voted.");
+    return;
+  end
+  poll.voters[voter] = choice;
+  poll.votes[choice] = poll.votes[choice] + 1;
+  poll.total = poll.total + 1;
+  poll.version = poll.version + 1;
+  schedule_update(room, poll);
+end
+
+-- This must be called before the slow mode and the chat filters, so that votes are not concerned.
+module:hook("muc-occupant-groupchat", function(event)
+  local room, occupant, stanza = event.room, event.occupant, event.stanza;
+  -- Only the room can send polls: occupants must not be able to spoof them.
+  stanza:remove_children("poll", xmlns_poll);
+  if not occupant then
+    return;
+  end
+  local body = stanza:get_child_text("body");
+  if not body then
+    return;
+  end
+
+  local args = body:match("^/poll%s+(.+)$");
+  if args then
+    handle_poll_command(room, occupant, stanza, args);
+    return true;
+  end
+
+  if body:match("^/endpoll%s*$") then
+    if occupant.role ~= "moderator" then
+      room:route_stanza(st.error_reply(stanza, "auth", "forbidden", "Only moderators can end polls.", room.jid));
+    elseif not room._peertubelivechat_poll then
+      reply_error(room, stanza, "item-not-found", "There is no running poll.");
+    else
+      end_poll(room, room._peertubelivechat_poll);
+    end
+    return true;
+  end
+
+  local poll = room._peertubelivechat_poll;
+  local choice = poll and body:match("^!(%d+)%s*$");
+  if choice then
+    handle_vote(room, occupant, stanza, poll, tonumber(choice));
+    return true;
+  end
+end, 30);
+
+-- Sending the current poll state to new occupants.
+module:hook("muc-occupant-joined", function(event)
+  local room, occupant = event.room, event.occupant;
+  local poll = room._peertubelivechat_poll;
+  if not poll or not occupant then
+    return;
+  end
+  local msg = st.message({ type = "groupchat"; from = room.jid; id = id.medium() })
+    :tag("no-store", { xmlns = "urn:xmpp:hints" }):up();
+  msg:add_child(poll_element(poll));
+  room:route_to_occupant(occupant, msg);
+end);
+
+module:hook("muc-room-destroyed", function(event)
+  event.room._peertubelivechat_poll = nil;
+end);
@@ -0,0 +1,119 @@
+local http = require "net.http";
+local json = require "util.json";
+local sha1 = require "util.hashes".sha1;
+local jid_host = require "util.jid".host;
+local time_now = os.time;
+
+local mod_muc = module:depends"muc";
+
+local stats_url = module:get_option_string("peertubelivechat_stats_url", nil);
+local anonymous_host = module:get_option_string("peertubelivechat_stats_anonymous_host", nil);
+-- Duration (in seconds) of each sample.
+local sample_interval = module:get_option_number("peertubelivechat_stats_interval", 60);
+
+if not stats_url then
+  module:log("error", "Missing peertubelivechat_stats_url option, rooms statistics will not be reported.");
+end
+
+-- Current samples, by room jid.
+local samples = {};
+
+local function count_occupants(room)
+  local count = 0;
+  for _ in room:each_occupant() do
+    count = count + 1;
+  end
+  return count;
+end
+
+local function get_sample(room)
+  local sample = samples[room.jid];
+  if not sample then
+    sample = {
+      messages = 0;
+      peak_occupants = count_occupants(room);
+      authenticated = {};
+      anonymous = {};
+    };
+    samples[room.jid] = sample;
+  end
+  return sample;
+end
+
+local function keys(t)
+  local result = {};
+  for k in pairs(t) do
+    table.insert(result, k);
+  end
+  return result;
+end
+
+local function report(room_jid, sample, occupants)
+  if not stats_url then
+    return;
+  end
+  local data = {
+    room = room_jid;
+    timestamp = time_now();
+    duration = sample_interval;
+    messages = sample.messages;
+    occupants = occupants;
+    peakOccupants = math.max(sample.peak_occupants, occupants);
+    -- Participants are hashed, the Peertube plugin only needs to count distinct users.
+    authenticatedParticipants = keys(sample.authenticated);
+    anonymousParticipants = keys(sample.anonymous);
+  };
+  http.request(stats_url, {
+    method = "POST";
+    body = json.encode(data);
+    headers = { ["Content-Type"] = "application/json" };
+  }, function (body, code)
+    if math.floor(code / 100) ~= 2 then
+      module:log("warn", "Failed to report stats for room %s to %s: %s %s", room_jid, stats_url, code, body);
+    end
+  end);
+end
+
+module:hook("muc-occupant-joined", function(event)
+  local room, occupant = event.room, event.occupant;
+  local sample = get_sample(room);
+  local bare_jid = occupant.bare_jid;
+  if bare_jid then
+    local hashed = sha1(bare_jid, true);
+    if anonymous_host and jid_host(bare_jid) == anonymous_host then
+      sample.anonymous[hashed] = true;
+    else
+      sample.authenticated[hashed] = true;
+    end
+  end
+  local occupants = count_occupants(room);
+  if occupants > sample.peak_occupants then
+    sample.peak_occupants = occupants;
+  end
+end);
+
+module:hook("muc-occupant-groupchat", function(event)
+  if not event.stanza:get_child("body") then
+    return;
+  end
+  local sample = get_sample(event.room);
+  sample.messages = sample.messages + 1;
+end, -10);
+
+-- Sending the samples of all active rooms.
+-- Rooms that have occupants are reported, even if nothing happened, so that the Peertube plugin
+-- can compute the time during which the room was used.
+module:add_timer(sample_interval, function()
+  local current = samples;
+  samples = {};
+  for room_jid, sample in pairs(current) do
+    local room = mod_muc.get_room_from_jid(room_jid);
+    local occupants = room and count_occupants(room) or 0;
+    report(room_jid, sample, occupants);
+    if room and occupants > 0 then
+      -- Starting the next sample, so that the room is reported again.
+      get_sample(room);
+    end
+  end
+  return sample_interval;
+end);
@@ -0,0 +1,38 @@
+local http = require "net.http";
+local json = require "util.json";
+local jid_resource = require "util.jid".resource;
+
+module:depends"muc";
+
+local message_url = module:get_option_string("peertubelivechat_webhooks_message_url", nil);
+if not message_url then
+  module:log("error", "Missing peertubelivechat_webhooks_message_url option, messages will not be reported.");
+end
+
+-- Low priority: messages blocked by other modules (slow mode, filters, ...) are not reported.
+module:hook("muc-occupant-groupchat", function(event)
+  if not message_url then
+    return;
+  end
+  local stanza, room = event.stanza, event.room;
+  local body = stanza:get_child_text("body");
+  if not body then
+    return;
+  end
+  local data = {
+    room = room.jid;
+    id = stanza.attr.id;
+    nick = jid_resource(event.occupant.nick);
+    body = body;
+    timestamp = os.time();
+  };
+  http.request(message_url, {
+    method = "POST";
+    body = json.encode(data);
+    headers = { ["Content-Type"] = "application/json" };
+  }, function (response_body, code)
+    if math.floor(code / 100) ~= 2 then
+      module:log("warn", "Failed to report message to %s: %s %s", message_url, code, response_body);
+    end
+  end);
+end, -20);
@@ -0,0 +1,152 @@
+local st = require "util.stanza";
+local jid_bare = require "util.jid".bare;
+local time_now = require "util.time".now;
+
+module:depends"muc";
+
+local default_duration = module:get_option_number("slow_mode_duration_default", 0);
+local max_duration = module:get_option_number("slow_mode_duration_max", 3600);
+
+local form_field_config = "muc#roomconfig_slow_mode_duration";
+local form_field_info = "muc#roominfo_slow_mode_duration";
+
+local function get_slow_mode_duration(room)
+  local duration = room._data.slow_mode_duration;
+  if duration == nil then
+    return default_duration;
+  end
+  return duration;
+end
+
+local function parse_duration(value)
+  local duration = tonumber(value);
+  if duration == nil or duration < 0 or duration > max_duration then
+    return nil;
+  end
+  return math.floor(duration);
+end
+
+-- Returns true if the duration has changed.
+local function set_slow_mode_duration(room, duration)
+  if get_slow_mode_duration(room) == duration then
+    return false;
+  end
+  room._data.slow_mode_duration = duration;
+  -- occupants last message times are no more relevant.
+  room._slow_mode_last_messages = nil;
+  return true;
+end
+
+-- Advertising the current duration, so that clients can display a countdown.
+module:hook("muc-disco#info", function(event)
+  table.insert(event.form, {
+    name = form_field_info;
+    type = "text-single";
+    label = "Slow mode (minimum delay in seconds between two messages)";
+  });
+  event.formdata[form_field_info] = tostring(get_slow_mode_duration(event.room));
+end);
+
+-- Room owners can change the duration in the room configuration form.
+module:hook("muc-config-form", function(event)
+  table.insert(event.form, {
+    name = form_field_config;
+    type = "text-single";
+    datatype = "xs:integer";
+    label = "Slow mode (minimum delay in seconds between two messages, 0 to disable)";
+    value = tostring(get_slow_mode_duration(event.room));
+  });
+end, 80);
+
+module:hook("muc-config-submitted/" .. form_field_config, function(event)
+  local duration = parse_duration(event.value);
+  if duration == nil then
+    return;
+  end
+  if set_slow_mode_duration(event.room, duration) then
+    event.status_codes["104"] = true;
+  end
+end);
+
+-- Moderators can change the duration at runtime, using the /slowmode command.
+local function handle_command(room, occupant, stanza)
+  local body = stanza:get_child_text("body");
+  if not body then
+    return false;
+  end
+  local value = body:match("^/slowmode%s+(%d+)%s*$");
+  if not value then
+    return false;
+  end
+  if occupant.role ~= "moderator" then
+    room:route_stanza(st.error_reply(stanza, "auth", "forbidden", "Only moderators can change the slow mode.", room.jid));
+    return true;
+  end
+  local duration = parse_duration(value);
+  if duration == nil then
+    room:route_stanza(st.error_reply(
+      stanza, "modify", "not-acceptable", "The slow mode duration must be between 0 and " .. max_duration .. " seconds.", room.jid
+    ));
+    return true;
+  end
+  if set_slow_mode_duration(room, duration) then
+    room:save(true);
+    local text;
+    if duration == 0 then
+      text = "Slow mode is disabled.";
+    else
+      text = "Slow mode is enabled: participants can send a message every " .. duration .. " seconds.";
+    end
+    -- Status code 104: room configuration changed, clients will refresh the disco#info.
+    local msg = st.message({ type = "groupchat", from = room.jid })
+      :text_tag("body", text)
+      :tag("x", { xmlns = "http://jabber.org/protocol/muc#user" })
+      :tag("status", { code = "104" }):up()
+      :up();
+    room:broadcast_message(msg);
+  end
+  return true;
+end
+
+module:hook("muc-occupant-groupchat", function(event)
+  local room, occupant, stanza = event.room, event.occupant, event.stanza;
+  if not occupant then
+    return;
+  end
+
+  if handle_command(room, occupant, stanza) then
+    return true;
+  end
+
+  if occupant.role == "moderator" then
+    -- moderators are not concerned by the slow mode.
+    return;
+  end
+  local duration = get_slow_mode_duration(room);
+  if duration <= 0 then
+    return;
+  end
+  if not stanza:get_child("body") then
+    -- chat states, ... are not concerned.
+    return;
+  end
+
+  local last_messages = room._slow_mode_last_messages;
+  if not last_messages then
+    last_messages = {};
+    room._slow_mode_last_messages = last_messages;
+  end
+  local bare_jid = jid_bare(occupant.bare_jid or stanza.attr.from);
+  local now = time_now();
+  local last = last_messages[bare_jid];
+  if last ~= nil and now - last < duration then
+    local remaining = math.ceil(duration - (now - last));
+    module:log("debug", "Slow mode: rejecting a message from %s in room %s", bare_jid, room.jid);
+    room:route_stanza(st.error_reply(
+      stanza, "wait", "policy-violation",
+      "Slow mode is enabled: you have to wait " .. remaining .. " seconds before sending a new message.", room.jid
+    ));
+    return true;
+  end
+  last_messages[bare_jid] = now;
+end, 20);
@@ -5,22 +5,49 @@ local jid = require "util.jid";
 
 module:add_feature("vcard-temp");
 
-local avatars_dir = assert(module:get_option_string("peertubelivechat_random_vcard_avatars_path", nil), "'peertubelivechat_random_vcard_avatars_path' is a required option");
+local content_types = {
+  png = "image/png";
+  jpg = "image/jpeg";
+  jpeg = "image/jpeg";
+  gif = "image/gif";
+  webp = "image/webp";
+};
+
 local avatars = {};
-local function load_avatar(filename)
-  local file = assert(io.open(path.join(avatars_dir, filename), "r"));
+local AVATARS_COUNT = 0;
+
+local function load_avatar(avatars_dir, filename)
+  local file = assert(io.open(path.join(avatars_dir, filename), "rb"));
+  local ext = filename:match("%.(%w+)$");
   local result = {
-    type = 'image/jpg',
+    type = content_types[ext and ext:lower()] or "image/jpeg",
     content = b64(file:read("*a"))
   };
   file:close();
   return result;
 end
-local AVATARS_COUNT = 130;
-for i = 1, AVATARS_COUNT do
-  avatars[i] = load_avatar(i .. '.jpg');
+
+-- Avatars are loaded on startup, and when the configuration is reloaded (the admin can change the avatar set).
+local function load_avatars()
+  local avatars_dir = assert(module:get_option_string("peertubelivechat_random_vcard_avatars_path", nil), "'peertubelivechat_random_vcard_avatars_path' is a required option");
+  local files = module:get_option_array("peertubelivechat_random_vcard_avatars_files", {});
+  local loaded = {};
+  for _, filename in ipairs(files) do
+    local ok, avatar = pcall(load_avatar, avatars_dir, filename);
+    if ok then
+      table.insert(loaded, avatar);
+    else
+      module:log("error", "Failed to load the avatar %s: %s", filename, avatar);
+    end
+  end
+  avatars = loaded;
+  AVATARS_COUNT = #loaded;
+  module:log("debug", "%d avatars loaded from %s", AVATARS_COUNT, avatars_dir);
 end
 
+load_avatars();
+module:hook_global("config-reloaded", load_avatars);
+
 module:hook("iq-get/bare/vcard-temp:vCard", function (event)
   local origin, stanza = event.origin, event.stanza;
 
@@ -35,6 +62,11 @@ module:hook("iq-get/bare/vcard-temp:vCard", function (event)
 
   module:log("debug", "random vCard request for %s", who);
 
+  if AVATARS_COUNT == 0 then
+    origin.send(st.error_reply(stanza, "cancel", "item-not-found"));
+    return true;
+  end
+
   local n = 1;
   for c in who:gmatch"." do
     n = math.fmod(n + c:byte(), AVATARS_COUNT) + 1;
@@ -9,12 +9,48 @@ local uh = require "util.http";
 
 module:add_feature("vcard-temp");
 
-local CACHE_EXPIRY = 3600;
+-- Avatars are revalidated using their ETag, so we can use a short cache duration.
+local CACHE_EXPIRY = 300;
 local cache_user = {};
 
 local peertube_url = assert(module:get_option_string("peertubelivechat_vcard_peertube_url", nil), "'peertubelivechat_vcard_peertube_url' is a required option");
 if peertube_url:sub(-1,-1) == "/" then peertube_url = peertube_url:sub(1,-2); end
 
+-- Avatars are served by the plugin (resized, with ETag), so that we can revalidate them cheaply.
+local avatar_url = module:get_option_string("peertubelivechat_vcard_avatar_url", nil);
+local AVATAR_SIZE = 120;
+
+local function fetch_avatar(who, previous)
+  if not avatar_url then
+    return nil;
+  end
+  local wait, done = async.waiter();
+  local url = avatar_url .. "&jid=" .. uh.urlencode(who .. "@" .. module.host) .. "&size=" .. AVATAR_SIZE;
+  local headers = {};
+  if previous and previous.etag then
+    headers["If-None-Match"] = previous.etag;
+  end
+  local photo;
+  http.request(url, { headers = headers }, function (body, code, response)
+    if code == 304 then
+      module:log("debug", "Avatar for %s did not change.", who);
+      photo = previous;
+    elseif math.floor(code / 100) == 2 and response and response.headers and response.headers["content-type"] then
+      module:log("debug", "Avatar found for %s", who);
+      photo = {
+        etag = response.headers["etag"];
+        type = response.headers["content-type"];
+        data = b64(body);
+      };
+    else
+      module:log("debug", "No avatar for %s (code %s)", who, tostring(code));
+    end
+    done();
+  end);
+  wait();
+  return photo;
+end
+
 module:hook("iq-get/bare/vcard-temp:vCard", function (event)
   local origin, stanza = event.origin, event.stanza;
   local who = jid_split(stanza.attr.to) or origin.username
@@ -24,7 +60,6 @@ module:hook("iq-get/bare/vcard-temp:vCard", function (event)
   if from_cache then
     if from_cache["last_fetch_time"] and from_cache["last_fetch_time"] + CACHE_EXPIRY < gettime() then
       module:log("debug", "vCard result for %s was in cache but is expired.", who);
-      cache_user[who] = nil
     else
       module:log("debug", "vCard result for %s is in cache.", who);
       if (from_cache['vcard']) then
@@ -44,15 +79,15 @@ module:hook("iq-get/bare/vcard-temp:vCard", function (event)
   local ret;
   http.request(url, { accept = "application/json" }, function (body, code)
     if math.floor(code / 100) == 2 then
-			local parsed, parse_err = json.decode(body);
-			if not parsed then
-				module:log("debug", "Got invalid JSON from %s: %s", url, parse_err);
-			else
-				ret = parsed;
-			end
-		else
-			module:log("debug", "Rejected by API: ", body);
-		end
+      local parsed, parse_err = json.decode(body);
+      if not parsed then
+        module:log("debug", "Got invalid JSON from %s: %s", url, parse_err);
+      else
+        ret = parsed;
+      end
+    else
+      module:log("debug", "Rejected by API: ", body);
+    end
     done();
   end)
 
@@ -71,31 +106,21 @@ module:hook("iq-get/bare/vcard-temp:vCard", function (event)
   vcard_temp:text_tag("NICKNAME", ret.displayName);
   vcard_temp:text_tag("URL", ret.url);
 
-  if ret.avatar and ret.avatar.path then
-    module:log("debug", "Downloading user avatar on %s", peertube_url .. ret.avatar.path);
-    local waitAvatar, doneAvatar = async.waiter();
-    http.request(peertube_url .. ret.avatar.path, {}, function (body, code, response)
-      if math.floor(code / 100) == 2 then
-        module:log("debug", "Avatar found for %s", who);
-        vcard_temp:tag("PHOTO");
-        if (response and response.headers and response.headers["content-type"]) then
-          module:log("debug", "Avatar content-type: %s", response.headers["content-type"]);
-          vcard_temp:text_tag("TYPE", response.headers["content-type"]);
-          vcard_temp:text_tag("BINVAL", b64(body));
-          vcard_temp:up();
-        else
-          module:log("debug", "Avatar has no content-type.");
-        end
-      else
-        module:log("debug", "Cant load avatar: ", body);
-      end
-      doneAvatar();
-    end)
-
-    waitAvatar();
+  local photo = fetch_avatar(who, from_cache and from_cache.photo);
+  if photo then
+    vcard_temp:tag("PHOTO");
+    vcard_temp:text_tag("TYPE", photo.type);
+    vcard_temp:text_tag("BINVAL", photo.data);
+    vcard_temp:up();
   end
 
   origin.send(st.reply(stanza):add_child(vcard_temp));
-  cache_user[who] = { last_fetch_time = gettime(), vcard = vcard_temp };
+  cache_user[who] = { last_fetch_time = gettime(), vcard = vcard_temp, photo = photo };
   return true;
 end);
+
+-- Deleted accounts (see mod_auth_peertubelivechat): removing them from the cache.
+module:hook("user-deleted", function (event)
+  module:log("debug", "Removing %s from the vCard cache.", event.username);
+  cache_user[event.username] = nil;
+end);
@@ -0,0 +1,231 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import {
+  getChannelAnnouncements, listChannelsWithAnnouncements, removeChannelAnnouncements
+} from '../configuration/channel/announcements'
+import { getChannelEffectiveSettings } from '../configuration/channel/settings'
+import { getChannelChatBot, listChannelsWithChatBot } from '../configuration/channel/bot'
+import { getLocalLiveVideosByChannelId } from '../database/channel'
+import { getLastLiveSessionStartDate, getLocalStreamingLiveVideos } from '../database/video'
+import { getProsodyDomain } from '../prosody/config/domain'
+import { sendProsodyRoomMessage } from '../prosody/api/manage-rooms'
+
+/*
+Recurring announcements are sent every interval minutes, starting from the live session start.
+One-shot announcements are sent once, in the rooms of the lives that are streaming at their date, then removed.
+The chat bot timed announcements are sent as recurring announcements, so that each room has only one scheduler.
+Messages are posted using the chat bot nickname, that Prosody reserves even if the bot is disabled
+(see the announcer field in ../prosody/config/room-settings).
+
+Streaming lives are tracked using the action:live.video.state.updated hook (see ../live-state).
+On Peertube versions that don't have this hook, the scheduler checks the lives states in the database.
+*/
+
+const checkInterval = 60 * 1000
+
+interface StreamingLive {
+  channelId: number
+  uuid: string
+  startDate: number
+}
+
+let timer: NodeJS.Timeout | undefined
+let running = false
+
+// Last time each recurring announcement was sent, by «room localpart:announcement id».
+const lastSent = new Map<string, number>()
+
+// Streaming lives, by video id. Undefined if the live state hook is not available.
+let streamingLives: Map<number, StreamingLive> | undefined
+
+/**
+ * Starts the announcements scheduler.
+ * @param options server options
+ * @param useLiveStateHook true if the live state hook is registered, and calls updateAnnouncementsLiveState
+ */
+function initAnnouncementsScheduler (options: RegisterServerOptions, useLiveStateHook: boolean): void {
+  stopAnnouncementsScheduler()
+  if (useLiveStateHook) {
+    streamingLives = new Map()
+    _loadStreamingLives(options, streamingLives).then(
+      () => {},
+      (err) => options.peertubeHelpers.logger.error('Failed to load the streaming lives:', err)
+    )
+  }
+  timer = setInterval(() => {
+    if (running) { return }
+    running = true
+    _sendDueAnnouncements(options).then(
+      () => { running = false },
+      (err) => {
+        running = false
+        options.peertubeHelpers.logger.error('Failed to send the scheduled announcements:', err)
+      }
+    )
+  }, checkInterval)
+}
+
+/**
+ * Stops the announcements scheduler. Must be called when the plugin is unloaded.
+ */
+function stopAnnouncementsScheduler (): void {
+  if (timer) {
+    clearInterval(timer)
+    timer = undefined
+  }
+  lastSent.clear()
+  streamingLives = undefined
+}
+
+/**
+ * Must be called by the live state hook, when a local live starts or ends.
+ * @param video the live video
+ * @param live true if the live is streaming
+ */
+function updateAnnouncementsLiveState (
+  video: { id: number, uuid: string, channelId: number },
+  live: boolean
+): void {
+  if (!streamingLives) { return }
+  if (!live) {
+    streamingLives.delete(video.id)
+  } else if (!streamingLives.has(video.id)) {
+    streamingLives.set(video.id, { channelId: video.channelId, uuid: video.uuid, startDate: Date.now() })
+  }
+}
+
+/**
+ * Loads the lives that were already streaming when the scheduler started.
+ */
+async function _loadStreamingLives (
+  options: RegisterServerOptions,
+  lives: Map<number, StreamingLive>
+): Promise<void> {
+  for (const live of await getLocalStreamingLiveVideos(options)) {
+    const startDate = (await getLastLiveSessionStartDate(options, live.id))?.getTime() ?? Date.now()
+    // The hook may have been called in the meantime.
+    if (lives.has(live.id)) { continue }
+    lives.set(live.id, { channelId: live.channelId, uuid: live.uuid, startDate })
+  }
+}
+
+async function _sendDueAnnouncements (options: RegisterServerOptions): Promise<void> {
+  const logger = options.peertubeHelpers.logger
+  const now = Date.now()
+  const seen = new Set<string>()
+
+  const channelIds = new Set([
+    ...await listChannelsWithAnnouncements(options),
+    ...await listChannelsWithChatBot(options)
+  ])
+  for (const channelId of channelIds) {
+    const announcements = await getChannelAnnouncements(options, channelId)
+    const bot = await getChannelChatBot(options, channelId)
+    const botAnnouncements = bot.enabled ? bot.announcements : []
+    if (!announcements.length && !botAnnouncements.length) { continue }
+
+    let rooms: Map<string, number>
+    try {
+      rooms = await _getChannelLiveRooms(options, channelId, now)
+    } catch (err) {
+      logger.error(`Failed to get the live rooms of channel ${channelId}:`, err)
+      continue
+    }
+
+    const recurring: Array<{ id: string, interval: number, message: string }> = botAnnouncements.map((a, i) => ({
+      id: 'bot-' + i.toString(),
+      interval: a.interval,
+      message: a.message
+    }))
+    const toSend: Array<{ room: string, message: string }> = []
+    const sentOnce: string[] = []
+    for (const announcement of announcements) {
+      if (announcement.type === 'once') {
+        if (!announcement.date || new Date(announcement.date).getTime() > now) { continue }
+        sentOnce.push(announcement.id)
+        if (!rooms.size) {
+          logger.info(`Announcement ${announcement.id} of channel ${channelId}: no live is streaming, dropping it.`)
+        }
+        for (const room of rooms.keys()) {
+          toSend.push({ room, message: announcement.message })
+        }
+      } else {
+        recurring.push({ id: announcement.id, interval: announcement.interval ?? 0, message: announcement.message })
+      }
+    }
+    for (const announcement of recurring) {
+      for (const [room, startDate] of rooms) {
+        const key = room + ':' + announcement.id
+        seen.add(key)
+        const last = lastSent.get(key) ?? startDate
+        if (announcement.interval > 0 && now - last >= announcement.interval * 60 * 1000) {
+          lastSent.set(key, now)
+          toSend.push({ room, message: announcement.message })
+        } else if (!lastSent.has(key)) {
+          lastSent.set(key, last)
+        }
+      }
+    }
+
+    if (toSend.length) {
+      const prosodyDomain = await getProsodyDomain(options)
+      for (const { room, message } of toSend) {
+        try {
+          await sendProsodyRoomMessage(options, room + '@room.' + prosodyDomain, bot.nickname, message)
+        } catch (err) {
+          // The room may not exist yet (nobody joined it), or an occupant joined with the bot nickname
+          // before it was reserved.
+          logger.debug(`Failed to send an announcement in room ${room}:`, err)
+        }
+      }
+    }
+    if (sentOnce.length) {
+      await removeChannelAnnouncements(options, channelId, sentOnce)
+    }
+  }
+
+  // Forgetting lives that are over.
+  for (const key of lastSent.keys()) {
+    if (!seen.has(key)) {
+      lastSent.delete(key)
+    }
+  }
+}
+
+/**
+ * Returns the rooms of the channel lives that are currently streaming.
+ * @returns a map: room localpart => live session start timestamp
+ */
+async function _getChannelLiveRooms (
+  options: RegisterServerOptions,
+  channelId: number,
+  now: number
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>()
+  const lives: Array<{ uuid: string, startDate: number }> = []
+  if (streamingLives) {
+    for (const live of streamingLives.values()) {
+      if (live.channelId === channelId) {
+        lives.push(live)
+      }
+    }
+  } else {
+    for (const live of await getLocalLiveVideosByChannelId(options, channelId)) {
+      const startDate = (await getLastLiveSessionStartDate(options, live.id))?.getTime() ?? now
+      lives.push({ uuid: live.uuid, startDate })
+    }
+  }
+  if (!lives.length) { return result }
+  const settings = await getChannelEffectiveSettings(options, channelId, ['prosody-room-type'])
+  for (const live of lives) {
+    const room = settings['prosody-room-type'] === 'channel' ? 'channel.' + channelId.toString() : live.uuid
+    // With one room per channel, the room is concerned since the first live started.
+    result.set(room, Math.min(live.startDate, result.get(room) ?? live.startDate))
+  }
+  return result
+}
+
+export {
+  initAnnouncementsScheduler,
+  stopAnnouncementsScheduler,
+  updateAnnouncementsLiveState
+}
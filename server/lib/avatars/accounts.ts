@@ -0,0 +1,204 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { getProsodyDomain } from '../prosody/config/domain'
+import { createHash } from 'crypto'
+const got = require('got')
+
+/*
+Peertube accounts avatars, served to Prosody for vCards (see mod_vcard_peertubelivechat).
+
+Peertube already generates several sizes for each avatar: we serve the closest one to the requested size.
+Account informations are cached for a short time, images are cached by avatar path.
+When a user changes its avatar, Peertube generates a new file with a new path:
+so the ETag (a hash of the path) changes, and the image cache is naturally invalidated.
+The account cache is also invalidated when a user is updated.
+
+Remote accounts are also supported (if they are known by this Peertube instance):
+their JID domain is their Peertube instance host (see getProsodyDomain).
+*/
+
+interface AccountAvatar {
+  etag: string
+  contentType: string
+  data: Buffer
+}
+
+interface AccountAvatarInfos {
+  path: string
+  width: number
+}
+
+const accountCacheDuration = 5 * 60 * 1000
+const maxCachedAccounts = 1000
+const maxCachedAvatars = 200
+const maxAvatarSize = 2 * 1024 * 1024
+const requestTimeout = 10000
+
+// Avatars of accounts, by account handle (null if the account has no avatar).
+const accountsCache = new Map<string, { timestamp: number, avatars: AccountAvatarInfos[] | null }>()
+// Images, by avatar path.
+const avatarsCache = new Map<string, AccountAvatar>()
+
+/**
+ * Converts a JID to a Peertube account handle.
+ * @param options server options
+ * @param jid the JID
+ * @returns the handle (username for local accounts, username@host for remote accounts), or null if invalid
+ */
+async function jidToAccountHandle (options: RegisterServerOptions, jid: string): Promise<string | null> {
+  const matches = jid.match(/^([^@/\s]+)@([a-z0-9.-]+)$/i)
+  if (!matches) { return null }
+  const username = matches[1].toLowerCase()
+  const domain = matches[2].toLowerCase()
+  const prosodyDomain = await getProsodyDomain(options)
+  if (domain === prosodyDomain) {
+    return username
+  }
+  if (domain.endsWith('.' + prosodyDomain)) {
+    // Anonymous users, rooms, external components, ...: these are not Peertube accounts.
+    return null
+  }
+  return username + '@' + domain
+}
+
+/**
+ * Returns the avatar of the account corresponding to the JID.
+ * @param options server options
+ * @param jid the user JID
+ * @param size the wanted size (in pixels)
+ * @param etag if given, and if the avatar did not change, the image is not loaded
+ * @returns the avatar, 'not-modified', or null if there is no avatar
+ */
+async function getAccountAvatar (
+  options: RegisterServerOptions,
+  jid: string,
+  size: number,
+  etag?: string
+): Promise<AccountAvatar | 'not-modified' | null> {
+  const handle = await jidToAccountHandle(options, jid)
+  if (!handle) { return null }
+
+  const avatars = await _getAccountAvatars(options, handle)
+  if (!avatars?.length) { return null }
+
+  // The smallest avatar that is at least as big as requested, or the biggest one.
+  const sorted = [...avatars].sort((a, b) => a.width - b.width)
+  const avatar = sorted.find(a => a.width >= size) ?? sorted[sorted.length - 1]
+
+  const avatarEtag = '"' + createHash('sha1').update(avatar.path).digest('hex') + '"'
+  if (etag === avatarEtag) {
+    return 'not-modified'
+  }
+
+  const cached = avatarsCache.get(avatar.path)
+  if (cached) { return cached }
+
+  const response = await got(await _getPeertubeUrl(options) + avatar.path, {
+    responseType: 'buffer',
+    timeout: requestTimeout
+  })
+  const contentType: string = response.headers['content-type'] ?? ''
+  if (!contentType.startsWith('image/') || response.body.length > maxAvatarSize) {
+    options.peertubeHelpers.logger.warn(`Invalid avatar file for ${handle}: ${avatar.path}`)
+    return null
+  }
+  const result: AccountAvatar = {
+    etag: avatarEtag,
+    contentType,
+    data: response.body
+  }
+  _setCache(avatarsCache, avatar.path, result, maxCachedAvatars)
+  return result
+}
+
+/**
+ * Invalidates cached informations for an account (for example when the user is updated).
+ * @param handle the account handle
+ */
+function invalidateAccountAvatar (handle: string): void {
+  accountsCache.delete(handle)
+}
+
+/**
+ * Registers hooks to invalidate the cache.
+ * @param options server options
+ */
+function initAccountsAvatarsHooks (options: RegisterServerOptions): void {
+  options.registerHook({
+    target: 'action:api.user.updated',
+    handler: async (params: any) => {
+      const username = params?.user?.username
+      if (typeof username === 'string') {
+        invalidateAccountAvatar(username.toLowerCase())
+      }
+    }
+  })
+}
+
+/**
+ * Clears all caches. Must be called when the plugin is unloaded.
+ */
+function clearAccountsAvatarsCache (): void {
+  accountsCache.clear()
+  avatarsCache.clear()
+}
+
+async function _getAccountAvatars (
+  options: RegisterServerOptions,
+  handle: string
+): Promise<AccountAvatarInfos[] | null> {
+  const cached = accountsCache.get(handle)
+  if (cached && cached.timestamp + accountCacheDuration > Date.now()) {
+    return cached.avatars
+  }
+
+  let avatars: AccountAvatarInfos[] | null = null
+  try {
+    const account = await got(await _getPeertubeUrl(options) + '/api/v1/accounts/' + encodeURIComponent(handle), {
+      responseType: 'json',
+      resolveBodyOnly: true,
+      timeout: requestTimeout
+    })
+    // Peertube >= 4.2 provides several sizes. Older versions only have the «avatar» field.
+    const list: any[] = Array.isArray(account?.avatars) && account.avatars.length
+      ? account.avatars
+      : (account?.avatar ? [account.avatar] : [])
+    avatars = list
+      .filter(a => typeof a?.path === 'string' && a.path.startsWith('/'))
+      .map(a => ({
+        path: a.path,
+        width: typeof a.width === 'number' ? a.width : 120
+      }))
+  } catch (err: any) {
+    if (err?.response?.statusCode !== 404) {
+      throw err
+    }
+    options.peertubeHelpers.logger.debug(`Account ${handle} not found, no avatar.`)
+  }
+  _setCache(accountsCache, handle, { timestamp: Date.now(), avatars }, maxCachedAccounts)
+  return avatars
+}
+
+async function _getPeertubeUrl (options: RegisterServerOptions): Promise<string> {
+  // Same url as the one used by Prosody to call the Peertube API.
+  const uri = await options.settingsManager.getSetting('prosody-peertube-uri') as string
+  return uri || options.peertubeHelpers.config.getWebserverUrl()
+}
+
+function _setCache<T> (cache: Map<string, T>, key: string, value: T, max: number): void {
+  cache.delete(key)
+  cache.set(key, value)
+  // Maps keep insertion order: removing the oldest entries.
+  for (const k of cache.keys()) {
+    if (cache.size <= max) { break }
+    cache.delete(k)
+  }
+}
+
+export {
+  AccountAvatar,
+  jidToAccountHandle,
+  getAccountAvatar,
+  invalidateAccountAvatar,
+  initAccountsAvatarsHooks,
+  clearAccountsAvatarsCache
+}
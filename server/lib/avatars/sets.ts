@@ -0,0 +1,138 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { readZipEntries } from './zip'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/*
+Avatars for anonymous users (see mod_random_vcard_peertubelivechat).
+The admin can choose a bundled set (built by build-avatars.js), upload a custom set, or disable avatars.
+Custom sets are stored in the plugin data directory.
+*/
+
+type AnonymousAvatarSet = 'classic' | 'pastel' | 'custom' | 'none'
+
+interface AnonymousAvatarsConfig {
+  dir: string
+  files: string[]
+}
+
+const maxCustomAvatars = 500
+const maxCustomAvatarSize = 256 * 1024
+const maxCustomAvatarsArchiveSize = 20 * 1024 * 1024
+
+// Accepted image formats, with their magic numbers.
+const imageFormats: Array<{ ext: string, test: (data: Buffer) => boolean }> = [
+  {
+    ext: 'png',
+    test: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  },
+  {
+    ext: 'jpg',
+    test: (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))
+  },
+  {
+    ext: 'gif',
+    test: (data) => ['GIF87a', 'GIF89a'].includes(data.toString('latin1', 0, 6))
+  },
+  {
+    ext: 'webp',
+    test: (data) => data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP'
+  }
+]
+
+/**
+ * Returns the directory and files of the chosen avatar set.
+ * If the custom set is chosen but was not uploaded, falls back to the classic set.
+ * @param options server options
+ * @param bundledDir the directory containing bundled sets
+ * @returns the avatars config, or null if avatars are disabled
+ */
+async function getAnonymousAvatarsConfig (
+  options: RegisterServerOptions,
+  bundledDir: string
+): Promise<AnonymousAvatarsConfig | null> {
+  const set = await options.settingsManager.getSetting('avatar-set') as AnonymousAvatarSet
+  if (set === 'none') {
+    return null
+  }
+  if (set === 'custom') {
+    const dir = _getCustomAvatarsDir(options)
+    const files = await _listImages(dir)
+    if (files.length) {
+      return { dir, files }
+    }
+    options.peertubeHelpers.logger.warn('No custom avatar set was uploaded, using the classic set.')
+  }
+  const dir = path.resolve(bundledDir, set === 'pastel' ? 'pastel' : 'classic')
+  return { dir, files: await _listImages(dir) }
+}
+
+/**
+ * Imports a custom avatar set from a zip archive.
+ * All images are validated, and replace the previous custom set.
+ * @param options server options
+ * @param archive the zip archive
+ * @returns the number of imported avatars
+ * @throws Error if the archive is invalid, or if it contains invalid files
+ */
+async function storeCustomAvatars (options: RegisterServerOptions, archive: Buffer): Promise<number> {
+  if (archive.length > maxCustomAvatarsArchiveSize) {
+    throw new Error('The archive is too big')
+  }
+  const entries = readZipEntries(archive, maxCustomAvatars, maxCustomAvatarSize)
+    // Ignoring hidden files (and files added by some archivers, like __MACOSX/).
+    .filter(entry => !entry.name.split('/').some(part => part.startsWith('.') || part.startsWith('__')))
+  if (!entries.length) {
+    throw new Error('The archive does not contain any image')
+  }
+
+  const images: Array<{ ext: string, data: Buffer }> = []
+  for (const entry of entries) {
+    const format = imageFormats.find(f => f.test(entry.data))
+    if (!format) {
+      throw new Error(`File ${entry.name} is not a valid image (accepted formats: png, jpg, gif, webp)`)
+    }
+    images.push({ ext: format.ext, data: entry.data })
+  }
+
+  // Writing in a temporary directory, then replacing the previous set.
+  const dir = _getCustomAvatarsDir(options)
+  const tmpDir = dir + '.tmp'
+  await fs.promises.rm(tmpDir, { recursive: true, force: true })
+  await fs.promises.mkdir(tmpDir, { recursive: true })
+  for (let i = 0; i < images.length; i++) {
+    await fs.promises.writeFile(path.resolve(tmpDir, (i + 1).toString() + '.' + images[i].ext), images[i].data)
+  }
+  await fs.promises.rm(dir, { recursive: true, force: true })
+  await fs.promises.rename(tmpDir, dir)
+  options.peertubeHelpers.logger.info(`Custom avatar set imported, with ${images.length} avatars.`)
+  return images.length
+}
+
+/**
+ * The maximum size for uploaded archives.
+ */
+function getMaxCustomAvatarsArchiveSize (): number {
+  return maxCustomAvatarsArchiveSize
+}
+
+function _getCustomAvatarsDir (options: RegisterServerOptions): string {
+  return path.resolve(options.peertubeHelpers.plugin.getDataDirectoryPath(), 'avatars')
+}
+
+async function _listImages (dir: string): Promise<string[]> {
+  if (!fs.existsSync(dir)) {
+    return []
+  }
+  const files = (await fs.promises.readdir(dir))
+    .filter(file => /^\d+\.(png|jpg|gif|webp)$/.test(file))
+  // Numerical order, so that avatars keep the same attribution.
+  return files.sort((a, b) => parseInt(a) - parseInt(b))
+}
+
+export {
+  AnonymousAvatarSet,
+  getAnonymousAvatarsConfig,
+  storeCustomAvatars,
+  getMaxCustomAvatarsArchiveSize
+}
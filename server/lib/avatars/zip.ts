@@ -0,0 +1,103 @@
+import { inflateRawSync } from 'zlib'
+
+/*
+Minimal zip archive reader, used to import custom avatar sets.
+Only supports what common zip tools produce for images: stored or deflated entries, without encryption nor zip64.
+*/
+
+interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+const endOfCentralDirectorySignature = 0x06054b50
+const centralDirectorySignature = 0x02014b50
+const localHeaderSignature = 0x04034b50
+
+/**
+ * Reads the files of a zip archive. Directories are ignored.
+ * @param archive the zip content
+ * @param maxEntries maximum number of files
+ * @param maxEntrySize maximum uncompressed size of each file
+ * @returns the files
+ * @throws Error if the archive is invalid or not supported, or if limits are exceeded
+ */
+function readZipEntries (archive: Buffer, maxEntries: number, maxEntrySize: number): ZipEntry[] {
+  // The end of central directory record is at the end of the file, followed by an optional comment (max 65535 bytes).
+  let eocd = -1
+  for (let i = archive.length - 22; i >= 0 && i >= archive.length - 22 - 65535; i--) {
+    if (archive.readUInt32LE(i) === endOfCentralDirectorySignature) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid zip file')
+  }
+  const entriesCount = archive.readUInt16LE(eocd + 10)
+  let offset = archive.readUInt32LE(eocd + 16)
+  if (entriesCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < entriesCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== centralDirectorySignature) {
+      throw new Error('Invalid zip central directory')
+    }
+    const flags = archive.readUInt16LE(offset + 8)
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const size = archive.readUInt32LE(offset + 24)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localHeaderOffset = archive.readUInt32LE(offset + 42)
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) { continue } // directory
+    if (flags & 0x1) {
+      throw new Error('Encrypted zip files are not supported')
+    }
+    if (entries.length >= maxEntries) {
+      throw new Error(`Too many files in the archive (max: ${maxEntries})`)
+    }
+    if (size > maxEntrySize) {
+      throw new Error(`File ${name} is too big`)
+    }
+
+    if (
+      localHeaderOffset + 30 > archive.length ||
+      archive.readUInt32LE(localHeaderOffset) !== localHeaderSignature
+    ) {
+      throw new Error('Invalid zip local header')
+    }
+    const dataStart = localHeaderOffset + 30 +
+      archive.readUInt16LE(localHeaderOffset + 26) +
+      archive.readUInt16LE(localHeaderOffset + 28)
+    if (dataStart + compressedSize > archive.length) {
+      throw new Error('Invalid zip entry')
+    }
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Buffer
+    if (method === 0) {
+      data = Buffer.from(compressed)
+    } else if (method === 8) {
+      data = inflateRawSync(compressed, { maxOutputLength: maxEntrySize })
+    } else {
+      throw new Error(`Unsupported compression method for file ${name}`)
+    }
+    if (data.length !== size) {
+      throw new Error(`Invalid size for file ${name}`)
+    }
+    entries.push({ name, data })
+  }
+  return entries
+}
+
+export {
+  ZipEntry,
+  readZipEntries
+}
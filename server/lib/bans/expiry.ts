@@ -0,0 +1,68 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { listChannelsWithBans, purgeExpiredChannelBans } from '../configuration/channel/bans'
+import { channelUserToJID } from '../configuration/channel/jid'
+import { syncChannelRoomsAffiliations } from '../configuration/channel/affiliations'
+import { getProsodyDomain } from '../prosody/config/domain'
+
+/*
+Channel bans can have an expiration date.
+Expired bans are periodically removed, and the outcast affiliations are lifted on the channel rooms.
+*/
+
+const checkInterval = 60 * 1000
+
+let timer: NodeJS.Timeout | undefined
+let running = false
+
+/**
+ * Starts the periodic purge of expired channel bans.
+ * @param options server options
+ */
+function initChannelBansExpiry (options: RegisterServerOptions): void {
+  stopChannelBansExpiry()
+  timer = setInterval(() => {
+    if (running) { return }
+    running = true
+    _purgeExpiredBans(options).then(
+      () => { running = false },
+      (err) => {
+        running = false
+        options.peertubeHelpers.logger.error('Failed to purge the expired channel bans:', err)
+      }
+    )
+  }, checkInterval)
+}
+
+/**
+ * Stops the periodic purge. Must be called when the plugin is unloaded.
+ */
+function stopChannelBansExpiry (): void {
+  if (timer) {
+    clearInterval(timer)
+    timer = undefined
+  }
+}
+
+async function _purgeExpiredBans (options: RegisterServerOptions): Promise<void> {
+  const logger = options.peertubeHelpers.logger
+  for (const channelId of await listChannelsWithBans(options)) {
+    try {
+      const expired = await purgeExpiredChannelBans(options, channelId)
+      if (!expired.length) { continue }
+      logger.info(`${expired.length} ban(s) expired for channel ${channelId}, updating rooms affiliations.`)
+      const prosodyDomain = await getProsodyDomain(options)
+      await syncChannelRoomsAffiliations(
+        options,
+        channelId,
+        expired.map(user => channelUserToJID(user, prosodyDomain))
+      )
+    } catch (err) {
+      logger.error(`Failed to purge the expired bans of channel ${channelId}:`, err)
+    }
+  }
+}
+
+export {
+  initChannelBansExpiry,
+  stopChannelBansExpiry
+}
@@ -0,0 +1,48 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Affiliations } from '../../prosody/config/affiliations'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import { getChannelAffiliations } from '../../prosody/config/affiliations'
+import { getLocalVideosByChannelId } from '../../database/channel'
+import { updateProsodyRoomsAffiliations } from '../../prosody/api/manage-rooms'
+
+/**
+ * Returns the JIDs of all rooms related to the channel:
+ * the channel room, and rooms of all local videos of the channel.
+ * Some of these rooms may not exist.
+ * @param options server options
+ * @param channelId channel id
+ * @returns room JIDs
+ */
+async function getChannelRoomJIDs (options: RegisterServerOptions, channelId: number): Promise<string[]> {
+  const prosodyDomain = await getProsodyDomain(options)
+  const roomDomain = 'room.' + prosodyDomain
+  const uuids = (await getLocalVideosByChannelId(options, channelId)).map(video => video.uuid)
+  return ['channel.' + channelId.toString(), ...uuids].map(localpart => localpart + '@' + roomDomain)
+}
+
+/**
+ * Updates affiliations on all existing rooms of the channel.
+ * @param options server options
+ * @param channelId channel id
+ * @param removedJIDs JIDs that must lose their affiliation (if they have no other reason to have one)
+ * @returns the number of updated rooms
+ */
+async function syncChannelRoomsAffiliations (
+  options: RegisterServerOptions,
+  channelId: number,
+  removedJIDs?: string[]
+): Promise<number> {
+  const affiliations: Affiliations = await getChannelAffiliations(options, channelId)
+  for (const jid of removedJIDs ?? []) {
+    if (!(jid in affiliations)) {
+      affiliations[jid] = 'none'
+    }
+  }
+  const roomJIDs = await getChannelRoomJIDs(options, channelId)
+  return updateProsodyRoomsAffiliations(options, roomJIDs, affiliations)
+}
+
+export {
+  getChannelRoomJIDs,
+  syncChannelRoomsAffiliations
+}
@@ -0,0 +1,96 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ScheduledAnnouncement } from '../../../../shared/lib/types'
+import { readChannelData, storeChannelData, listChannelsWithData } from './storage'
+import { sanitizeChannelAnnouncements } from './sanitize'
+
+// Pending writes, by channel. The scheduler removes sent announcements, so writes must not overlap.
+const pendingWrites = new Map<number, Promise<void>>()
+
+/**
+ * Returns the channel scheduled announcements.
+ * @param options server options
+ * @param channelId channel id
+ * @returns announcements
+ */
+async function getChannelAnnouncements (
+  options: RegisterServerOptions,
+  channelId: number
+): Promise<ScheduledAnnouncement[]> {
+  const content = await readChannelData(options, channelId, 'announcements')
+  if (content === null) {
+    return []
+  }
+  try {
+    return sanitizeChannelAnnouncements(options, channelId, content)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Invalid stored announcements for channel ${channelId}:`, err)
+    return []
+  }
+}
+
+/**
+ * Stores the channel scheduled announcements.
+ * Note: the announcements must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param announcements announcements to store
+ */
+async function storeChannelAnnouncements (
+  options: RegisterServerOptions,
+  channelId: number,
+  announcements: ScheduledAnnouncement[]
+): Promise<void> {
+  await _queueWrite(channelId, async () => {
+    await storeChannelData(options, channelId, 'announcements', announcements)
+  })
+}
+
+/**
+ * Removes some announcements (for example one-shot announcements that were sent).
+ * @param options server options
+ * @param channelId channel id
+ * @param ids ids of the announcements to remove
+ */
+async function removeChannelAnnouncements (
+  options: RegisterServerOptions,
+  channelId: number,
+  ids: string[]
+): Promise<void> {
+  await _queueWrite(channelId, async () => {
+    const announcements = await getChannelAnnouncements(options, channelId)
+    await storeChannelData(
+      options, channelId, 'announcements', announcements.filter(a => !ids.includes(a.id))
+    )
+  })
+}
+
+/**
+ * Lists channels that have some announcements.
+ * @param options server options
+ * @returns channel ids
+ */
+async function listChannelsWithAnnouncements (options: RegisterServerOptions): Promise<number[]> {
+  return listChannelsWithData(options, 'announcements')
+}
+
+async function _queueWrite (channelId: number, fn: () => Promise<void>): Promise<void> {
+  const previous = pendingWrites.get(channelId) ?? Promise.resolve()
+  const write = previous.then(fn)
+  // The chain must continue even if this write fails.
+  const next = write.catch(() => {})
+  pendingWrites.set(channelId, next)
+  try {
+    await write
+  } finally {
+    if (pendingWrites.get(channelId) === next) {
+      pendingWrites.delete(channelId)
+    }
+  }
+}
+
+export {
+  getChannelAnnouncements,
+  storeChannelAnnouncements,
+  removeChannelAnnouncements,
+  listChannelsWithAnnouncements
+}
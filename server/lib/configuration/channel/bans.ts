@@ -0,0 +1,114 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChannelBan } from '../../../../shared/lib/types'
+import { readChannelData, storeChannelData, listChannelsWithData } from './storage'
+import { sanitizeChannelBans } from './sanitize'
+
+/**
+ * Returns all the channel bans (including expired ones).
+ * @param options server options
+ * @param channelId channel id
+ * @returns the bans
+ */
+async function getChannelBans (options: RegisterServerOptions, channelId: number): Promise<ChannelBan[]> {
+  const content = await readChannelData(options, channelId, 'bans')
+  if (content === null) {
+    return []
+  }
+  try {
+    return sanitizeChannelBans(options, channelId, content)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Invalid stored bans for channel ${channelId}:`, err)
+    return []
+  }
+}
+
+/**
+ * Returns the channel bans that are not expired.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the active bans
+ */
+async function getActiveChannelBans (options: RegisterServerOptions, channelId: number): Promise<ChannelBan[]> {
+  const now = Date.now()
+  return (await getChannelBans(options, channelId)).filter(ban => !isChannelBanExpired(ban, now))
+}
+
+/**
+ * Adds a ban. If the user is already banned, the previous ban is replaced.
+ * Note: the ban must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param ban the ban to add
+ * @returns the new ban list
+ */
+async function addChannelBan (
+  options: RegisterServerOptions,
+  channelId: number,
+  ban: ChannelBan
+): Promise<ChannelBan[]> {
+  const bans = (await getChannelBans(options, channelId)).filter(b => b.user !== ban.user)
+  bans.push(ban)
+  await storeChannelData(options, channelId, 'bans', bans)
+  return bans
+}
+
+/**
+ * Removes bans.
+ * @param options server options
+ * @param channelId channel id
+ * @param users users to unban
+ * @returns the new ban list
+ */
+async function removeChannelBans (
+  options: RegisterServerOptions,
+  channelId: number,
+  users: string[]
+): Promise<ChannelBan[]> {
+  const bans = await getChannelBans(options, channelId)
+  const newBans = bans.filter(b => !users.includes(b.user))
+  if (newBans.length !== bans.length) {
+    await storeChannelData(options, channelId, 'bans', newBans)
+  }
+  return newBans
+}
+
+/**
+ * Removes expired bans.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the users whose ban was removed
+ */
+async function purgeExpiredChannelBans (options: RegisterServerOptions, channelId: number): Promise<string[]> {
+  const now = Date.now()
+  const expired = (await getChannelBans(options, channelId))
+    .filter(ban => isChannelBanExpired(ban, now))
+    .map(ban => ban.user)
+  if (expired.length) {
+    await removeChannelBans(options, channelId, expired)
+  }
+  return expired
+}
+
+/**
+ * Lists channels that have some bans.
+ * @param options server options
+ * @returns channel ids
+ */
+async function listChannelsWithBans (options: RegisterServerOptions): Promise<number[]> {
+  return listChannelsWithData(options, 'bans')
+}
+
+function isChannelBanExpired (ban: ChannelBan, now?: number): boolean {
+  if (!ban.expires) { return false }
+  return new Date(ban.expires).getTime() <= (now ?? Date.now())
+}
+
+export {
+  getChannelBans,
+  getActiveChannelBans,
+  addChannelBan,
+  removeChannelBans,
+  purgeExpiredChannelBans,
+  listChannelsWithBans,
+  isChannelBanExpired
+}
@@ -0,0 +1,64 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChatBot } from '../../../../shared/lib/types'
+import { readChannelData, storeChannelData, listChannelsWithData } from './storage'
+import { sanitizeChannelChatBot } from './sanitize'
+
+/**
+ * Returns the default chat bot configuration (disabled).
+ */
+function getDefaultChatBot (): ChatBot {
+  return {
+    enabled: false,
+    nickname: 'Bot',
+    welcomeMessage: '',
+    socials: [],
+    announcements: []
+  }
+}
+
+/**
+ * Returns the channel chat bot configuration.
+ * If there is no stored configuration, returns the default one.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the channel chat bot configuration
+ */
+async function getChannelChatBot (options: RegisterServerOptions, channelId: number): Promise<ChatBot> {
+  const content = await readChannelData(options, channelId, 'bot')
+  if (content === null) {
+    return getDefaultChatBot()
+  }
+  try {
+    return sanitizeChannelChatBot(options, channelId, content)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Invalid stored chat bot for channel ${channelId}:`, err)
+    return getDefaultChatBot()
+  }
+}
+
+/**
+ * Stores the channel chat bot configuration.
+ * Note: the configuration must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param bot configuration to store
+ */
+async function storeChannelChatBot (options: RegisterServerOptions, channelId: number, bot: ChatBot): Promise<void> {
+  await storeChannelData(options, channelId, 'bot', bot)
+}
+
+/**
+ * Lists channels that have a chat bot configuration (enabled or not).
+ * @param options server options
+ * @returns channel ids
+ */
+async function listChannelsWithChatBot (options: RegisterServerOptions): Promise<number[]> {
+  return listChannelsWithData(options, 'bot')
+}
+
+export {
+  getDefaultChatBot,
+  getChannelChatBot,
+  storeChannelChatBot,
+  listChannelsWithChatBot
+}
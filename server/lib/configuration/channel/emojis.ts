@@ -0,0 +1,144 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChannelEmojis } from '../../../../shared/lib/types'
+import type { CustomEmojiUpload } from './sanitize'
+import { readChannelData, storeChannelData, getChannelDataDir } from './storage'
+import { normalizeCustomEmojiShortName, maxCustomEmojis } from '../../../../shared/lib/emojis'
+import { getBaseRouterRoute } from '../../helpers'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/*
+Custom emojis definitions are stored in the «emojis» channel data: [{ sn, file }].
+Image files are stored in the «emojis» sub-directory of the channel data directory.
+*/
+
+// File names are generated from the short name, so they can't contain special chars.
+const fileNameRegexp = /^[a-zA-Z0-9_-]+\.(png|jpg|gif|webp)$/
+
+interface StoredCustomEmoji {
+  sn: string
+  file: string
+}
+
+/**
+ * Returns the channel custom emojis, with their public url.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the emojis
+ */
+async function getChannelEmojis (options: RegisterServerOptions, channelId: number): Promise<ChannelEmojis> {
+  const baseUrl = options.peertubeHelpers.config.getWebserverUrl() +
+    getBaseRouterRoute(options) +
+    'api/emojis/channel/' + channelId.toString() + '/'
+  return {
+    customEmojis: (await _readStoredEmojis(options, channelId)).map(e => ({
+      sn: e.sn,
+      url: baseUrl + encodeURIComponent(e.file)
+    }))
+  }
+}
+
+/**
+ * Adds (or replaces) a custom emoji.
+ * Note: the emoji must have been sanitized before calling this function.
+ * Throws an error if the channel has too many emojis.
+ * @param options server options
+ * @param channelId channel id
+ * @param emoji the emoji to add
+ */
+async function addChannelEmoji (
+  options: RegisterServerOptions,
+  channelId: number,
+  emoji: CustomEmojiUpload
+): Promise<void> {
+  const emojis = await _readStoredEmojis(options, channelId)
+  const existing = emojis.find(e => e.sn === emoji.sn)
+  if (!existing && emojis.length >= maxCustomEmojis) {
+    throw new Error(`Channel ${channelId} has too many custom emojis`)
+  }
+
+  const file = emoji.sn.replace(/:/g, '') + '.' + emoji.extension
+  const dir = _getEmojisDir(options, channelId)
+  if (!fs.existsSync(dir)) {
+    await fs.promises.mkdir(dir, { recursive: true })
+  }
+  await fs.promises.writeFile(path.resolve(dir, file), emoji.content)
+
+  if (existing) {
+    if (existing.file !== file) {
+      // The format has changed, removing the old file.
+      await _deleteEmojiFile(options, channelId, existing.file)
+    }
+    existing.file = file
+  } else {
+    emojis.push({ sn: emoji.sn, file })
+  }
+  await storeChannelData(options, channelId, 'emojis', emojis)
+}
+
+/**
+ * Deletes a custom emoji.
+ * @param options server options
+ * @param channelId channel id
+ * @param sn emoji short name (with or without colons)
+ * @returns false if the emoji was not found
+ */
+async function deleteChannelEmoji (options: RegisterServerOptions, channelId: number, sn: string): Promise<boolean> {
+  const normalized = normalizeCustomEmojiShortName(sn)
+  const emojis = await _readStoredEmojis(options, channelId)
+  const existing = emojis.find(e => e.sn === normalized)
+  if (!existing) {
+    return false
+  }
+  await storeChannelData(options, channelId, 'emojis', emojis.filter(e => e !== existing))
+  await _deleteEmojiFile(options, channelId, existing.file)
+  return true
+}
+
+/**
+ * Returns the path of a custom emoji file.
+ * @param options server options
+ * @param channelId channel id
+ * @param file file name
+ * @returns the file path, or null if the file name is invalid or the file does not exist
+ */
+function getChannelEmojiFilePath (options: RegisterServerOptions, channelId: number, file: string): string | null {
+  if (!fileNameRegexp.test(file)) {
+    return null
+  }
+  const filePath = path.resolve(_getEmojisDir(options, channelId), file)
+  return fs.existsSync(filePath) ? filePath : null
+}
+
+async function _readStoredEmojis (options: RegisterServerOptions, channelId: number): Promise<StoredCustomEmoji[]> {
+  const content = await readChannelData(options, channelId, 'emojis')
+  if (content === null) {
+    return []
+  }
+  if (!Array.isArray(content)) {
+    options.peertubeHelpers.logger.error(`Invalid stored custom emojis for channel ${channelId}: not an array`)
+    return []
+  }
+  return content.filter((e: any) => {
+    return typeof e?.sn === 'string' && normalizeCustomEmojiShortName(e.sn) === e.sn &&
+      typeof e.file === 'string' && fileNameRegexp.test(e.file)
+  }).map((e: any) => ({ sn: e.sn, file: e.file }))
+}
+
+async function _deleteEmojiFile (options: RegisterServerOptions, channelId: number, file: string): Promise<void> {
+  const filePath = path.resolve(_getEmojisDir(options, channelId), file)
+  if (!fs.existsSync(filePath)) { return }
+  options.peertubeHelpers.logger.info('Deleting file ' + filePath)
+  await fs.promises.rm(filePath)
+}
+
+function _getEmojisDir (options: RegisterServerOptions, channelId: number): string {
+  return path.resolve(getChannelDataDir(options, channelId), 'emojis')
+}
+
+export {
+  getChannelEmojis,
+  addChannelEmoji,
+  deleteChannelEmoji,
+  getChannelEmojiFilePath
+}
@@ -0,0 +1,73 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChatFilters } from '../../../../shared/lib/types'
+import { readChannelData, storeChannelData } from './storage'
+import { sanitizeChannelChatFilters } from './sanitize'
+
+/**
+ * Returns empty chat filters (no rules).
+ */
+function getDefaultChatFilters (): ChatFilters {
+  return {
+    forbiddenWords: [],
+    patterns: [],
+    blockLinks: false,
+    maxLength: 0,
+    maxCapsRatio: 0,
+    action: 'block',
+    kickAfter: 3
+  }
+}
+
+/**
+ * Returns the channel chat filters.
+ * If there is no stored filters, returns empty filters.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the channel chat filters
+ */
+async function getChannelChatFilters (options: RegisterServerOptions, channelId: number): Promise<ChatFilters> {
+  const content = await readChannelData(options, channelId, 'filters')
+  if (content === null) {
+    return getDefaultChatFilters()
+  }
+  try {
+    return sanitizeChannelChatFilters(options, channelId, content)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Invalid stored chat filters for channel ${channelId}:`, err)
+    return getDefaultChatFilters()
+  }
+}
+
+/**
+ * Stores the channel chat filters.
+ * Note: the filters must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param filters filters to store
+ */
+async function storeChannelChatFilters (
+  options: RegisterServerOptions,
+  channelId: number,
+  filters: ChatFilters
+): Promise<void> {
+  await storeChannelData(options, channelId, 'filters', filters)
+}
+
+/**
+ * @param filters chat filters
+ * @returns true if there is at least one rule to apply
+ */
+function hasChatFiltersRules (filters: ChatFilters): boolean {
+  return filters.forbiddenWords.length > 0 ||
+    filters.patterns.length > 0 ||
+    filters.blockLinks ||
+    filters.maxLength > 0 ||
+    filters.maxCapsRatio > 0
+}
+
+export {
+  getDefaultChatFilters,
+  getChannelChatFilters,
+  storeChannelChatFilters,
+  hasChatFiltersRules
+}
@@ -0,0 +1,14 @@
+/**
+ * Converts a user reference, as entered by the channel owner, to a JID.
+ * Local usernames are converted to JIDs on the Prosody domain, JIDs are kept as is.
+ * @param user local username or JID
+ * @param prosodyDomain the Prosody domain
+ * @returns the JID
+ */
+function channelUserToJID (user: string, prosodyDomain: string): string {
+  return user.includes('@') ? user : user + '@' + prosodyDomain
+}
+
+export {
+  channelUserToJID
+}
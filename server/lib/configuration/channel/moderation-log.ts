@@ -0,0 +1,74 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ModerationLogEntry } from '../../../../shared/lib/types'
+import { readChannelData, storeChannelData } from './storage'
+import { sanitizeModerationLogEntry } from './sanitize'
+
+// Maximum number of entries kept for each channel. Older entries are dropped.
+const maxModerationLogEntries = 10000
+
+// Pending writes, by channel. Entries are appended one after another, to not lose any.
+const pendingWrites = new Map<number, Promise<void>>()
+
+/**
+ * Returns the channel moderation log, ordered by date.
+ * @param options server options
+ * @param channelId channel id
+ * @returns log entries
+ */
+async function getChannelModerationLog (
+  options: RegisterServerOptions,
+  channelId: number
+): Promise<ModerationLogEntry[]> {
+  const content = await readChannelData(options, channelId, 'moderation_log')
+  if (content === null) {
+    return []
+  }
+  if (!Array.isArray(content)) {
+    options.peertubeHelpers.logger.error(`Invalid stored moderation log for channel ${channelId}: not an array`)
+    return []
+  }
+  const entries: ModerationLogEntry[] = []
+  for (const entry of content) {
+    try {
+      entries.push(sanitizeModerationLogEntry(options, channelId, entry))
+    } catch (err) {
+      options.peertubeHelpers.logger.error(`Invalid stored moderation log entry for channel ${channelId}:`, err)
+    }
+  }
+  return entries
+}
+
+/**
+ * Appends an entry to the channel moderation log.
+ * Note: the entry must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param entry the entry to add
+ */
+async function addChannelModerationLogEntry (
+  options: RegisterServerOptions,
+  channelId: number,
+  entry: ModerationLogEntry
+): Promise<void> {
+  const previous = pendingWrites.get(channelId) ?? Promise.resolve()
+  const write = previous.then(async () => {
+    const entries = await getChannelModerationLog(options, channelId)
+    entries.push(entry)
+    await storeChannelData(options, channelId, 'moderation_log', entries.slice(-maxModerationLogEntries))
+  })
+  // The chain must continue even if this write fails.
+  const next = write.catch(() => {})
+  pendingWrites.set(channelId, next)
+  try {
+    await write
+  } finally {
+    if (pendingWrites.get(channelId) === next) {
+      pendingWrites.delete(channelId)
+    }
+  }
+}
+
+export {
+  getChannelModerationLog,
+  addChannelModerationLogEntry
+}
@@ -0,0 +1,55 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { readChannelData, storeChannelData } from './storage'
+import { sanitizeChannelModerators } from './sanitize'
+import { channelUserToJID } from './jid'
+
+/**
+ * Returns the channel moderators list (as entered by the channel owner).
+ * @param options server options
+ * @param channelId channel id
+ * @returns local usernames or JIDs
+ */
+async function getChannelModerators (options: RegisterServerOptions, channelId: number): Promise<string[]> {
+  const content = await readChannelData(options, channelId, 'moderators')
+  if (content === null) {
+    return []
+  }
+  try {
+    return sanitizeChannelModerators(options, channelId, content)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Invalid stored moderators for channel ${channelId}:`, err)
+    return []
+  }
+}
+
+/**
+ * Stores the channel moderators list.
+ * Note: the list must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param moderators moderators to store
+ */
+async function storeChannelModerators (
+  options: RegisterServerOptions,
+  channelId: number,
+  moderators: string[]
+): Promise<void> {
+  await storeChannelData(options, channelId, 'moderators', moderators)
+}
+
+/**
+ * Converts moderators entries to JIDs.
+ * Local usernames are converted to JIDs on the Prosody domain.
+ * @param moderators local usernames or JIDs
+ * @param prosodyDomain the Prosody domain
+ * @returns JIDs
+ */
+function channelModeratorsToJIDs (moderators: string[], prosodyDomain: string): string[] {
+  return moderators.map(moderator => channelUserToJID(moderator, prosodyDomain))
+}
+
+export {
+  getChannelModerators,
+  storeChannelModerators,
+  channelModeratorsToJIDs
+}
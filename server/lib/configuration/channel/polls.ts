@@ -0,0 +1,80 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChatPoll } from '../../../../shared/lib/types'
+import { readChannelData, storeChannelData } from './storage'
+import { sanitizeChatPoll } from './sanitize'
+
+// Maximum number of polls kept for each channel. Older polls are dropped.
+const maxChannelPolls = 1000
+
+// Pending writes, by channel. Polls are appended one after another, to not lose any.
+const pendingWrites = new Map<number, Promise<void>>()
+
+/**
+ * Returns the finished polls of the channel rooms, ordered by end date.
+ * @param options server options
+ * @param channelId channel id
+ * @param room optional room localpart, to only get the polls of this room
+ * @returns polls
+ */
+async function getChannelPolls (
+  options: RegisterServerOptions,
+  channelId: number,
+  room?: string
+): Promise<ChatPoll[]> {
+  const content = await readChannelData(options, channelId, 'polls')
+  if (content === null) {
+    return []
+  }
+  if (!Array.isArray(content)) {
+    options.peertubeHelpers.logger.error(`Invalid stored polls for channel ${channelId}: not an array`)
+    return []
+  }
+  const polls: ChatPoll[] = []
+  for (const entry of content) {
+    try {
+      const poll = sanitizeChatPoll(options, channelId, entry)
+      if (room === undefined || poll.room === room) {
+        polls.push(poll)
+      }
+    } catch (err) {
+      options.peertubeHelpers.logger.error(`Invalid stored poll for channel ${channelId}:`, err)
+    }
+  }
+  return polls
+}
+
+/**
+ * Stores a finished poll.
+ * Note: the poll must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param poll the poll to add
+ */
+async function addChannelPoll (
+  options: RegisterServerOptions,
+  channelId: number,
+  poll: ChatPoll
+): Promise<void> {
+  const previous = pendingWrites.get(channelId) ?? Promise.resolve()
+  const write = previous.then(async () => {
+    // Prosody could send the same poll twice (for example if the first request timed out).
+    const polls = (await getChannelPolls(options, channelId)).filter(p => p.id !== poll.id || p.room !== poll.room)
+    polls.push(poll)
+    await storeChannelData(options, channelId, 'polls', polls.slice(-maxChannelPolls))
+  })
+  // The chain must continue even if this write fails.
+  const next = write.catch(() => {})
+  pendingWrites.set(channelId, next)
+  try {
+    await write
+  } finally {
+    if (pendingWrites.get(channelId) === next) {
+      pendingWrites.delete(channelId)
+    }
+  }
+}
+
+export {
+  getChannelPolls,
+  addChannelPoll
+}
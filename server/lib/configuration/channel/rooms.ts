@@ -0,0 +1,93 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChannelRoom } from '../../../../shared/lib/types'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import { getLocalVideosByChannelId } from '../../database/channel'
+import { getProsodyRoomsInfos } from '../../prosody/api/manage-rooms'
+import { getChannelRoomsStats } from './stats'
+
+/**
+ * Returns the existing rooms related to the channel:
+ * the channel room, and rooms of all local videos of the channel.
+ * @param options server options
+ * @param channelId channel id
+ * @returns existing rooms
+ */
+async function getChannelRooms (options: RegisterServerOptions, channelId: number): Promise<ChannelRoom[]> {
+  const prosodyDomain = await getProsodyDomain(options)
+  const videos = await getLocalVideosByChannelId(options, channelId)
+  const videosByUUID = new Map(videos.map(video => [video.uuid, video]))
+  const roomJIDs = ['channel.' + channelId.toString(), ...videosByUUID.keys()]
+    .map(localpart => localpart + '@room.' + prosodyDomain)
+
+  const rooms = await getProsodyRoomsInfos(options, roomJIDs)
+  const stats = await getChannelRoomsStats(options, channelId)
+  return rooms.map(room => {
+    const channelRoom: ChannelRoom = {
+      jid: room.jid,
+      localpart: room.localpart,
+      name: room.name,
+      subject: room.subject,
+      occupants: room.occupants,
+      lasttimestamp: room.lasttimestamp
+    }
+    const roomStats = stats.get(room.localpart)
+    if (roomStats) {
+      channelRoom.stats = roomStats
+    }
+    const video = videosByUUID.get(room.localpart)
+    if (video) {
+      channelRoom.video = {
+        uuid: video.uuid,
+        name: video.name
+      }
+    }
+    return channelRoom
+  })
+}
+
+/**
+ * Returns the room JID, if the room localpart is related to the channel.
+ * Returns null otherwise.
+ * Note: the room may not exist.
+ * @param options server options
+ * @param channelId channel id
+ * @param localpart room localpart (video uuid, or channel.<id>)
+ * @returns the room JID, or null
+ */
+async function getChannelRoomJID (
+  options: RegisterServerOptions,
+  channelId: number,
+  localpart: string
+): Promise<string | null> {
+  if (localpart !== 'channel.' + channelId.toString()) {
+    const videos = await getLocalVideosByChannelId(options, channelId)
+    if (!videos.find(video => video.uuid === localpart)) {
+      return null
+    }
+  }
+  return localpart + '@room.' + await getProsodyDomain(options)
+}
+
+/**
+ * Returns the channel related to a room.
+ * @param options server options
+ * @param localpart room localpart (video uuid, or channel.<id>)
+ * @returns the channel id, or null if not found
+ */
+async function getRoomChannelId (options: RegisterServerOptions, localpart: string): Promise<number | null> {
+  const matches = localpart.match(/^channel\.(\d+)$/)
+  if (matches?.[1]) {
+    return parseInt(matches[1])
+  }
+  if (!/^[0-9a-f-]+$/.test(localpart)) {
+    return null
+  }
+  const video = await options.peertubeHelpers.videos.loadByIdOrUUID(localpart)
+  return video?.channelId ?? null
+}
+
+export {
+  getChannelRooms,
+  getChannelRoomJID,
+  getRoomChannelId
+}
@@ -0,0 +1,707 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type {
+  ChannelConfigurationOptions, ChannelBan, ChatFilters, ChatFiltersAction, ModerationLogEntry, ModerationLogAction,
+  ChatPoll, ChatPollChoice, ChatBot, ChatBotAnnouncement, ScheduledAnnouncement
+} from '../../../../shared/lib/types'
+import {
+  customEmojiFormats, maxCustomEmojiSize, normalizeCustomEmojiShortName
+} from '../../../../shared/lib/emojis'
+import { randomBytes } from 'crypto'
+
+/**
+ * A custom emoji, as uploaded by the channel owner.
+ */
+interface CustomEmojiUpload {
+  sn: string
+  extension: string
+  content: Buffer
+}
+
+/**
+ * A room activity sample, as reported by Prosody.
+ * duration is the sample duration in seconds. Participants are hashed JIDs of the users who joined during the sample.
+ */
+interface RoomStatsSample {
+  room: string
+  date: string
+  duration: number
+  messages: number
+  occupants: number
+  peakOccupants: number
+  authenticatedParticipants: string[]
+  anonymousParticipants: string[]
+}
+
+/**
+ * Sanitize data so that they can safely be used as ChannelConfigurationOptions.
+ * Values that are null or undefined are removed (the instance value will be used).
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized options
+ */
+function sanitizeChannelConfigurationOptions (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ChannelConfigurationOptions {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid configuration options for channel ${channelId}: not an object`)
+  }
+
+  const result: ChannelConfigurationOptions = {}
+
+  for (const key of [
+    'chat-per-live-video', 'chat-all-lives', 'chat-all-non-lives', 'chat-no-anonymous', 'chat-live-state-rooms',
+    'federation-bans-apply'
+  ] as const) {
+    const value = data[key]
+    if (value === undefined || value === null) { continue }
+    if (typeof value !== 'boolean') {
+      throw new Error(`Invalid value for ${key}: must be a boolean`)
+    }
+    result[key] = value
+  }
+
+  const roomType = data['prosody-room-type']
+  if (roomType !== undefined && roomType !== null) {
+    if (roomType !== 'video' && roomType !== 'channel') {
+      throw new Error('Invalid value for prosody-room-type')
+    }
+    result['prosody-room-type'] = roomType
+  }
+
+  const theme = data['converse-theme']
+  if (theme !== undefined && theme !== null) {
+    if (theme !== 'peertube' && theme !== 'default' && theme !== 'concord') {
+      throw new Error('Invalid value for converse-theme')
+    }
+    result['converse-theme'] = theme
+  }
+
+  return result
+}
+
+/**
+ * Sanitize data so that they can safely be used as a channel moderators list.
+ * Each entry must be a local PeerTube username, or a JID (for remote users).
+ * Entries are trimmed and lowercased, empty entries and duplicates are removed.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized moderators list
+ */
+function sanitizeChannelModerators (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): string[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid moderators for channel ${channelId}: not an array`)
+  }
+  if (data.length > maxChannelModerators) {
+    throw new Error(`Invalid moderators for channel ${channelId}: too many entries`)
+  }
+
+  const result: string[] = []
+  for (const entry of data) {
+    if (typeof entry !== 'string') {
+      throw new Error(`Invalid moderators for channel ${channelId}: entries must be strings`)
+    }
+    if (entry.trim() === '') { continue }
+    const moderator = _sanitizeChannelUser(channelId, entry)
+    if (!result.includes(moderator)) {
+      result.push(moderator)
+    }
+  }
+  return result
+}
+
+/**
+ * Sanitize data so that they can safely be used as a channel ban.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized ban
+ */
+function sanitizeChannelBan (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ChannelBan {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid ban for channel ${channelId}: not an object`)
+  }
+
+  const reason = data.reason ?? ''
+  if (typeof reason !== 'string' || reason.length > 500) {
+    throw new Error(`Invalid ban reason for channel ${channelId}`)
+  }
+  if (typeof data.author !== 'string' || data.author === '') {
+    throw new Error(`Invalid ban author for channel ${channelId}`)
+  }
+  if (!_isValidDate(data.date)) {
+    throw new Error(`Invalid ban date for channel ${channelId}`)
+  }
+
+  const result: ChannelBan = {
+    user: _sanitizeChannelUser(channelId, data.user),
+    reason: reason.trim(),
+    author: data.author,
+    date: new Date(data.date).toISOString()
+  }
+  if (data.expires !== undefined && data.expires !== null && data.expires !== '') {
+    if (!_isValidDate(data.expires)) {
+      throw new Error(`Invalid ban expiration date for channel ${channelId}`)
+    }
+    result.expires = new Date(data.expires).toISOString()
+  }
+  return result
+}
+
+/**
+ * Sanitize data so that they can safely be used as a channel ban list.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized bans
+ */
+function sanitizeChannelBans (
+  options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ChannelBan[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid bans for channel ${channelId}: not an array`)
+  }
+  return data.map(ban => sanitizeChannelBan(options, channelId, ban))
+}
+
+/**
+ * Sanitize data so that they can safely be used as channel chat filters.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized chat filters
+ */
+function sanitizeChannelChatFilters (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ChatFilters {
+  return sanitizeChatFilters(data, `channel ${channelId}`)
+}
+
+/**
+ * Sanitize data so that they can safely be used as chat filters (for a channel, or for the instance).
+ * Words and patterns are trimmed, empty entries and duplicates are removed. Words are lowercased.
+ * Patterns are regular expressions: invalid or unsupported patterns are rejected (see checkChatFilterPattern).
+ * Throws an error if there are invalid values.
+ * @param data data to sanitize
+ * @param context used in error messages
+ * @returns sanitized chat filters
+ */
+function sanitizeChatFilters (data: any, context: string): ChatFilters {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid chat filters for ${context}: not an object`)
+  }
+
+  const forbiddenWords = _sanitizeStringList(
+    data.forbiddenWords ?? [], maxChatFiltersWords, 100, `words for ${context}`
+  ).map(word => word.toLowerCase())
+  const patterns = _sanitizeStringList(data.patterns ?? [], maxChatFiltersPatterns, 200, `patterns for ${context}`)
+  for (const pattern of patterns) {
+    checkChatFilterPattern(pattern, `pattern '${pattern}' for ${context}`)
+  }
+
+  const blockLinks = data.blockLinks ?? false
+  if (typeof blockLinks !== 'boolean') {
+    throw new Error(`Invalid chat filters for ${context}: blockLinks must be a boolean`)
+  }
+  const maxLength = _sanitizeInteger(data.maxLength ?? 0, 0, 10000, `maxLength for ${context}`)
+  const maxCapsRatio = _sanitizeInteger(data.maxCapsRatio ?? 0, 0, 100, `maxCapsRatio for ${context}`)
+  const kickAfter = _sanitizeInteger(data.kickAfter ?? 3, 1, 100, `kickAfter for ${context}`)
+
+  const action: ChatFiltersAction = data.action ?? 'block'
+  if (action !== 'block' && action !== 'retract' && action !== 'kick') {
+    throw new Error(`Invalid chat filters for ${context}: invalid action`)
+  }
+
+  return {
+    forbiddenWords: forbiddenWords.filter((word, i) => forbiddenWords.indexOf(word) === i),
+    patterns,
+    blockLinks,
+    maxLength,
+    maxCapsRatio,
+    action,
+    kickAfter
+  }
+}
+
+/**
+ * Checks that a chat filter pattern is a valid regular expression, that mod_muc_peertubelivechat_filters can apply.
+ * Prosody uses its own engine, that supports a subset of the Javascript syntax:
+ * lookarounds, named groups, backreferences, other escape sequences (\u, \p, ...)
+ * and repetitions above 1000 are rejected.
+ * Throws an error if the pattern is invalid.
+ * @param pattern the pattern
+ * @param context used in error messages
+ */
+function checkChatFilterPattern (pattern: string, context: string): void {
+  try {
+    // eslint-disable-next-line no-new
+    new RegExp(pattern, 'i')
+  } catch (err) {
+    throw new Error(`Invalid ${context}: ${(err as Error).message}`)
+  }
+  let inSet = false
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '\\') {
+      const next = pattern[i + 1]
+      if (/[a-zA-Z0-9]/.test(next) && !(inSet ? 'dDwWsSnrtfv' : 'dDwWsSbBnrtfv').includes(next)) {
+        throw new Error(`Invalid ${context}: the \\${next} escape sequence is not supported`)
+      }
+      i++
+    } else if (inSet) {
+      if (c === ']') { inSet = false }
+    } else if (c === '[') {
+      inSet = true
+    } else if (c === '(' && pattern[i + 1] === '?' && pattern[i + 2] !== ':') {
+      throw new Error(`Invalid ${context}: lookarounds and named groups are not supported`)
+    } else if (c === '{') {
+      const m = /^\{(\d+)(?:,(\d*))?\}/.exec(pattern.substring(i))
+      if (m && (parseInt(m[1]) > 1000 || parseInt(m[2] || '0') > 1000)) {
+        throw new Error(`Invalid ${context}: repetitions can't exceed 1000`)
+      }
+    }
+  }
+}
+
+/**
+ * Sanitize data so that they can safely be used as the channel chat bot configuration.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized chat bot configuration
+ */
+function sanitizeChannelChatBot (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ChatBot {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid chat bot for channel ${channelId}: not an object`)
+  }
+
+  const enabled = data.enabled ?? false
+  if (typeof enabled !== 'boolean') {
+    throw new Error(`Invalid chat bot for channel ${channelId}: enabled must be a boolean`)
+  }
+
+  const nickname: string = typeof data.nickname === 'string' ? data.nickname.trim() : ''
+  // The nickname is used as a MUC nick (the resource of the room JID).
+  if (
+    nickname === '' || nickname.length > 32 ||
+    Array.from(nickname).some(c => c === '/' || c.charCodeAt(0) < 32)
+  ) {
+    throw new Error(`Invalid chat bot nickname for channel ${channelId}`)
+  }
+
+  const welcomeMessage = typeof data.welcomeMessage === 'string' ? data.welcomeMessage.trim() : ''
+  if (welcomeMessage.length > maxChatBotMessageLength) {
+    throw new Error(`Invalid chat bot welcome message for channel ${channelId}: too long`)
+  }
+
+  const socials = _sanitizeStringList(
+    data.socials ?? [], maxChatBotSocials, 500, `chat bot socials for channel ${channelId}`
+  )
+
+  if (!Array.isArray(data.announcements ?? [])) {
+    throw new Error(`Invalid chat bot announcements for channel ${channelId}: not an array`)
+  }
+  const announcements: ChatBotAnnouncement[] = []
+  for (const announcement of data.announcements ?? []) {
+    const message = typeof announcement?.message === 'string' ? announcement.message.trim() : ''
+    if (message === '' || message.length > maxChatBotMessageLength) {
+      throw new Error(`Invalid chat bot announcement message for channel ${channelId}`)
+    }
+    announcements.push({
+      message,
+      interval: _sanitizeInteger(
+        announcement.interval, 1, 1440, `chat bot announcement interval for channel ${channelId}`
+      )
+    })
+  }
+  if (announcements.length > maxChatBotAnnouncements) {
+    throw new Error(`Invalid chat bot announcements for channel ${channelId}: too many entries`)
+  }
+
+  return {
+    enabled,
+    nickname,
+    welcomeMessage,
+    socials,
+    announcements
+  }
+}
+
+/**
+ * Sanitize data so that they can safely be used as the channel scheduled announcements.
+ * New announcements (without id) get a random id.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized announcements
+ */
+function sanitizeChannelAnnouncements (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ScheduledAnnouncement[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid announcements for channel ${channelId}: not an array`)
+  }
+  if (data.length > maxScheduledAnnouncements) {
+    throw new Error(`Invalid announcements for channel ${channelId}: too many entries`)
+  }
+  const result: ScheduledAnnouncement[] = []
+  for (const entry of data) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new Error(`Invalid announcement for channel ${channelId}: not an object`)
+    }
+    let id: string
+    if (entry.id === undefined || entry.id === null || entry.id === '') {
+      id = randomBytes(8).toString('hex')
+    } else if (typeof entry.id === 'string' && /^[0-9a-f]{1,32}$/.test(entry.id)) {
+      id = entry.id
+    } else {
+      throw new Error(`Invalid announcement id for channel ${channelId}`)
+    }
+    if (result.find(a => a.id === id)) {
+      throw new Error(`Invalid announcement id for channel ${channelId}: duplicate`)
+    }
+    const message = typeof entry.message === 'string' ? entry.message.trim() : ''
+    if (message === '' || message.length > maxChatBotMessageLength) {
+      throw new Error(`Invalid announcement message for channel ${channelId}`)
+    }
+    if (entry.type === 'recurring') {
+      result.push({
+        id,
+        type: 'recurring',
+        message,
+        interval: _sanitizeInteger(entry.interval, 1, 1440, `announcement interval for channel ${channelId}`)
+      })
+    } else if (entry.type === 'once') {
+      if (!_isValidDate(entry.date)) {
+        throw new Error(`Invalid announcement date for channel ${channelId}`)
+      }
+      result.push({
+        id,
+        type: 'once',
+        message,
+        date: new Date(entry.date).toISOString()
+      })
+    } else {
+      throw new Error(`Invalid announcement type for channel ${channelId}`)
+    }
+  }
+  return result
+}
+
+/**
+ * Sanitize data so that they can safely be used as a moderation log entry.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized entry
+ */
+function sanitizeModerationLogEntry (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ModerationLogEntry {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid moderation log entry for channel ${channelId}: not an object`)
+  }
+  if (!_isValidDate(data.date)) {
+    throw new Error(`Invalid moderation log entry date for channel ${channelId}`)
+  }
+  const action: ModerationLogAction = data.action
+  if (!['retract', 'kick', 'ban', 'role', 'affiliation'].includes(action)) {
+    throw new Error(`Invalid moderation log entry action for channel ${channelId}`)
+  }
+  for (const key of ['room', 'actor', 'target'] as const) {
+    if (typeof data[key] !== 'string' || data[key] === '' || data[key].length > 3071) {
+      throw new Error(`Invalid moderation log entry ${key} for channel ${channelId}`)
+    }
+  }
+
+  const result: ModerationLogEntry = {
+    date: new Date(data.date).toISOString(),
+    room: data.room,
+    action,
+    actor: data.actor,
+    target: data.target
+  }
+  for (const key of ['reason', 'details'] as const) {
+    const value = data[key]
+    if (value === undefined || value === null || value === '') { continue }
+    if (typeof value !== 'string') {
+      throw new Error(`Invalid moderation log entry ${key} for channel ${channelId}`)
+    }
+    result[key] = value.substring(0, 1000)
+  }
+  return result
+}
+
+/**
+ * Sanitize data so that they can safely be used as a finished poll.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns sanitized poll
+ */
+function sanitizeChatPoll (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): ChatPoll {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid poll for channel ${channelId}: not an object`)
+  }
+  if (typeof data.id !== 'string' || !/^[\w-]{1,64}$/.test(data.id)) {
+    throw new Error(`Invalid poll id for channel ${channelId}`)
+  }
+  for (const key of ['room', 'question', 'creator'] as const) {
+    if (typeof data[key] !== 'string' || data[key] === '' || data[key].length > 3071) {
+      throw new Error(`Invalid poll ${key} for channel ${channelId}`)
+    }
+  }
+  for (const key of ['startDate', 'endDate'] as const) {
+    if (!_isValidDate(data[key])) {
+      throw new Error(`Invalid poll ${key} for channel ${channelId}`)
+    }
+  }
+  if (!Array.isArray(data.choices) || data.choices.length < 2 || data.choices.length > maxChatPollChoices) {
+    throw new Error(`Invalid poll choices for channel ${channelId}`)
+  }
+  const choices: ChatPollChoice[] = []
+  for (const choice of data.choices) {
+    if (typeof choice?.label !== 'string' || choice.label === '' || choice.label.length > 3071) {
+      throw new Error(`Invalid poll choice label for channel ${channelId}`)
+    }
+    choices.push({
+      label: choice.label,
+      votes: _sanitizeInteger(choice.votes, 0, Number.MAX_SAFE_INTEGER, `poll choice votes for channel ${channelId}`)
+    })
+  }
+
+  return {
+    id: data.id,
+    room: data.room,
+    question: data.question,
+    choices,
+    creator: data.creator,
+    startDate: new Date(data.startDate).toISOString(),
+    endDate: new Date(data.endDate).toISOString()
+  }
+}
+
+/**
+ * Sanitize an uploaded custom emoji.
+ * The image must be given as a base64 data url, and its content must match the announced format.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize ({ sn, data })
+ * @returns the sanitized emoji
+ */
+function sanitizeCustomEmojiUpload (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): CustomEmojiUpload {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid custom emoji for channel ${channelId}: not an object`)
+  }
+  const sn = typeof data.sn === 'string' ? normalizeCustomEmojiShortName(data.sn) : null
+  if (!sn) {
+    throw new Error(`Invalid custom emoji short name for channel ${channelId}`)
+  }
+  const matches = typeof data.data === 'string' ? data.data.match(/^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/) : null
+  if (!matches) {
+    throw new Error(`Invalid custom emoji data for channel ${channelId}: not a base64 data url`)
+  }
+  const extension = customEmojiFormats[matches[1]]
+  if (!extension) {
+    throw new Error(`Invalid custom emoji format for channel ${channelId}: ${matches[1] as string}`)
+  }
+  const content = Buffer.from(matches[2], 'base64')
+  if (content.length === 0 || content.length > maxCustomEmojiSize) {
+    throw new Error(`Invalid custom emoji size for channel ${channelId}`)
+  }
+  if (!_checkImageSignature(content, extension)) {
+    throw new Error(`Invalid custom emoji content for channel ${channelId}: does not match the ${extension} format`)
+  }
+  return {
+    sn,
+    extension,
+    content
+  }
+}
+
+/**
+ * Sanitize a room activity sample sent by Prosody.
+ * Throws an error if there are invalid values.
+ * @param options server options
+ * @param channelId channel id
+ * @param data data to sanitize
+ * @returns the sanitized sample
+ */
+function sanitizeRoomStatsSample (
+  _options: RegisterServerOptions,
+  channelId: number,
+  data: any
+): RoomStatsSample {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid stats sample for channel ${channelId}: not an object`)
+  }
+  if (typeof data.room !== 'string' || data.room === '' || data.room.length > 3071) {
+    throw new Error(`Invalid stats sample room for channel ${channelId}`)
+  }
+  if (!_isValidDate(data.date)) {
+    throw new Error(`Invalid stats sample date for channel ${channelId}`)
+  }
+  const result: RoomStatsSample = {
+    room: data.room,
+    date: new Date(data.date).toISOString(),
+    duration: _sanitizeInteger(data.duration, 1, 86400, `stats sample duration for channel ${channelId}`),
+    messages: _sanitizeInteger(
+      data.messages, 0, Number.MAX_SAFE_INTEGER, `stats sample messages for channel ${channelId}`
+    ),
+    occupants: _sanitizeInteger(
+      data.occupants, 0, Number.MAX_SAFE_INTEGER, `stats sample occupants for channel ${channelId}`
+    ),
+    peakOccupants: _sanitizeInteger(
+      data.peakOccupants, 0, Number.MAX_SAFE_INTEGER, `stats sample peak occupants for channel ${channelId}`
+    ),
+    authenticatedParticipants: [],
+    anonymousParticipants: []
+  }
+  for (const key of ['authenticatedParticipants', 'anonymousParticipants'] as const) {
+    // Lua encodes empty tables as objects.
+    const value = Array.isArray(data[key]) ? data[key] : []
+    result[key] = _sanitizeStringList(
+      value, maxStatsSampleParticipants, 40, `stats sample ${key} for channel ${channelId}`
+    )
+    if (result[key].find(id => !/^[0-9a-f]{40}$/.test(id))) {
+      throw new Error(`Invalid stats sample ${key} for channel ${channelId}: must be sha1 hashes`)
+    }
+  }
+  return result
+}
+
+function _checkImageSignature (content: Buffer, extension: string): boolean {
+  switch (extension) {
+    case 'png':
+      return content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    case 'jpg':
+      return content.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))
+    case 'gif':
+      return ['GIF87a', 'GIF89a'].includes(content.subarray(0, 6).toString('latin1'))
+    case 'webp':
+      return content.subarray(0, 4).toString('latin1') === 'RIFF' &&
+        content.subarray(8, 12).toString('latin1') === 'WEBP'
+  }
+  return false
+}
+
+function _sanitizeStringList (value: any, maxEntries: number, maxLength: number, context: string): string[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid ${context}: not an array`)
+  }
+  const result: string[] = []
+  for (const entry of value) {
+    if (typeof entry !== 'string') {
+      throw new Error(`Invalid ${context}: entries must be strings`)
+    }
+    const s = entry.trim()
+    if (s === '' || result.includes(s)) { continue }
+    if (s.length > maxLength) {
+      throw new Error(`Invalid ${context}: entries must not exceed ${maxLength} characters`)
+    }
+    result.push(s)
+  }
+  if (result.length > maxEntries) {
+    throw new Error(`Invalid ${context}: too many entries`)
+  }
+  return result
+}
+
+function _sanitizeInteger (value: any, min: number, max: number, context: string): number {
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+    value = parseInt(value)
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Invalid ${context}: must be an integer between ${min} and ${max}`)
+  }
+  return value
+}
+
+function _isValidDate (value: any): boolean {
+  if (typeof value !== 'string' && typeof value !== 'number') { return false }
+  return !isNaN(new Date(value).getTime())
+}
+
+/**
+ * Sanitize a user reference: a local PeerTube username, or a JID (for remote users).
+ * Throws an error if invalid.
+ */
+function _sanitizeChannelUser (channelId: number, entry: any): string {
+  if (typeof entry !== 'string') {
+    throw new Error(`Invalid user for channel ${channelId}: not a string`)
+  }
+  const user = entry.trim().toLowerCase()
+  if (!/^[a-z0-9_.-]+$/.test(user) && !/^[^@\s/]+@[a-z0-9.-]+$/.test(user)) {
+    throw new Error(`Invalid user for channel ${channelId}: ${user}`)
+  }
+  return user
+}
+
+const maxChannelModerators = 100
+const maxChatFiltersWords = 500
+const maxChatFiltersPatterns = 100
+const maxChatPollChoices = 10
+const maxStatsSampleParticipants = 10000
+const maxChatBotSocials = 20
+const maxChatBotAnnouncements = 10
+const maxChatBotMessageLength = 1000
+const maxScheduledAnnouncements = 20
+
+export {
+  sanitizeChannelConfigurationOptions,
+  sanitizeChannelModerators,
+  sanitizeChannelBan,
+  sanitizeChannelBans,
+  sanitizeChannelChatFilters,
+  sanitizeChatFilters,
+  checkChatFilterPattern,
+  sanitizeChannelChatBot,
+  sanitizeChannelAnnouncements,
+  sanitizeModerationLogEntry,
+  sanitizeChatPoll,
+  sanitizeCustomEmojiUpload,
+  sanitizeRoomStatsSample,
+  CustomEmojiUpload,
+  RoomStatsSample
+}
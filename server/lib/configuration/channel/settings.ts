@@ -0,0 +1,51 @@
+import type { RegisterServerOptions, SettingEntries } from '@peertube/peertube-types'
+import type { ChannelConfigurationOptions } from '../../../../shared/lib/types'
+import { getChannelConfigurationOptions } from './storage'
+
+/**
+ * Returns the settings values to use for a given channel.
+ * For settings that can be overridden by the channel owner, returns the channel value if any.
+ * For other settings, returns the instance value.
+ *
+ * Note: chat-no-anonymous can only be enabled by the channel.
+ * If anonymous users are disabled on the instance, there is no anonymous Prosody virtualhost,
+ * so the channel can't enable them.
+ * @param options server options
+ * @param channelId channel id. If null, returns the instance settings.
+ * @param names settings names
+ * @returns the effective settings values
+ */
+async function getChannelEffectiveSettings (
+  options: RegisterServerOptions,
+  channelId: number | null,
+  names: string[]
+): Promise<SettingEntries> {
+  const settings = await options.settingsManager.getSettings(names)
+  if (channelId === null) {
+    return settings
+  }
+
+  let channelOptions: ChannelConfigurationOptions
+  try {
+    channelOptions = await getChannelConfigurationOptions(options, channelId)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Failed to load configuration options for channel ${channelId}`, err)
+    return settings
+  }
+
+  for (const name of names) {
+    if (!(name in channelOptions)) { continue }
+    const value = channelOptions[name as keyof ChannelConfigurationOptions]
+    if (value === undefined) { continue }
+    if (name === 'chat-no-anonymous') {
+      settings[name] = !!settings[name] || !!value
+      continue
+    }
+    settings[name] = value
+  }
+  return settings
+}
+
+export {
+  getChannelEffectiveSettings
+}
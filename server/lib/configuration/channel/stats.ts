@@ -0,0 +1,155 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { RoomStats } from '../../../../shared/lib/types'
+import type { RoomStatsSample } from './sanitize'
+import { readChannelData, storeChannelData } from './storage'
+
+/*
+Rooms statistics are stored in the «stats» channel data, by room localpart.
+Participants are stored as hashed JIDs (computed by Prosody), to count distinct users without keeping their JIDs.
+*/
+
+interface StoredRoomStats {
+  firstDate: string
+  lastDate: string
+  duration: number // in seconds, sum of samples durations
+  messages: number
+  peakMessagesPerMinute: number
+  peakOccupants: number
+  peakOccupantsDate?: string
+  authenticatedParticipants: string[]
+  anonymousParticipants: string[]
+}
+
+type StoredChannelStats = Record<string, StoredRoomStats>
+
+// Pending writes, by channel. Samples are merged one after another, to not lose any.
+const pendingWrites = new Map<number, Promise<void>>()
+
+/**
+ * Returns the statistics of all rooms of the channel that had some activity.
+ * @param options server options
+ * @param channelId channel id
+ * @returns statistics, by room localpart
+ */
+async function getChannelRoomsStats (
+  options: RegisterServerOptions,
+  channelId: number
+): Promise<Map<string, RoomStats>> {
+  const stored = await _readStoredStats(options, channelId)
+  const result = new Map<string, RoomStats>()
+  for (const [room, stats] of Object.entries(stored)) {
+    result.set(room, _toRoomStats(room, stats))
+  }
+  return result
+}
+
+/**
+ * Returns the statistics of a room.
+ * @param options server options
+ * @param channelId channel id
+ * @param room room localpart
+ * @returns statistics, or null if there is no statistics for this room
+ */
+async function getRoomStats (
+  options: RegisterServerOptions,
+  channelId: number,
+  room: string
+): Promise<RoomStats | null> {
+  return (await getChannelRoomsStats(options, channelId)).get(room) ?? null
+}
+
+/**
+ * Merges an activity sample in the room statistics.
+ * Note: the sample must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param sample the sample to add
+ */
+async function addRoomStatsSample (
+  options: RegisterServerOptions,
+  channelId: number,
+  sample: RoomStatsSample
+): Promise<void> {
+  const previous = pendingWrites.get(channelId) ?? Promise.resolve()
+  const write = previous.then(async () => {
+    const stored = await _readStoredStats(options, channelId)
+    const stats: StoredRoomStats = stored[sample.room] ?? {
+      firstDate: sample.date,
+      lastDate: sample.date,
+      duration: 0,
+      messages: 0,
+      peakMessagesPerMinute: 0,
+      peakOccupants: 0,
+      authenticatedParticipants: [],
+      anonymousParticipants: []
+    }
+    stats.lastDate = sample.date
+    stats.duration += sample.duration
+    stats.messages += sample.messages
+    stats.peakMessagesPerMinute = Math.max(
+      stats.peakMessagesPerMinute,
+      Math.round(sample.messages * 60 / sample.duration)
+    )
+    if (sample.peakOccupants > stats.peakOccupants) {
+      stats.peakOccupants = sample.peakOccupants
+      stats.peakOccupantsDate = sample.date
+    }
+    for (const key of ['authenticatedParticipants', 'anonymousParticipants'] as const) {
+      const participants = new Set(stats[key])
+      for (const id of sample[key]) {
+        participants.add(id)
+      }
+      stats[key] = Array.from(participants)
+    }
+    stored[sample.room] = stats
+    await storeChannelData(options, channelId, 'stats', stored)
+  })
+  // The chain must continue even if this write fails.
+  const next = write.catch(() => {})
+  pendingWrites.set(channelId, next)
+  try {
+    await write
+  } finally {
+    if (pendingWrites.get(channelId) === next) {
+      pendingWrites.delete(channelId)
+    }
+  }
+}
+
+async function _readStoredStats (options: RegisterServerOptions, channelId: number): Promise<StoredChannelStats> {
+  const content = await readChannelData(options, channelId, 'stats')
+  if (content === null) {
+    return {}
+  }
+  if (typeof content !== 'object' || Array.isArray(content)) {
+    options.peertubeHelpers.logger.error(`Invalid stored stats for channel ${channelId}: not an object`)
+    return {}
+  }
+  return content as StoredChannelStats
+}
+
+function _toRoomStats (room: string, stats: StoredRoomStats): RoomStats {
+  const minutes = stats.duration / 60
+  const result: RoomStats = {
+    room,
+    firstDate: stats.firstDate,
+    lastDate: stats.lastDate,
+    participants: stats.authenticatedParticipants.length + stats.anonymousParticipants.length,
+    authenticatedParticipants: stats.authenticatedParticipants.length,
+    anonymousParticipants: stats.anonymousParticipants.length,
+    messages: stats.messages,
+    messagesPerMinute: minutes > 0 ? Math.round(stats.messages * 10 / minutes) / 10 : 0,
+    peakMessagesPerMinute: stats.peakMessagesPerMinute,
+    peakOccupants: stats.peakOccupants
+  }
+  if (stats.peakOccupantsDate) {
+    result.peakOccupantsDate = stats.peakOccupantsDate
+  }
+  return result
+}
+
+export {
+  getChannelRoomsStats,
+  getRoomStats,
+  addRoomStatsSample
+}
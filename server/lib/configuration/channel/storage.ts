@@ -0,0 +1,187 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChannelConfigurationOptions } from '../../../../shared/lib/types'
+import { sanitizeChannelConfigurationOptions } from './sanitize'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/*
+Per channel data are stored in files, in the plugin data directory.
+See server/lib/federation/storage.ts for the reasons why we are not using storageManager:
+storageManager stores everything in one JSON attribute on the plugin tuple, and there
+can be many channels.
+
+Each channel has its own directory: channelConfiguration/<channelId>/.
+This directory contains one JSON file per kind of data (options, ...).
+*/
+
+const cache: Map<string, any> = new Map<string, any>()
+
+/**
+ * Returns the channel configuration options.
+ * If there is no stored options, returns an empty object (all values will be the instance ones).
+ * @param options server options
+ * @param channelId channel id
+ * @returns the channel configuration options
+ */
+async function getChannelConfigurationOptions (
+  options: RegisterServerOptions,
+  channelId: number
+): Promise<ChannelConfigurationOptions> {
+  const content = await readChannelData(options, channelId, 'options')
+  if (content === null) {
+    return {}
+  }
+  try {
+    // We must sanitize here, in case the file was manually edited, or written by an older plugin version.
+    return sanitizeChannelConfigurationOptions(options, channelId, content)
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Invalid stored configuration options for channel ${channelId}:`, err)
+    return {}
+  }
+}
+
+/**
+ * Stores the channel configuration options.
+ * Note: the options must have been sanitized before calling this function.
+ * @param options server options
+ * @param channelId channel id
+ * @param channelConfigurationOptions options to store
+ */
+async function storeChannelConfigurationOptions (
+  options: RegisterServerOptions,
+  channelId: number,
+  channelConfigurationOptions: ChannelConfigurationOptions
+): Promise<void> {
+  await storeChannelData(options, channelId, 'options', channelConfigurationOptions)
+}
+
+/**
+ * Reads some channel data.
+ * @param options server options
+ * @param channelId channel id
+ * @param name name of the data (used as file name, must only contain word chars)
+ * @returns the JSON parsed content, or null if there is no data
+ */
+async function readChannelData (options: RegisterServerOptions, channelId: number, name: string): Promise<any | null> {
+  const logger = options.peertubeHelpers.logger
+  const filePath = _getFilePath(options, channelId, name)
+
+  const cached = cache.get(filePath)
+  if (cached !== undefined) { return cached }
+
+  try {
+    if (!fs.existsSync(filePath)) {
+      cache.set(filePath, null)
+      return null
+    }
+    const content = await fs.promises.readFile(filePath, {
+      encoding: 'utf-8'
+    })
+    const json = JSON.parse(content)
+    cache.set(filePath, json)
+    return json
+  } catch (err) {
+    logger.error(err)
+    return null
+  }
+}
+
+/**
+ * Stores some channel data.
+ * @param options server options
+ * @param channelId channel id
+ * @param name name of the data (used as file name, must only contain word chars)
+ * @param content the content to store (will be JSON encoded)
+ */
+async function storeChannelData (
+  options: RegisterServerOptions,
+  channelId: number,
+  name: string,
+  content: any
+): Promise<void> {
+  const filePath = _getFilePath(options, channelId, name)
+
+  cache.delete(filePath)
+  const dir = path.dirname(filePath)
+  if (!fs.existsSync(dir)) {
+    await fs.promises.mkdir(dir, { recursive: true })
+  }
+  await fs.promises.writeFile(filePath, JSON.stringify(content), {
+    encoding: 'utf-8'
+  })
+  // Delete the cache again... in case a read failed because we were writing at the same time.
+  cache.delete(filePath)
+}
+
+/**
+ * Deletes some channel data.
+ * @param options server options
+ * @param channelId channel id
+ * @param name name of the data (used as file name, must only contain word chars)
+ */
+async function deleteChannelData (options: RegisterServerOptions, channelId: number, name: string): Promise<void> {
+  const filePath = _getFilePath(options, channelId, name)
+  cache.delete(filePath)
+  if (!fs.existsSync(filePath)) { return }
+  options.peertubeHelpers.logger.info('Deleting file ' + filePath)
+  await fs.promises.rm(filePath)
+  cache.delete(filePath)
+}
+
+/**
+ * Returns the directory containing the channel data.
+ * Can be used to store non-JSON files for the channel.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the directory path (not necessarily existing)
+ */
+function getChannelDataDir (options: RegisterServerOptions, channelId: number): string {
+  // some sanitization, just in case...
+  if (!Number.isInteger(channelId)) {
+    throw new Error('Invalid channelId: not an integer')
+  }
+  return path.resolve(
+    options.peertubeHelpers.plugin.getDataDirectoryPath(),
+    'channelConfiguration',
+    channelId.toString()
+  )
+}
+
+/**
+ * Lists channels that have some stored data.
+ * @param options server options
+ * @param name name of the data
+ * @returns channel ids
+ */
+async function listChannelsWithData (options: RegisterServerOptions, name: string): Promise<number[]> {
+  const dir = path.resolve(options.peertubeHelpers.plugin.getDataDirectoryPath(), 'channelConfiguration')
+  if (!fs.existsSync(dir)) {
+    return []
+  }
+  const result: number[] = []
+  for (const entry of await fs.promises.readdir(dir)) {
+    if (!/^\d+$/.test(entry)) { continue }
+    const channelId = parseInt(entry)
+    if (fs.existsSync(_getFilePath(options, channelId, name))) {
+      result.push(channelId)
+    }
+  }
+  return result
+}
+
+function _getFilePath (options: RegisterServerOptions, channelId: number, name: string): string {
+  if (!/^\w+$/.test(name)) {
+    throw new Error(`Invalid channel data name: ${name}`)
+  }
+  return path.resolve(getChannelDataDir(options, channelId), name + '.json')
+}
+
+export {
+  getChannelConfigurationOptions,
+  storeChannelConfigurationOptions,
+  readChannelData,
+  storeChannelData,
+  deleteChannelData,
+  getChannelDataDir,
+  listChannelsWithData
+}
@@ -1,6 +1,10 @@
 import type { RegisterServerOptions, Video, MVideoThumbnail } from '@peertube/peertube-types'
+import type { ChannelConfigurationOptions } from '../../shared/lib/types'
 import { getVideoLiveChatInfos } from './federation/storage'
 import { anonymousConnectionInfos, compatibleRemoteAuthenticatedConnectionEnabled } from './federation/connection-infos'
+import { getChannelConfigurationOptions } from './configuration/channel/storage'
+import { updateVideoLiveInfos, getVideoReplayInfos } from './replay/replay'
+import { updateRoomLiveState } from './live-state'
 
 async function initCustomFields (options: RegisterServerOptions): Promise<void> {
   const registerHook = options.registerHook
@@ -39,6 +43,17 @@ async function initCustomFields (options: RegisterServerOptions): Promise<void>
       await fillVideoCustomFields(options, video)
       if (!video.isLocal) {
         await fillVideoRemoteLiveChat(options, video)
+      } else {
+        await fillVideoChannelConfiguration(options, video)
+        await fillVideoReplay(options, video)
+        if (video.isLive && video.id) {
+          // Peertube < 5.2 has no hook when a live starts or ends.
+          await updateRoomLiveState(options, {
+            id: video.id,
+            uuid: video.uuid,
+            channelId: video.channel?.id
+          }, video.state?.id)
+        }
       }
       return video
     }
@@ -53,6 +68,8 @@ interface LiveChatCustomFieldsVideo {
   pluginData?: {
     'livechat-active'?: boolean
     'livechat-remote'?: boolean
+    'livechat-channel-configuration'?: ChannelConfigurationOptions
+    'livechat-replay'?: boolean
   }
 }
 
@@ -112,6 +129,47 @@ async function fillVideoRemoteLiveChat (
   v.pluginData['livechat-remote'] = true
 }
 
+/**
+ * Adds the channel configuration options to the video pluginData,
+ * so that the front-end can compute the effective settings for this video.
+ * @param options server options
+ * @param video the video
+ */
+async function fillVideoChannelConfiguration (options: RegisterServerOptions, video: Video): Promise<void> {
+  const channelId = video.channel?.id
+  if (!channelId) { return }
+  try {
+    const channelOptions = await getChannelConfigurationOptions(options, channelId)
+    if (Object.keys(channelOptions).length === 0) { return }
+    const v: LiveChatCustomFieldsVideo = video
+    if (!v.pluginData) v.pluginData = {}
+    v.pluginData['livechat-channel-configuration'] = channelOptions
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Failed to load configuration options for channel ${channelId}`, err)
+  }
+}
+
+/**
+ * For lives: records the live start, so that the chat can be replayed later.
+ * For VODs: indicates if there is a chat to replay.
+ * @param options server options
+ * @param video the video
+ */
+async function fillVideoReplay (options: RegisterServerOptions, video: Video): Promise<void> {
+  try {
+    if (video.isLive) {
+      await updateVideoLiveInfos(options, video)
+      return
+    }
+    if (!await getVideoReplayInfos(options, video)) { return }
+    const v: LiveChatCustomFieldsVideo = video
+    if (!v.pluginData) v.pluginData = {}
+    v.pluginData['livechat-replay'] = true
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Failed to check chat replay for video ${video.uuid}`, err)
+  }
+}
+
 export {
   initCustomFields,
   fillVideoCustomFields,
@@ -1,4 +1,5 @@
 import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChannelInfos } from '../../../shared/lib/types'
 
 async function getChannelNameById (options: RegisterServerOptions, channelId: number): Promise<string | null> {
   if (!channelId) {
@@ -47,12 +48,6 @@ async function getUserNameByChannelId (options: RegisterServerOptions, channelId
   return results[0].username ?? null
 }
 
-interface ChannelInfos {
-  id: number
-  name: string
-  displayName: string
-}
-
 async function getChannelInfosById (options: RegisterServerOptions, channelId: number): Promise<ChannelInfos | null> {
   if (!channelId) {
     throw new Error('Missing channelId')
@@ -83,8 +78,77 @@ async function getChannelInfosById (options: RegisterServerOptions, channelId: n
   }
 }
 
+async function getLocalVideosByChannelId (
+  options: RegisterServerOptions,
+  channelId: number
+): Promise<Array<{ uuid: string, name: string }>> {
+  if (!channelId) {
+    throw new Error('Missing channelId')
+  }
+  if (!Number.isInteger(channelId)) {
+    throw new Error('Invalid channelId: not an integer')
+  }
+  const [results] = await options.peertubeHelpers.database.query(
+    'SELECT "video"."uuid", "video"."name"' +
+    ' FROM "video"' +
+    ' WHERE "video"."remote" = false AND "video"."channelId" = ' + channelId.toString()
+  )
+  if (!Array.isArray(results)) {
+    throw new Error('getLocalVideosByChannelId: query result is not an array.')
+  }
+  return results
+    .filter(r => typeof r.uuid === 'string')
+    .map(r => ({ uuid: r.uuid, name: r.name ?? '' }))
+}
+
+async function getLocalLiveVideosByChannelId (
+  options: RegisterServerOptions,
+  channelId: number
+): Promise<Array<{ id: number, uuid: string }>> {
+  if (!channelId) {
+    throw new Error('Missing channelId')
+  }
+  if (!Number.isInteger(channelId)) {
+    throw new Error('Invalid channelId: not an integer')
+  }
+  // Note: state 1 is «published», for a live it means that it is currently streaming.
+  const [results] = await options.peertubeHelpers.database.query(
+    'SELECT "video"."id", "video"."uuid"' +
+    ' FROM "video"' +
+    ' WHERE "video"."remote" = false AND "video"."isLive" = true AND "video"."state" = 1' +
+    ' AND "video"."channelId" = ' + channelId.toString()
+  )
+  if (!Array.isArray(results)) {
+    throw new Error('getLocalLiveVideosByChannelId: query result is not an array.')
+  }
+  return results
+    .filter(r => typeof r.uuid === 'string' && Number.isInteger(r.id))
+    .map(r => ({ id: r.id, uuid: r.uuid }))
+}
+
+async function getChannelIdsByUserId (options: RegisterServerOptions, userId: number): Promise<number[]> {
+  if (!Number.isInteger(userId)) {
+    throw new Error('Invalid userId: not an integer')
+  }
+  const [results] = await options.peertubeHelpers.database.query(
+    'SELECT "videoChannel"."id"' +
+    ' FROM "videoChannel"' +
+    ' JOIN "account" ON "account"."id" = "videoChannel"."accountId"' +
+    ' WHERE "account"."userId" = ' + userId.toString()
+  )
+  if (!Array.isArray(results)) {
+    throw new Error('getChannelIdsByUserId: query result is not an array.')
+  }
+  return results
+    .filter(r => Number.isInteger(r.id))
+    .map(r => r.id)
+}
+
 export {
   getChannelNameById,
   getUserNameByChannelId,
-  getChannelInfosById
+  getChannelInfosById,
+  getLocalVideosByChannelId,
+  getLocalLiveVideosByChannelId,
+  getChannelIdsByUserId
 }
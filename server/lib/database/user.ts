@@ -0,0 +1,44 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+
+interface LocalUser {
+  id: number
+  username: string
+  blocked: boolean
+  role: number
+}
+
+/**
+ * Finds a local user by its username (case insensitive, as Peertube does when checking username unicity).
+ * @param options server options
+ * @param username the username
+ * @returns the user, or null if not found
+ */
+async function getLocalUserByUsername (options: RegisterServerOptions, username: string): Promise<LocalUser | null> {
+  if (!username) {
+    throw new Error('Missing username')
+  }
+  const [results] = await options.peertubeHelpers.database.query(
+    'SELECT "user"."id", "user"."username", "user"."blocked", "user"."role"' +
+    ' FROM "user"' +
+    ' WHERE lower("user"."username") = lower(:username)',
+    { replacements: { username } }
+  )
+  if (!Array.isArray(results)) {
+    throw new Error('getLocalUserByUsername: query result is not an array.')
+  }
+  if (!results[0]) {
+    options.peertubeHelpers.logger.debug(`getLocalUserByUsername: user ${username} not found.`)
+    return null
+  }
+  return {
+    id: results[0].id,
+    username: results[0].username,
+    blocked: !!results[0].blocked,
+    role: results[0].role
+  }
+}
+
+export {
+  LocalUser,
+  getLocalUserByUsername
+}
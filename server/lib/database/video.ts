@@ -0,0 +1,98 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+
+/**
+ * Returns the start date of the last live session of a video.
+ * Returns null if there is no live session (or if the Peertube version does not store live sessions).
+ * @param options server options
+ * @param videoId video id (not uuid)
+ * @returns the start date, or null
+ */
+async function getLastLiveSessionStartDate (options: RegisterServerOptions, videoId: number): Promise<Date | null> {
+  if (!Number.isInteger(videoId)) {
+    throw new Error('Invalid videoId: not an integer')
+  }
+  try {
+    const [results] = await options.peertubeHelpers.database.query(
+      'SELECT "videoLiveSession"."startDate"' +
+      ' FROM "videoLiveSession"' +
+      ' WHERE "videoLiveSession"."liveVideoId" = ' + videoId.toString() +
+      ' ORDER BY "videoLiveSession"."startDate" DESC' +
+      ' LIMIT 1'
+    )
+    if (!Array.isArray(results) || !results[0]?.startDate) {
+      return null
+    }
+    return new Date(results[0].startDate)
+  } catch (err) {
+    // The videoLiveSession table does not exist on older Peertube versions.
+    options.peertubeHelpers.logger.debug('getLastLiveSessionStartDate: failed to query live sessions', err)
+    return null
+  }
+}
+
+/**
+ * Returns the live session that produced the given replay video (for permanent lives, the replay is a new video).
+ * Returns null if there is none.
+ * @param options server options
+ * @param replayVideoId replay video id (not uuid)
+ * @returns the live video id and uuid, and session dates
+ */
+async function getLiveSessionByReplayVideoId (
+  options: RegisterServerOptions,
+  replayVideoId: number
+): Promise<{ liveVideoId: number, liveVideoUUID: string, startDate: Date, endDate: Date | null } | null> {
+  if (!Number.isInteger(replayVideoId)) {
+    throw new Error('Invalid replayVideoId: not an integer')
+  }
+  try {
+    const [results] = await options.peertubeHelpers.database.query(
+      'SELECT "videoLiveSession"."liveVideoId", "videoLiveSession"."startDate", "videoLiveSession"."endDate",' +
+      ' "video"."uuid" as "liveVideoUUID"' +
+      ' FROM "videoLiveSession"' +
+      ' JOIN "video" ON "video"."id" = "videoLiveSession"."liveVideoId"' +
+      ' WHERE "videoLiveSession"."replayVideoId" = ' + replayVideoId.toString() +
+      ' LIMIT 1'
+    )
+    if (!Array.isArray(results) || !results[0]?.startDate) {
+      return null
+    }
+    return {
+      liveVideoId: results[0].liveVideoId,
+      liveVideoUUID: results[0].liveVideoUUID,
+      startDate: new Date(results[0].startDate),
+      endDate: results[0].endDate ? new Date(results[0].endDate) : null
+    }
+  } catch (err) {
+    // The videoLiveSession table does not exist on older Peertube versions.
+    options.peertubeHelpers.logger.debug('getLiveSessionByReplayVideoId: failed to query live sessions', err)
+    return null
+  }
+}
+
+/**
+ * Returns the local lives that are currently streaming.
+ * @param options server options
+ * @returns the live videos
+ */
+async function getLocalStreamingLiveVideos (
+  options: RegisterServerOptions
+): Promise<Array<{ id: number, uuid: string, channelId: number }>> {
+  // Note: state 1 is «published», for a live it means that it is currently streaming.
+  const [results] = await options.peertubeHelpers.database.query(
+    'SELECT "video"."id", "video"."uuid", "video"."channelId"' +
+    ' FROM "video"' +
+    ' WHERE "video"."remote" = false AND "video"."isLive" = true AND "video"."state" = 1'
+  )
+  if (!Array.isArray(results)) {
+    throw new Error('getLocalStreamingLiveVideos: query result is not an array.')
+  }
+  return results
+    .filter(r => typeof r.uuid === 'string' && Number.isInteger(r.id) && Number.isInteger(r.channelId))
+    .map(r => ({ id: r.id, uuid: r.uuid, channelId: r.channelId }))
+}
+
+export {
+  getLastLiveSessionStartDate,
+  getLocalStreamingLiveVideos,
+  getLiveSessionByReplayVideoId
+}
@@ -14,6 +14,7 @@ interface DebugContent {
   logRotateCheckInterval?: number
   logRotateEvery?: number
   remoteServerInfosMaxAge?: number
+  federatedBansImportInterval?: number
   prosodyDebuggerOptions?: ProsodyDebuggerOptions
 }
 
@@ -22,6 +23,7 @@ type DebugNumericValue = 'renewCertCheckInterval'
 | 'logRotateEvery'
 | 'logRotateCheckInterval'
 | 'remoteServerInfosMaxAge'
+| 'federatedBansImportInterval'
 
 let debugContent: DebugContent | null | false = null
 function _readDebugFile (options: RegisterServerOptions): DebugContent | false {
@@ -55,6 +57,7 @@ function _readDebugFile (options: RegisterServerOptions): DebugContent | false {
     debugContent.renewCertCheckInterval = _getNumericOptions(options, json, 'renew_cert_check_interval')
     debugContent.renewSelfSignedCertInterval = _getNumericOptions(options, json, 'renew_self_signed_cert_interval')
     debugContent.remoteServerInfosMaxAge = _getNumericOptions(options, json, 'remote_server_infos_max_age')
+    debugContent.federatedBansImportInterval = _getNumericOptions(options, json, 'federated_bans_import_interval')
   } catch (err) {
     logger.error('Failed to read the debug_mode file content:', err)
   }
@@ -0,0 +1,98 @@
+import type { ChatExportFormat, ChatExportMessage } from '../../../shared/lib/types'
+
+interface ChatExportFile {
+  contentType: string
+  extension: string
+  content: string
+}
+
+// Duration of each subtitle cue, in seconds.
+const cueDuration = 5
+
+/**
+ * Formats exported chat messages.
+ * @param messages messages, in chronological order
+ * @param format export format
+ * @param baseTimestamp for subtitles formats: unix timestamp (seconds) of the video start.
+ *        Messages before this timestamp are ignored.
+ * @returns the file to send
+ */
+function formatChatExport (
+  messages: ChatExportMessage[],
+  format: ChatExportFormat,
+  baseTimestamp: number
+): ChatExportFile {
+  switch (format) {
+    case 'json':
+      return {
+        contentType: 'application/json',
+        extension: 'json',
+        content: JSON.stringify(messages.map(m => Object.assign({
+          date: new Date(m.timestamp * 1000).toISOString()
+        }, m)))
+      }
+    case 'txt':
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        extension: 'txt',
+        content: messages.map(m => {
+          const date = new Date(m.timestamp * 1000).toISOString().replace('T', ' ').replace(/\.\d+Z$/, '')
+          return `[${date}] ${m.nick}: ${m.body}`
+        }).join('\n') + '\n'
+      }
+    case 'vtt':
+      return {
+        contentType: 'text/vtt; charset=utf-8',
+        extension: 'vtt',
+        content: 'WEBVTT\n\n' + _cues(messages, baseTimestamp).map(cue =>
+          `${_formatCueTime(cue.start, '.')} --> ${_formatCueTime(cue.end, '.')}\n` +
+          `<v ${_escapeVTT(cue.message.nick)}>${_escapeVTT(cue.message.body)}\n`
+        ).join('\n')
+      }
+    case 'srt':
+      return {
+        contentType: 'application/x-subrip; charset=utf-8',
+        extension: 'srt',
+        content: _cues(messages, baseTimestamp).map((cue, i) =>
+          `${i + 1}\n` +
+          `${_formatCueTime(cue.start, ',')} --> ${_formatCueTime(cue.end, ',')}\n` +
+          `${cue.message.nick}: ${cue.message.body.replace(/\n+/g, '\n')}\n`
+        ).join('\n')
+      }
+  }
+}
+
+interface Cue {
+  start: number
+  end: number
+  message: ChatExportMessage
+}
+
+function _cues (messages: ChatExportMessage[], baseTimestamp: number): Cue[] {
+  return messages
+    .filter(m => m.timestamp >= baseTimestamp)
+    .map(m => ({
+      start: m.timestamp - baseTimestamp,
+      end: m.timestamp - baseTimestamp + cueDuration,
+      message: m
+    }))
+}
+
+function _formatCueTime (seconds: number, msSeparator: string): string {
+  const ms = Math.round(seconds * 1000)
+  const h = Math.floor(ms / 3600000)
+  const m = Math.floor((ms % 3600000) / 60000)
+  const s = Math.floor((ms % 60000) / 1000)
+  return String(h).padStart(2, '0') + ':' + String(m).padStart(2, '0') + ':' + String(s).padStart(2, '0') +
+    msSeparator + String(ms % 1000).padStart(3, '0')
+}
+
+function _escapeVTT (s: string): string {
+  // Empty lines would end the cue.
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n+/g, '\n')
+}
+
+export {
+  ChatExportFile,
+  formatChatExport
+}
@@ -0,0 +1,31 @@
+import type { ModerationLogEntry } from '../../../shared/lib/types'
+
+const csvColumns: Array<keyof ModerationLogEntry> = ['date', 'room', 'action', 'actor', 'target', 'reason', 'details']
+
+/**
+ * Formats moderation log entries as CSV (RFC 4180).
+ * @param entries log entries
+ * @returns CSV content, with a header line
+ */
+function formatModerationLogCSV (entries: ModerationLogEntry[]): string {
+  const lines = [csvColumns.join(',')]
+  for (const entry of entries) {
+    lines.push(csvColumns.map(column => _escapeCSV(entry[column] ?? '')).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
+
+function _escapeCSV (value: string): string {
+  // Prevent formula injection when the file is opened in a spreadsheet.
+  if (/^[=+\-@\t\r]/.test(value)) {
+    value = "'" + value
+  }
+  if (/[",\r\n]/.test(value)) {
+    return '"' + value.replace(/"/g, '""') + '"'
+  }
+  return value
+}
+
+export {
+  formatModerationLogCSV
+}
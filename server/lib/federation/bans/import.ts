@@ -0,0 +1,188 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { FederatedBan } from '../types'
+import type { FederatedBansPartner } from './partners'
+import { getFederatedBansPartners, signFederatedBansPayload, checkFederatedBansSignature } from './partners'
+import {
+  storePartnerBans, getFederatedBannedJIDs, getAppliedFederatedBans, storeAppliedFederatedBans
+} from './storage'
+import { sanitizeFederatedBans } from '../sanitize'
+import { fetchMissingRemoteServerInfos } from '../fetch-infos'
+import { getBaseRouterRoute } from '../../helpers'
+import { canonicalizePluginUri } from '../../uri/canonicalize'
+import { debugNumericParameter } from '../../debug'
+import { listChannelsWithData, getChannelConfigurationOptions } from '../../configuration/channel/storage'
+import { getActiveChannelBans } from '../../configuration/channel/bans'
+import { channelUserToJID } from '../../configuration/channel/jid'
+import { getChannelRoomJIDs, syncChannelRoomsAffiliations } from '../../configuration/channel/affiliations'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import { updateAllProsodyRoomsBans } from '../../prosody/api/manage-rooms'
+import { URL } from 'url'
+const got = require('got')
+
+let timer: NodeJS.Timeout | undefined
+let firstRunTimer: NodeJS.Timeout | undefined
+let running = false
+
+/**
+ * Starts the periodic import of partners bans.
+ * The first import is done one minute after the plugin start, so that Prosody is running.
+ * @param options server options
+ */
+function initFederatedBansImport (options: RegisterServerOptions): void {
+  stopFederatedBansImport()
+  const run = (): void => {
+    if (running) { return }
+    running = true
+    importFederatedBans(options).then(
+      () => { running = false },
+      (err) => {
+        running = false
+        options.peertubeHelpers.logger.error('Failed to import the partners bans:', err)
+      }
+    )
+  }
+  // In production: every hour. In debug mode: every minute.
+  const interval = debugNumericParameter(options, 'federatedBansImportInterval', 60000, 3600 * 1000)
+  firstRunTimer = setTimeout(run, 60000)
+  timer = setInterval(run, interval)
+}
+
+/**
+ * Stops the periodic import. Must be called when the plugin is unloaded.
+ */
+function stopFederatedBansImport (): void {
+  if (firstRunTimer) {
+    clearTimeout(firstRunTimer)
+    firstRunTimer = undefined
+  }
+  if (timer) {
+    clearInterval(timer)
+    timer = undefined
+  }
+}
+
+/**
+ * Imports bans from all partners, and applies the changes on existing rooms.
+ * Bans only apply to the rooms of the channels that enable them
+ * (the federation-bans-apply setting, that channels can override).
+ * New rooms get the bans with their default affiliations.
+ * @param options server options
+ */
+async function importFederatedBans (options: RegisterServerOptions): Promise<void> {
+  const logger = options.peertubeHelpers.logger
+  for (const partner of await getFederatedBansPartners(options)) {
+    try {
+      // Partners users will connect to our rooms: making sure we know how to contact their server.
+      await fetchMissingRemoteServerInfos(options, partner.url)
+      const bans = await _fetchPartnerBans(options, partner)
+      await storePartnerBans(options, partner, bans)
+      logger.debug(`Imported ${bans.length} bans from ${partner.url}`)
+    } catch (err: any) {
+      // Keeping previously imported bans.
+      logger.warn(`Failed to import bans from ${partner.url}: ` + (err?.message as string ?? ''))
+    }
+  }
+
+  const jids = await getFederatedBannedJIDs(options)
+  const applied = await getAppliedFederatedBans(options)
+  const allRooms = !!(await options.settingsManager.getSetting('federation-bans-apply'))
+  const bans = jids.filter(jid => !applied.jids.includes(jid))
+  const unbans = applied.jids.filter(jid => !jids.includes(jid))
+  if (!bans.length && !unbans.length && allRooms === applied.allRooms) { return }
+
+  logger.info(
+    `Applying federated bans: ${bans.length} new bans, ${unbans.length} removed bans` +
+    (allRooms ? ', in all rooms.' : ', in the rooms of the channels that enable them.')
+  )
+  // Channels that opted out if bans apply to all rooms, or that opted in otherwise.
+  const overridingChannels = await _listChannelsOverridingFederatedBans(options, allRooms)
+  const overridingRooms: string[] = []
+  for (const channelId of overridingChannels) {
+    overridingRooms.push(...await getChannelRoomJIDs(options, channelId))
+  }
+  let unbanned = unbans
+  if (allRooms) {
+    // If bans were only applied to some rooms, other rooms need all of them.
+    await updateAllProsodyRoomsBans(options, applied.allRooms ? bans : jids, unbans, overridingRooms)
+  } else {
+    if (applied.allRooms) {
+      // Bans no longer apply to rooms of channels that did not opt in.
+      await updateAllProsodyRoomsBans(options, [], applied.jids, overridingRooms)
+      unbanned = applied.jids
+    }
+    for (const channelId of overridingChannels) {
+      await syncChannelRoomsAffiliations(options, channelId, unbans)
+    }
+  }
+  await storeAppliedFederatedBans(options, { jids, allRooms })
+
+  // Unbanned users may still be banned by some local channels.
+  if (unbanned.length) {
+    const prosodyDomain = await getProsodyDomain(options)
+    for (const channelId of await listChannelsWithData(options, 'bans')) {
+      const channelBans = await getActiveChannelBans(options, channelId)
+      if (channelBans.find(ban => unbanned.includes(channelUserToJID(ban.user, prosodyDomain)))) {
+        await syncChannelRoomsAffiliations(options, channelId)
+      }
+    }
+  }
+}
+
+/**
+ * Returns the channels whose federation-bans-apply option differs from the instance setting.
+ * @param options server options
+ * @param allRooms the instance setting value
+ */
+async function _listChannelsOverridingFederatedBans (
+  options: RegisterServerOptions,
+  allRooms: boolean
+): Promise<number[]> {
+  const result: number[] = []
+  for (const channelId of await listChannelsWithData(options, 'options')) {
+    const value = (await getChannelConfigurationOptions(options, channelId))['federation-bans-apply']
+    if (value !== undefined && value !== allRooms) {
+      result.push(channelId)
+    }
+  }
+  return result
+}
+
+async function _fetchPartnerBans (
+  options: RegisterServerOptions,
+  partner: FederatedBansPartner
+): Promise<FederatedBan[]> {
+  const instanceUrl = options.peertubeHelpers.config.getWebserverUrl()
+  const u = new URL(partner.url)
+  // Assuming that the path on the remote instance is the same as on this one
+  // (but canonicalized to remove the plugin version)
+  u.pathname = getBaseRouterRoute(options) + 'api/federation_bans'
+  u.searchParams.set('instance', instanceUrl)
+  const url = canonicalizePluginUri(options, u.toString(), {
+    protocol: 'http',
+    removePluginVersion: true
+  })
+
+  const response = await got(url, {
+    method: 'GET',
+    headers: signFederatedBansPayload(partner, instanceUrl),
+    responseType: 'text',
+    timeout: 30000
+  })
+  const body: string = response.body
+  if (!checkFederatedBansSignature(
+    partner, body, response.headers['x-livechat-timestamp'], response.headers['x-livechat-signature']
+  )) {
+    throw new Error('Invalid response signature')
+  }
+  const data = JSON.parse(body)
+  if (typeof data !== 'object' || !data || new URL(data.instance).origin !== partner.url) {
+    throw new Error('Invalid response')
+  }
+  return sanitizeFederatedBans(options, data.bans)
+}
+
+export {
+  initFederatedBansImport,
+  stopFederatedBansImport,
+  importFederatedBans
+}
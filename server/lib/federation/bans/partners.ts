@@ -0,0 +1,169 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { URL } from 'url'
+
+/*
+Bans can be shared between partner instances.
+Each instance admin lists the partner instances in the «federation-bans-partners» setting,
+with a secret that must be the same on both sides.
+Requests and responses are signed using this secret: the X-Livechat-Signature header contains «sha256=» followed
+by the hex HMAC-SHA256 of «<X-Livechat-Timestamp header>.<payload>».
+For requests, the payload is the requesting instance url. For responses, the payload is the body.
+
+By default, bans imported from a partner only apply to users of this partner (JIDs on the partner domain,
+or on its subdomains, like the anonymous one).
+The admin can choose to also apply bans of users from other servers, by adding «all» at the end of the partner line.
+Bans of users from this instance are never imported.
+*/
+
+// Maximum allowed clock difference between partners, in seconds.
+const maxTimestampDelta = 300
+
+// 'partner': only bans of the partner users are imported. 'all': all bans are imported.
+type FederatedBansPartnerScope = 'partner' | 'all'
+
+interface FederatedBansPartner {
+  url: string // instance origin (for example https://example.com)
+  host: string
+  secret: string
+  scope: FederatedBansPartnerScope
+}
+
+/**
+ * Parses the federation-bans-partners setting.
+ * Format: one partner per line, «instance_url secret», optionally followed by «all» (see the scope above).
+ * Comments start with # (at the beginning of the line, or after a whitespace,
+ * so that urls and secrets can contain #). Invalid lines are ignored.
+ * @param s the setting value
+ * @returns the partners
+ */
+function parseFederatedBansPartners (s: string): FederatedBansPartner[] {
+  if (!s) {
+    return []
+  }
+  const lines = s.split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(line => line !== '')
+
+  const r: FederatedBansPartner[] = []
+  for (const line of lines) {
+    const matches = line.match(/^(https?:\/\/\S+)\s+(\S{16,})(?:\s+(all))?$/)
+    if (!matches) { continue }
+    let u: URL
+    try {
+      u = new URL(matches[1])
+    } catch (_err) {
+      continue
+    }
+    if (r.find(p => p.url === u.origin)) { continue }
+    r.push({
+      url: u.origin,
+      host: u.hostname,
+      secret: matches[2],
+      scope: matches[3] === 'all' ? 'all' : 'partner'
+    })
+  }
+  return r
+}
+
+/**
+ * Returns the partners, as configured in the plugin settings.
+ * @param options server options
+ */
+async function getFederatedBansPartners (options: RegisterServerOptions): Promise<FederatedBansPartner[]> {
+  return parseFederatedBansPartners(
+    (await options.settingsManager.getSetting('federation-bans-partners') as string) ?? ''
+  )
+}
+
+/**
+ * Finds the partner corresponding to an instance url.
+ * @param partners partners
+ * @param instanceUrl instance url
+ * @returns the partner, or null if the instance is not a partner
+ */
+function findFederatedBansPartner (partners: FederatedBansPartner[], instanceUrl: string): FederatedBansPartner | null {
+  try {
+    const origin = new URL(instanceUrl).origin
+    return partners.find(p => p.url === origin) ?? null
+  } catch (_err) {
+    return null
+  }
+}
+
+/**
+ * Computes the signature headers for a payload.
+ * @param partner the partner
+ * @param payload the payload to sign
+ * @returns headers to add to the request or response
+ */
+function signFederatedBansPayload (partner: FederatedBansPartner, payload: string): { [key: string]: string } {
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  return {
+    'x-livechat-timestamp': timestamp,
+    'x-livechat-signature': 'sha256=' + _hmac(partner.secret, timestamp + '.' + payload)
+  }
+}
+
+/**
+ * Checks the signature of a payload.
+ * @param partner the partner that should have signed the payload
+ * @param payload the payload
+ * @param timestamp the X-Livechat-Timestamp header value
+ * @param signature the X-Livechat-Signature header value
+ * @returns true if the signature is valid, and the timestamp not too old
+ */
+function checkFederatedBansSignature (
+  partner: FederatedBansPartner,
+  payload: string,
+  timestamp: any,
+  signature: any
+): boolean {
+  if (typeof timestamp !== 'string' || !/^\d+$/.test(timestamp) || typeof signature !== 'string') {
+    return false
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp)) > maxTimestampDelta) {
+    return false
+  }
+  const expected = Buffer.from('sha256=' + _hmac(partner.secret, timestamp + '.' + payload))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+function _hmac (secret: string, content: string): string {
+  return createHmac('sha256', secret).update(content).digest('hex')
+}
+
+/**
+ * Checks if a ban imported from a partner can be applied on this instance (see the scope above).
+ * @param partner the partner
+ * @param jid the banned JID (sanitized)
+ * @param prosodyDomain the local Prosody domain
+ * @returns true if the ban can be applied
+ */
+function isFederatedBanInPartnerScope (partner: FederatedBansPartner, jid: string, prosodyDomain: string): boolean {
+  const domain = jid.split('@').pop() ?? ''
+  // Local and anonymous users of this instance (and any other local virtualhost).
+  if (_isSameOrSubdomain(domain, prosodyDomain.toLowerCase())) {
+    return false
+  }
+  if (partner.scope === 'all') {
+    return true
+  }
+  return _isSameOrSubdomain(domain, partner.host.toLowerCase())
+}
+
+function _isSameOrSubdomain (domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith('.' + parent)
+}
+
+export {
+  FederatedBansPartner,
+  FederatedBansPartnerScope,
+  isFederatedBanInPartnerScope,
+  parseFederatedBansPartners,
+  getFederatedBansPartners,
+  findFederatedBansPartner,
+  signFederatedBansPayload,
+  checkFederatedBansSignature
+}
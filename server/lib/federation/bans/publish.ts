@@ -0,0 +1,43 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { FederatedBan, FederatedBansList } from '../types'
+import { listChannelsWithData } from '../../configuration/channel/storage'
+import { getActiveChannelBans } from '../../configuration/channel/bans'
+import { channelUserToJID } from '../../configuration/channel/jid'
+import { getProsodyDomain } from '../../prosody/config/domain'
+
+/**
+ * Builds the list of bans to publish to partner instances: active bans of all local channels.
+ * If a user is banned from several channels, the longest ban is kept.
+ * @param options server options
+ * @returns the bans list
+ */
+async function buildFederatedBansList (options: RegisterServerOptions): Promise<FederatedBansList> {
+  const prosodyDomain = await getProsodyDomain(options)
+  const bans = new Map<string, FederatedBan>()
+  for (const channelId of await listChannelsWithData(options, 'bans')) {
+    for (const ban of await getActiveChannelBans(options, channelId)) {
+      const jid = channelUserToJID(ban.user, prosodyDomain)
+      const previous = bans.get(jid)
+      if (previous && (!previous.expires || (ban.expires && ban.expires <= previous.expires))) {
+        continue
+      }
+      const federatedBan: FederatedBan = {
+        jid,
+        reason: ban.reason
+      }
+      if (ban.expires) {
+        federatedBan.expires = ban.expires
+      }
+      bans.set(jid, federatedBan)
+    }
+  }
+  return {
+    instance: options.peertubeHelpers.config.getWebserverUrl(),
+    date: new Date().toISOString(),
+    bans: Array.from(bans.values())
+  }
+}
+
+export {
+  buildFederatedBansList
+}
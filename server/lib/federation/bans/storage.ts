@@ -0,0 +1,138 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { FederatedBan } from '../types'
+import type { FederatedBansPartner } from './partners'
+import { getFederatedBansPartners, isFederatedBanInPartnerScope } from './partners'
+import { sanitizeFederatedBans } from '../sanitize'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/*
+Bans imported from partner instances are stored in files, one file per partner host.
+The list of JIDs that were last applied on existing rooms is also stored, so that we know which users to unban
+when a partner removes a ban (or when a partner is removed from the settings).
+We also store the federation-bans-apply setting value at that time, so that we know which rooms to update
+when the admin changes it.
+*/
+
+interface AppliedFederatedBans {
+  jids: string[]
+  allRooms: boolean
+}
+
+// Imported bans, by partner host.
+const cache = new Map<string, FederatedBan[]>()
+
+/**
+ * Stores the bans imported from a partner.
+ * @param options server options
+ * @param partner the partner
+ * @param bans sanitized bans
+ */
+async function storePartnerBans (
+  options: RegisterServerOptions,
+  partner: FederatedBansPartner,
+  bans: FederatedBan[]
+): Promise<void> {
+  await _write(_getFilePath(options, partner.host), {
+    date: new Date().toISOString(),
+    bans
+  })
+  cache.set(partner.host, bans)
+}
+
+/**
+ * Returns the JIDs banned by the current partners.
+ * Expired bans, and bans that are not in the partner scope (see ./partners), are ignored.
+ * @param options server options
+ * @returns sorted JIDs
+ */
+async function getFederatedBannedJIDs (options: RegisterServerOptions): Promise<string[]> {
+  const now = Date.now()
+  const prosodyDomain = await getProsodyDomain(options)
+  const jids = new Set<string>()
+  for (const partner of await getFederatedBansPartners(options)) {
+    for (const ban of await _getPartnerBans(options, partner)) {
+      if (ban.expires && new Date(ban.expires).getTime() <= now) { continue }
+      if (!isFederatedBanInPartnerScope(partner, ban.jid, prosodyDomain)) { continue }
+      jids.add(ban.jid)
+    }
+  }
+  return Array.from(jids).sort()
+}
+
+/**
+ * Returns the JIDs that were last applied on existing rooms, and the federation-bans-apply value at that time.
+ * @param options server options
+ */
+async function getAppliedFederatedBans (options: RegisterServerOptions): Promise<AppliedFederatedBans> {
+  const content = await _read(_getFilePath(options, '_applied'))
+  if (Array.isArray(content)) {
+    // Previous format: bans were applied in all rooms.
+    return { jids: content.filter(jid => typeof jid === 'string'), allRooms: true }
+  }
+  if (typeof content !== 'object' || !content || !Array.isArray(content.jids)) {
+    return { jids: [], allRooms: false }
+  }
+  return {
+    jids: content.jids.filter((jid: any) => typeof jid === 'string'),
+    allRooms: content.allRooms === true
+  }
+}
+
+/**
+ * Stores the JIDs that were applied on existing rooms.
+ * @param options server options
+ * @param applied JIDs, and the federation-bans-apply value
+ */
+async function storeAppliedFederatedBans (
+  options: RegisterServerOptions,
+  applied: AppliedFederatedBans
+): Promise<void> {
+  await _write(_getFilePath(options, '_applied'), applied)
+}
+
+async function _getPartnerBans (
+  options: RegisterServerOptions,
+  partner: FederatedBansPartner
+): Promise<FederatedBan[]> {
+  let bans = cache.get(partner.host)
+  if (bans === undefined) {
+    const content = await _read(_getFilePath(options, partner.host))
+    bans = sanitizeFederatedBans(options, content?.bans)
+    cache.set(partner.host, bans)
+  }
+  return bans
+}
+
+function _getFilePath (options: RegisterServerOptions, name: string): string {
+  // Some security check, just in case.
+  if (!/^[\w.-]+$/.test(name) || name.includes('..')) {
+    throw new Error(`Invalid federated bans file name: ${name}`)
+  }
+  return path.resolve(
+    options.peertubeHelpers.plugin.getDataDirectoryPath(),
+    'federatedBans',
+    name + '.json'
+  )
+}
+
+async function _read (filePath: string): Promise<any> {
+  if (!fs.existsSync(filePath)) {
+    return null
+  }
+  return JSON.parse(await fs.promises.readFile(filePath, { encoding: 'utf-8' }))
+}
+
+async function _write (filePath: string, content: any): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.promises.writeFile(filePath, JSON.stringify(content), { encoding: 'utf-8' })
+}
+
+export {
+  AppliedFederatedBans,
+  storePartnerBans,
+  getFederatedBannedJIDs,
+  getAppliedFederatedBans,
+  storeAppliedFederatedBans
+}
@@ -1,5 +1,5 @@
 import type { RegisterServerOptions } from '@peertube/peertube-types'
-import type { LiveChatJSONLDAttributeV1, PeertubeXMPPServerInfos } from './types'
+import type { LiveChatJSONLDAttributeV1, PeertubeXMPPServerInfos, FederatedBan } from './types'
 import { URL } from 'url'
 
 /**
@@ -300,6 +300,38 @@ function _sanitizePeertubeLiveChatInfosV0 (
   return r
 }
 
+/**
+ * Sanitizes bans received from a partner instance.
+ * Invalid and expired entries are ignored.
+ * @param options server options
+ * @param data the received bans
+ * @returns the sanitized bans
+ */
+function sanitizeFederatedBans (options: RegisterServerOptions, data: any): FederatedBan[] {
+  if (!Array.isArray(data)) {
+    return []
+  }
+  const now = Date.now()
+  const r: FederatedBan[] = []
+  for (const entry of data.slice(0, maxFederatedBans)) {
+    if (typeof entry !== 'object' || !entry) { continue }
+    if (typeof entry.jid !== 'string') { continue }
+    const jid = entry.jid.trim().toLowerCase()
+    if (!/^[^@\s/]+@[a-z0-9.-]+$/.test(jid) || jid.length > 3071) { continue }
+    const ban: FederatedBan = {
+      jid,
+      reason: typeof entry.reason === 'string' ? entry.reason.substring(0, 1000) : ''
+    }
+    if (entry.expires !== undefined && entry.expires !== null) {
+      const expires = typeof entry.expires === 'string' ? new Date(entry.expires) : null
+      if (!expires || isNaN(expires.getTime()) || expires.getTime() <= now) { continue }
+      ban.expires = expires.toISOString()
+    }
+    r.push(ban)
+  }
+  return r
+}
+
 function sanitizeXMPPHost (options: RegisterServerOptions, host: any): false | string {
   return _validateHost(host)
 }
@@ -314,9 +346,12 @@ function sanitizeXMPPHostFromInstanceUrl (_options: RegisterServerOptions, s: an
   }
 }
 
+const maxFederatedBans = 10000
+
 export {
   sanitizePeertubeLiveChatInfos,
   sanitizePeertubeLiveChatServerInfos,
   sanitizeXMPPHost,
-  sanitizeXMPPHostFromInstanceUrl
+  sanitizeXMPPHostFromInstanceUrl,
+  sanitizeFederatedBans
 }
@@ -72,6 +72,20 @@ interface RemoteVideoHandlerParams {
   videoAPObject: VideoObject | LiveChatVideoObject
 }
 
+// A ban shared with partner instances. expires is an ISO 8601 date string.
+interface FederatedBan {
+  jid: string
+  reason: string
+  expires?: string
+}
+
+// Data published to partner instances.
+interface FederatedBansList {
+  instance: string // publishing instance url
+  date: string
+  bans: FederatedBan[]
+}
+
 export {
   VideoBuildResultContext,
   LiveChatJSONLDLink,
@@ -81,5 +95,7 @@ export {
   LiveChatJSONLDAttributeV1,
   LiveChatVideoObject,
   RemoteVideoHandlerParams,
-  PeertubeXMPPServerInfos
+  PeertubeXMPPServerInfos,
+  FederatedBan,
+  FederatedBansList
 }
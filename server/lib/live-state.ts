@@ -0,0 +1,162 @@
+import type { RegisterServerOptions, RegisterServerHookOptions, ServerHookName } from '@peertube/peertube-types'
+import { getChannelEffectiveSettings } from './configuration/channel/settings'
+import { getLocalLiveVideosByChannelId } from './database/channel'
+import { getProsodyDomain } from './prosody/config/domain'
+import { setProsodyRoomLiveState } from './prosody/api/manage-rooms'
+import { updateAnnouncementsLiveState } from './announcements/scheduler'
+
+// Note: we can't import VideoState from @peertube/peertube-types, it is a const enum in a declaration file.
+const videoStatePublished = 1
+const videoStateLiveEnded = 5
+
+// This hook is not in the installed @peertube/peertube-types ServerHookName list (it comes with Peertube 5.2).
+const liveStateUpdatedHook: string = 'action:live.video.state.updated'
+
+const liveStartedMessage = 'The live has started.'
+const liveEndedMessage = 'The live has ended.'
+
+interface LiveStateVideo {
+  id: number
+  uuid: string
+  channelId?: number
+}
+
+// Parameters of the action:live.video.state.updated hook (only the fields we use).
+interface LiveStateHookParams {
+  video?: {
+    id?: number
+    uuid: string
+    isLive?: boolean
+    remote?: boolean
+    channelId?: number
+    state?: number
+  }
+}
+
+/**
+ * Registers the hook that is called when a live starts or ends.
+ * This hook only exists on Peertube >= 5.2. On older versions, live state changes are detected
+ * when the video is fetched by the API (see custom-fields.ts).
+ * The hook also tells the announcements scheduler which lives are streaming.
+ * @param options server options
+ * @returns true if the hook is registered
+ */
+async function initLiveStateHooks (options: RegisterServerOptions): Promise<boolean> {
+  const logger = options.peertubeHelpers.logger
+  if (!await isLiveStateHookAvailable(options)) {
+    logger.info(`The ${liveStateUpdatedHook} hook is not available, live state changes will be detected by the API.`)
+    return false
+  }
+
+  const hook: RegisterServerHookOptions = {
+    target: liveStateUpdatedHook as ServerHookName,
+    handler: async (params: LiveStateHookParams) => {
+      const video = params?.video
+      if (!video?.id || !video.isLive || video.remote) { return }
+      if (video.channelId && video.state !== undefined) {
+        updateAnnouncementsLiveState({
+          id: video.id,
+          uuid: video.uuid,
+          channelId: video.channelId
+        }, video.state === videoStatePublished)
+      }
+      await updateRoomLiveState(options, {
+        id: video.id,
+        uuid: video.uuid,
+        channelId: video.channelId
+      }, video.state)
+    }
+  }
+  options.registerHook(hook)
+  return true
+}
+
+/**
+ * Checks that the Peertube version is >= 5.2, so that the live state hook exists.
+ * @param options server options
+ */
+async function isLiveStateHookAvailable (options: RegisterServerOptions): Promise<boolean> {
+  try {
+    const serverConfig = await options.peertubeHelpers.config.getServerConfig()
+    const m = /^(\d+)\.(\d+)/.exec(serverConfig.serverVersion ?? '')
+    if (!m) { return false }
+    const major = parseInt(m[1])
+    const minor = parseInt(m[2])
+    return major > 5 || (major === 5 && minor >= 2)
+  } catch (err) {
+    options.peertubeHelpers.logger.error('Failed to get the Peertube version', err)
+    return false
+  }
+}
+
+/**
+ * Opens or closes the live chat room, if the live state changed since the last call.
+ * The room is opened when the live is published, and closed when it leaves this state:
+ * a normal live goes to LIVE_ENDED, a permanent live goes back to WAITING_FOR_LIVE.
+ * Does nothing if the channel did not enable this feature.
+ * This function never throws.
+ * @param options server options
+ * @param video the live video
+ * @param state the video state
+ */
+async function updateRoomLiveState (
+  options: RegisterServerOptions,
+  video: LiveStateVideo,
+  state: number | undefined
+): Promise<void> {
+  const logger = options.peertubeHelpers.logger
+  try {
+    if (state === undefined) { return }
+    if (!video.channelId) { return }
+    const live = state === videoStatePublished
+
+    const storageKey = `livechat-live-state-${video.id.toString()}`
+    // Note: getData is typed as returning a string, but it returns the stored value (a boolean), or undefined.
+    const previous = await options.storageManager.getData(storageKey) as string | boolean | null | undefined
+    const known = previous !== undefined && previous !== null
+    const wasLive = previous === true || previous === 'true'
+    if (known && wasLive === live) { return }
+    if (!live && !wasLive && state !== videoStateLiveEnded) {
+      // Any other state after a published one means that the live ended (permanent lives go back to
+      // WAITING_FOR_LIVE). But if the live was never published, there is nothing to close.
+      return
+    }
+    await options.storageManager.storeData(storageKey, live)
+
+    const settings = await getChannelEffectiveSettings(options, video.channelId, [
+      'chat-live-state-rooms',
+      'prosody-room-type'
+    ])
+    if (!settings['chat-live-state-rooms']) { return }
+
+    let localpart = video.uuid
+    if (settings['prosody-room-type'] === 'channel') {
+      localpart = 'channel.' + video.channelId.toString()
+      if (!live) {
+        // The channel room must stay open while another live of the channel is streaming.
+        const lives = await getLocalLiveVideosByChannelId(options, video.channelId)
+        if (lives.find(l => l.id !== video.id)) { return }
+      }
+    }
+
+    const roomJID = localpart + '@room.' + await getProsodyDomain(options)
+    logger.info(`Live ${video.uuid} ${live ? 'started' : 'ended'}, ${live ? 'opening' : 'closing'} room ${roomJID}`)
+    try {
+      await setProsodyRoomLiveState(options, roomJID, live, live ? liveStartedMessage : liveEndedMessage)
+    } catch (err: any) {
+      if (err?.response?.statusCode === 404) {
+        // The room does not exist (yet): nothing to do.
+        logger.debug(`Room ${roomJID} does not exist, can't update its live state.`)
+        return
+      }
+      throw err
+    }
+  } catch (err) {
+    logger.error(`Failed to update the live state of the chat room for video ${video.uuid}:`, err)
+  }
+}
+
+export {
+  initLiveStateHooks,
+  updateRoomLiveState
+}
@@ -0,0 +1,107 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { getProsodyMetrics, ProsodyMetrics } from './prosody/api/metrics'
+
+type ProxyName = 'http-bind' | 'websocket' | 's2s-websocket'
+
+// Counters are kept in memory, and reset when Peertube restarts (Prometheus handles counters resets).
+let prosodyStarts = 0
+const proxyErrors: { [proxy in ProxyName]: number } = {
+  'http-bind': 0,
+  websocket: 0,
+  's2s-websocket': 0
+}
+
+/**
+ * Must be called each time the plugin starts (or restarts) the Prosody process.
+ */
+function countProsodyStart (): void {
+  prosodyStarts++
+}
+
+/**
+ * Must be called each time one of the proxies to Prosody gets an error.
+ * @param proxy the proxy name
+ */
+function countProxyError (proxy: ProxyName): void {
+  proxyErrors[proxy]++
+}
+
+/**
+ * Returns the metrics, in the Prometheus text format (which is compatible with OpenMetrics scrapers).
+ * If Prosody does not respond, only the plugin metrics are returned (and peertube_livechat_prosody_up is 0).
+ * @param options server options
+ * @returns the metrics, as text
+ */
+async function getMetrics (options: RegisterServerOptions): Promise<string> {
+  let prosodyMetrics: ProsodyMetrics | null = null
+  try {
+    prosodyMetrics = await getProsodyMetrics(options)
+  } catch (err) {
+    options.peertubeHelpers.logger.warn('Failed to get the Prosody metrics: ' + (err as string))
+  }
+
+  const lines: string[] = []
+  const metric = (
+    name: string,
+    type: 'gauge' | 'counter',
+    help: string,
+    values: Array<[number, { [label: string]: string }?]>
+  ): void => {
+    lines.push(`# HELP ${name} ${help}`)
+    lines.push(`# TYPE ${name} ${type}`)
+    for (const [value, labels] of values) {
+      const labelsText = labels
+        ? '{' + Object.entries(labels).map(([k, v]) => `${k}="${v}"`).join(',') + '}'
+        : ''
+      lines.push(`${name}${labelsText} ${value}`)
+    }
+  }
+
+  metric('peertube_livechat_prosody_up', 'gauge', 'Whether the Prosody server responds.', [
+    [prosodyMetrics ? 1 : 0]
+  ])
+  metric(
+    'peertube_livechat_prosody_starts_total', 'counter',
+    'Number of times the plugin started Prosody, since Peertube started.',
+    [[prosodyStarts]]
+  )
+  metric(
+    'peertube_livechat_proxy_errors_total', 'counter',
+    'Number of errors on the proxies to Prosody, since Peertube started.',
+    Object.entries(proxyErrors).map(([proxy, count]) => [count, { proxy }])
+  )
+
+  if (prosodyMetrics) {
+    metric('peertube_livechat_prosody_uptime_seconds', 'gauge', 'Number of seconds since Prosody started.', [
+      [prosodyMetrics.uptime]
+    ])
+    metric('peertube_livechat_prosody_sessions', 'gauge', 'Number of connected client sessions.', [
+      [prosodyMetrics.sessions.c2s, { type: 'c2s' }],
+      [prosodyMetrics.sessions.bosh, { type: 'bosh' }],
+      [prosodyMetrics.sessions.websocket, { type: 'websocket' }]
+    ])
+    metric('peertube_livechat_prosody_s2s_connections', 'gauge', 'Number of server to server connections.', [
+      [prosodyMetrics.s2s.incoming, { direction: 'incoming' }],
+      [prosodyMetrics.s2s.outgoing, { direction: 'outgoing' }]
+    ])
+    metric('peertube_livechat_prosody_rooms', 'gauge', 'Number of existing chat rooms.', [
+      [prosodyMetrics.rooms]
+    ])
+    metric(
+      'peertube_livechat_prosody_archived_messages', 'gauge',
+      'Number of messages in the chat rooms archives (MAM).',
+      [[prosodyMetrics.archived_messages]]
+    )
+    metric('peertube_livechat_prosody_lua_memory_bytes', 'gauge', 'Memory used by the Prosody Lua interpreter.', [
+      [prosodyMetrics.memory]
+    ])
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+export {
+  countProsodyStart,
+  countProxyError,
+  getMetrics
+}
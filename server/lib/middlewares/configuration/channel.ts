@@ -0,0 +1,60 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Request, Response, NextFunction } from 'express'
+import type { ChannelInfos } from '../../../../shared/lib/types'
+import { getChannelInfosById, getUserNameByChannelId } from '../../database/channel'
+import { isUserAdmin } from '../../helpers'
+
+type CheckConfigurationChannelMiddlewareFunc = (req: Request, res: Response, next: NextFunction) => Promise<void>
+
+/**
+ * Returns a middleware that checks that the current user can manage the chat configuration
+ * of the channel given by req.params.channelId.
+ * Only the channel owner and instance admins are allowed.
+ * If ok, res.locals.channelInfos will contain the channel infos.
+ * @param options server options
+ */
+function getCheckConfigurationChannelMiddleware (
+  options: RegisterServerOptions
+): CheckConfigurationChannelMiddlewareFunc {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const logger = options.peertubeHelpers.logger
+    if (!res.locals.authenticated) {
+      res.sendStatus(403)
+      return
+    }
+    const user = await options.peertubeHelpers.user.getAuthUser(res)
+    if (!user || user.blocked) {
+      res.sendStatus(403)
+      return
+    }
+
+    const channelId = req.params.channelId
+    if (!channelId || !/^\d+$/.test(channelId)) {
+      res.sendStatus(400)
+      return
+    }
+
+    const channelInfos: ChannelInfos | null = await getChannelInfosById(options, parseInt(channelId))
+    if (!channelInfos) {
+      logger.warn(`Channel ${channelId} not found`)
+      res.sendStatus(404)
+      return
+    }
+
+    if (!await isUserAdmin(options, res)) {
+      const channelOwner = await getUserNameByChannelId(options, channelInfos.id)
+      if (channelOwner === null || channelOwner.toLowerCase() !== user.username.toLowerCase()) {
+        logger.warn(`User ${user.username} is not allowed to manage the channel ${channelInfos.id}`)
+        res.sendStatus(403)
+        return
+      }
+    }
+
+    res.locals.channelInfos = channelInfos
+    next()
+  }
+}
+
+export {
+  getCheckConfigurationChannelMiddleware
+}
@@ -0,0 +1,87 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Request, Response, NextFunction } from 'express'
+import { getUserNameByChannelId } from '../../database/channel'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import { isUserAdmin } from '../../helpers'
+
+type CheckConfigurationRoomMiddlewareFunc = (req: Request, res: Response, next: NextFunction) => Promise<void>
+
+interface ConfigurationRoomInfos {
+  localpart: string
+  jid: string
+  channelId: number | null
+  video?: {
+    id: number
+    uuid: string
+  }
+}
+
+/**
+ * Returns a middleware that checks that the current user can manage the room
+ * given by req.params.localpart (video uuid, or channel.<id>).
+ * Only the owner of the related channel and instance admins are allowed.
+ * Rooms of remote videos, or of deleted videos, can only be managed by instance admins.
+ * If ok, res.locals.roomInfos will contain the room infos.
+ * @param options server options
+ */
+function getCheckConfigurationRoomMiddleware (
+  options: RegisterServerOptions
+): CheckConfigurationRoomMiddlewareFunc {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const logger = options.peertubeHelpers.logger
+    if (!res.locals.authenticated) {
+      res.sendStatus(403)
+      return
+    }
+    const user = await options.peertubeHelpers.user.getAuthUser(res)
+    if (!user || user.blocked) {
+      res.sendStatus(403)
+      return
+    }
+
+    const localpart = req.params.localpart
+    if (!localpart || !/^(channel\.\d+|[a-zA-Z0-9-]+)$/.test(localpart)) {
+      res.sendStatus(400)
+      return
+    }
+
+    const roomInfos: ConfigurationRoomInfos = {
+      localpart,
+      jid: localpart + '@room.' + await getProsodyDomain(options),
+      channelId: null
+    }
+    const matches = localpart.match(/^channel\.(\d+)$/)
+    if (matches?.[1]) {
+      roomInfos.channelId = parseInt(matches[1])
+    } else {
+      // FIXME: @peertube/peertype-types@4.2.2: wrongly considere video as MVideoThumbnail.
+      const video = await options.peertubeHelpers.videos.loadByIdOrUUID(localpart)
+      if (video) {
+        roomInfos.video = {
+          id: video.id,
+          uuid: video.uuid
+        }
+        if (!video.remote) {
+          roomInfos.channelId = video.channelId
+        }
+      }
+    }
+
+    if (!await isUserAdmin(options, res)) {
+      const channelOwner = roomInfos.channelId ? await getUserNameByChannelId(options, roomInfos.channelId) : null
+      if (channelOwner === null || channelOwner.toLowerCase() !== user.username.toLowerCase()) {
+        logger.warn(`User ${user.username} is not allowed to manage the room ${localpart}`)
+        res.sendStatus(403)
+        return
+      }
+    }
+
+    res.locals.roomInfos = roomInfos
+    next()
+  }
+}
+
+export {
+  ConfigurationRoomInfos,
+  getCheckConfigurationRoomMiddleware
+}
@@ -0,0 +1,39 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { callProsodyApi } from './call'
+
+interface ProsodyRoomMessage {
+  id: string
+  timestamp: number // unix timestamp, in seconds
+  nick: string
+  body: string
+}
+
+/**
+ * Returns the archived messages of a room, using the mod_http_peertubelivechat_room_archive Prosody API.
+ * @param options server options
+ * @param roomJID room JID (the room does not have to exist anymore)
+ * @param start optional unix timestamp (seconds)
+ * @param end optional unix timestamp (seconds)
+ * @returns messages, in chronological order
+ */
+async function getProsodyRoomMessages (
+  options: RegisterServerOptions,
+  roomJID: string,
+  start?: number,
+  end?: number
+): Promise<ProsodyRoomMessage[]> {
+  const result = await callProsodyApi(options, 'peertubelivechat_room_archive', 'room-messages', {
+    room: roomJID,
+    start,
+    end
+  })
+  if (!Array.isArray(result)) {
+    throw new Error('Failed to get room messages.')
+  }
+  return result
+}
+
+export {
+  ProsodyRoomMessage,
+  getProsodyRoomMessages
+}
@@ -0,0 +1,44 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { callProsodyApi } from './call'
+
+/**
+ * Revokes all current tokens of a user, using the mod_auth_peertubelivechat Prosody API.
+ * @param options server options
+ * @param user the user (normalized username, without the domain)
+ */
+async function revokeProsodyUserTokens (options: RegisterServerOptions, user: string): Promise<void> {
+  await callProsodyApi(options, 'peertubelivechat_auth', 'revoke', { user })
+}
+
+/**
+ * Revokes all current tokens of a user, and closes its current sessions.
+ * @param options server options
+ * @param user the user (normalized username, without the domain)
+ * @param reason the reason sent to the user's clients
+ * @returns the number of closed sessions
+ */
+async function kickProsodyUser (options: RegisterServerOptions, user: string, reason: string): Promise<number> {
+  const result = await callProsodyApi(options, 'peertubelivechat_auth', 'kick', { user, reason })
+  if (!result?.ok) {
+    throw new Error('Failed to kick the user.')
+  }
+  return result.closed ?? 0
+}
+
+/**
+ * Revokes all current tokens of a user, closes its current sessions, and removes all its data stored by Prosody.
+ * @param options server options
+ * @param user the user (normalized username, without the domain)
+ */
+async function deleteProsodyUser (options: RegisterServerOptions, user: string): Promise<void> {
+  const result = await callProsodyApi(options, 'peertubelivechat_auth', 'delete', { user })
+  if (!result?.ok) {
+    throw new Error('Failed to delete the user.')
+  }
+}
+
+export {
+  revokeProsodyUserTokens,
+  kickProsodyUser,
+  deleteProsodyUser
+}
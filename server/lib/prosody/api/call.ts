@@ -0,0 +1,40 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { getCurrentProsody } from './host'
+import { getAPIKey } from '../../apikey'
+const got = require('got')
+
+/**
+ * Calls one of our custom Prosody HTTP API (mod_http_peertubelivechat_*), with a JSON body.
+ * @param options server options
+ * @param moduleName the Prosody module name (without the 'http_' prefix, for example 'peertubelivechat_manage_rooms')
+ * @param path API path (without leading slash)
+ * @param body data to send (will be JSON encoded)
+ * @returns the JSON decoded response
+ */
+async function callProsodyApi (
+  options: RegisterServerOptions,
+  moduleName: string,
+  path: string,
+  body: any
+): Promise<any> {
+  const currentProsody = getCurrentProsody()
+  if (!currentProsody) {
+    throw new Error(`It seems that prosody is not binded... Cant call the ${moduleName} API.`)
+  }
+  const apiUrl = `http://localhost:${currentProsody.port}/${moduleName}/${path}`
+  options.peertubeHelpers.logger.debug('Calling Prosody API on url: ' + apiUrl)
+  return got(apiUrl, {
+    method: 'POST',
+    headers: {
+      authorization: 'Bearer ' + await getAPIKey(options),
+      host: currentProsody.host
+    },
+    json: body,
+    responseType: 'json',
+    resolveBodyOnly: true
+  })
+}
+
+export {
+  callProsodyApi
+}
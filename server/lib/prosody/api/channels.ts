@@ -0,0 +1,23 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { callProsodyApi } from './call'
+
+/**
+ * Tells Prosody that the settings of a channel have changed, using the mod_muc_peertubelivechat_channels API.
+ * Prosody will get the new settings from the plugin when needed.
+ * @param options server options
+ * @param channelId channel id
+ * @returns the number of rooms that were concerned
+ */
+async function invalidateProsodyChannelSettings (options: RegisterServerOptions, channelId: number): Promise<number> {
+  const result = await callProsodyApi(options, 'peertubelivechat_channels', 'invalidate', {
+    channel: channelId
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to invalidate the channel settings.')
+  }
+  return result.invalidated ?? 0
+}
+
+export {
+  invalidateProsodyChannelSettings
+}
@@ -0,0 +1,28 @@
+interface ProsodyHost {
+  host: string
+  port: string
+}
+
+let current: ProsodyHost | null = null
+
+/**
+ * Sets the current Prosody host and port, that can be used to call Prosody HTTP APIs.
+ * Must be called when Prosody is started (and with null when it is stopped).
+ * @param prosodyHost host and port, or null
+ */
+function setCurrentProsody (prosodyHost: ProsodyHost | null): void {
+  current = prosodyHost
+}
+
+/**
+ * Returns the current Prosody host and port, or null if Prosody is not running.
+ */
+function getCurrentProsody (): ProsodyHost | null {
+  return current
+}
+
+export {
+  ProsodyHost,
+  setCurrentProsody,
+  getCurrentProsody
+}
@@ -0,0 +1,205 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Affiliations } from '../config/affiliations'
+import { callProsodyApi } from './call'
+
+interface ProsodyRoomInfos {
+  jid: string
+  localpart: string
+  name: string
+  subject?: string
+  occupants: number
+  lasttimestamp?: number
+}
+
+/**
+ * Updates affiliations on existing rooms, using the mod_http_peertubelivechat_manage_rooms Prosody API.
+ * Rooms that does not exist (yet) are ignored by Prosody.
+ * @param options server options
+ * @param roomJIDs list of room JIDs
+ * @param affiliations affiliations to set
+ * @returns the number of updated rooms
+ */
+async function updateProsodyRoomsAffiliations (
+  options: RegisterServerOptions,
+  roomJIDs: string[],
+  affiliations: Affiliations
+): Promise<number> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'update-rooms-affiliations', {
+    rooms: roomJIDs,
+    affiliations
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to update rooms affiliations.')
+  }
+  return result.updated ?? 0
+}
+
+/**
+ * Bans and unbans users in all existing rooms.
+ * Users that have an affiliation (owners, admins, members) are never banned,
+ * and users are only unbanned if they are currently banned.
+ * @param options server options
+ * @param bans JIDs to ban
+ * @param unbans JIDs to unban
+ * @param except JIDs of the rooms that must not be updated
+ * @returns the number of updated rooms
+ */
+async function updateAllProsodyRoomsBans (
+  options: RegisterServerOptions,
+  bans: string[],
+  unbans: string[],
+  except: string[] = []
+): Promise<number> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'update-all-rooms-bans', {
+    bans,
+    unbans,
+    except
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to update rooms bans.')
+  }
+  return result.updated ?? 0
+}
+
+/**
+ * Updates affiliations in all existing rooms.
+ * The 'none' affiliation removes existing affiliations.
+ * @param options server options
+ * @param affiliations affiliations to set
+ * @returns the number of updated rooms
+ */
+async function updateAllProsodyRoomsAffiliations (
+  options: RegisterServerOptions,
+  affiliations: Affiliations
+): Promise<number> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'update-all-rooms-affiliations', {
+    affiliations
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to update rooms affiliations.')
+  }
+  return result.updated ?? 0
+}
+
+/**
+ * Returns informations about existing rooms.
+ * Rooms that does not exist are not in the result.
+ * @param options server options
+ * @param roomJIDs list of room JIDs
+ * @returns rooms informations
+ */
+async function getProsodyRoomsInfos (
+  options: RegisterServerOptions,
+  roomJIDs: string[]
+): Promise<ProsodyRoomInfos[]> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'rooms-infos', {
+    rooms: roomJIDs
+  })
+  if (!Array.isArray(result)) {
+    throw new Error('Failed to get rooms informations.')
+  }
+  return result
+}
+
+/**
+ * Changes the subject of an existing room.
+ * @param options server options
+ * @param roomJID room JID
+ * @param subject the new subject
+ */
+async function setProsodyRoomSubject (
+  options: RegisterServerOptions,
+  roomJID: string,
+  subject: string
+): Promise<void> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'set-room-subject', {
+    room: roomJID,
+    subject
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to set the room subject.')
+  }
+}
+
+/**
+ * Sends a message in an existing room.
+ * The nickname does not need to be an occupant of the room.
+ * @param options server options
+ * @param roomJID room JID
+ * @param nick nickname to use
+ * @param body message content
+ */
+async function sendProsodyRoomMessage (
+  options: RegisterServerOptions,
+  roomJID: string,
+  nick: string,
+  body: string
+): Promise<void> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'send-message', {
+    room: roomJID,
+    nick,
+    body
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to send the message.')
+  }
+}
+
+/**
+ * Opens or closes an existing room, depending on the live state.
+ * Closed rooms are moderated: only occupants with an affiliation can talk.
+ * @param options server options
+ * @param roomJID room JID
+ * @param live true if the live is streaming
+ * @param message optional message to send in the room
+ */
+async function setProsodyRoomLiveState (
+  options: RegisterServerOptions,
+  roomJID: string,
+  live: boolean,
+  message?: string
+): Promise<void> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'set-room-live-state', {
+    room: roomJID,
+    live,
+    message
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to set the room live state.')
+  }
+}
+
+/**
+ * Destroys an existing room.
+ * @param options server options
+ * @param roomJID room JID
+ * @param purge if true, the room archive is also deleted
+ * @param reason optional reason, sent to occupants
+ */
+async function destroyProsodyRoom (
+  options: RegisterServerOptions,
+  roomJID: string,
+  purge: boolean,
+  reason?: string
+): Promise<void> {
+  const result = await callProsodyApi(options, 'peertubelivechat_manage_rooms', 'destroy-room', {
+    room: roomJID,
+    purge,
+    reason
+  })
+  if (!result?.ok) {
+    throw new Error('Failed to destroy the room.')
+  }
+}
+
+export {
+  ProsodyRoomInfos,
+  updateProsodyRoomsAffiliations,
+  updateAllProsodyRoomsBans,
+  updateAllProsodyRoomsAffiliations,
+  getProsodyRoomsInfos,
+  setProsodyRoomSubject,
+  sendProsodyRoomMessage,
+  setProsodyRoomLiveState,
+  destroyProsodyRoom
+}
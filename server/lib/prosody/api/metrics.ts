@@ -0,0 +1,52 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import { getCurrentProsody } from './host'
+import { getAPIKey } from '../../apikey'
+const got = require('got')
+
+/**
+ * Metrics returned by mod_http_peertubelivechat_metrics (see its README).
+ */
+interface ProsodyMetrics {
+  uptime: number
+  sessions: {
+    c2s: number
+    bosh: number
+    websocket: number
+  }
+  s2s: {
+    incoming: number
+    outgoing: number
+  }
+  rooms: number
+  archived_messages: number
+  memory: number
+}
+
+/**
+ * Gets metrics from the Prosody server.
+ * Note: the mod_http_peertubelivechat_metrics module is only enabled if metrics are enabled in the plugin settings.
+ * @param options server options
+ * @returns the metrics
+ */
+async function getProsodyMetrics (options: RegisterServerOptions): Promise<ProsodyMetrics> {
+  const currentProsody = getCurrentProsody()
+  if (!currentProsody) {
+    throw new Error('It seems that prosody is not binded... Cant get metrics.')
+  }
+  const apiUrl = `http://localhost:${currentProsody.port}/peertubelivechat_metrics/metrics`
+  options.peertubeHelpers.logger.debug('Calling Prosody metrics API on url: ' + apiUrl)
+  return got(apiUrl, {
+    method: 'GET',
+    headers: {
+      authorization: 'Bearer ' + await getAPIKey(options),
+      host: currentProsody.host
+    },
+    responseType: 'json',
+    resolveBodyOnly: true
+  })
+}
+
+export {
+  ProsodyMetrics,
+  getProsodyMetrics
+}
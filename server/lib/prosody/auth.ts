@@ -1,66 +1,249 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { CredentialsStore, CredentialsStoreType, StoredCredentials } from './credentials/types'
+import { createMemoryCredentialsStore } from './credentials/memory'
+import { createStorageCredentialsStore } from './credentials/storage'
+import { createFileCredentialsStore } from './credentials/file'
+import { createDatabaseCredentialsStore } from './credentials/database'
+import { revokeProsodyUserTokens } from './api/auth'
+import { createHmac, randomBytes } from 'crypto'
+
 /*
 This module provides user credential for the builtin prosody module.
 
 A user can get a password thanks to a call to prosodyRegisterUser (see api user/auth).
 
-Then, we can test that the user exists with prosodyUserRegistered, and test password with prosodyCheckUserPassword.
-
-Passwords are randomly generated.
+Passwords are short-lived tokens, signed with a secret shared with Prosody.
+Prosody verifies them locally (see mod_auth_peertubelivechat), without calling the Peertube API.
+The token format is «<issued>.<expires>.<signature>», where signature is the hex HMAC-SHA256
+of «<username>.<issued>.<expires>» (timestamps are in milliseconds).
 
-These password are stored internally in a global variable, and are valid for 24h.
-Each call to registerUser extends the validity by 24h.
+Tokens are valid for 24h (by default, this can be changed in the settings).
+Issued tokens are kept in the credentials store chosen in the plugin settings (see ./credentials),
+so that the same token is returned while it is valid for long enough.
+We can test that the user has valid credentials with prosodyUserRegistered.
 
+Credentials of a user are revoked when the user is blocked or deleted: Prosody will refuse all tokens issued before.
 */
 
-interface Password {
-  password: string
-  validity: number
+const defaultValidityHours = 24
+const cleanupInterval = 60 * 60 * 1000 // 1h
+
+let store: CredentialsStore | undefined
+let storePromise: Promise<CredentialsStore> | undefined
+let cleanupTimer: NodeJS.Timeout | undefined
+
+/**
+ * Starts the cleanup job.
+ * Note: credentials are revoked when users are blocked or deleted, see ../users-sync.ts.
+ * @param options server options
+ */
+function initCredentialsStore (options: RegisterServerOptions): void {
+  const logger = options.peertubeHelpers.logger
+  stopCredentialsStore()
+  cleanupTimer = setInterval(() => {
+    _cleanup(options).catch((err) => logger.error('Failed to cleanup expired chat credentials:', err))
+  }, cleanupInterval)
+}
+
+/**
+ * Stops the cleanup job. Must be called when the plugin is unloaded.
+ */
+function stopCredentialsStore (): void {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer)
+    cleanupTimer = undefined
+  }
+}
+
+/**
+ * Must be called when settings are changed: if the store type changed, the previous store is destroyed.
+ * Note: credentials are not migrated when the store type changes (users will just get new ones).
+ * @param options server options
+ * @param type the new prosody-credentials-store setting value
+ */
+async function resetCredentialsStore (options: RegisterServerOptions, type: any): Promise<void> {
+  const promise = storePromise
+  if (!promise) { return }
+  let current: CredentialsStore
+  try {
+    current = await promise
+  } catch (_err) {
+    // The store creation failed, it will be created again when needed.
+    return
+  }
+  if (current.type === _parseStoreType(type) || storePromise !== promise) { return }
+  options.peertubeHelpers.logger.info(`The chat credentials store changed, removing the ${current.type} store.`)
+  store = undefined
+  storePromise = undefined
+  await current.destroy()
 }
 
-const PASSWORDS: Map<string, Password> = new Map()
+/**
+ * Removes all stored credentials (files, database table, ...). Must be called when the plugin is unloaded.
+ * Peertube does not tell if the plugin is uninstalled or updated: on updates, users will just get new credentials.
+ * @param options server options
+ */
+async function destroyCredentialsStore (options: RegisterServerOptions): Promise<void> {
+  const s = await _getStore(options)
+  store = undefined
+  storePromise = undefined
+  await s.destroy()
+}
 
-function _getAndClean (user: string): Password | undefined {
-  const entry = PASSWORDS.get(user)
+async function _getStore (options: RegisterServerOptions): Promise<CredentialsStore> {
+  if (store) { return store }
+  if (!storePromise) {
+    const promise: Promise<CredentialsStore> = _createStore(options).then(
+      (s) => {
+        // The store may have been reset in the meantime.
+        if (storePromise === promise) {
+          store = s
+        }
+        return s
+      },
+      (err) => {
+        if (storePromise === promise) {
+          storePromise = undefined
+        }
+        throw err
+      }
+    )
+    storePromise = promise
+  }
+  return storePromise
+}
+
+function _parseStoreType (type: any): CredentialsStoreType {
+  return type === 'memory' || type === 'storage' || type === 'database' ? type : 'file'
+}
+
+async function _createStore (options: RegisterServerOptions): Promise<CredentialsStore> {
+  const type = _parseStoreType(await options.settingsManager.getSetting('prosody-credentials-store'))
+  let s: CredentialsStore
+  switch (type) {
+    case 'memory':
+      s = createMemoryCredentialsStore()
+      break
+    case 'storage':
+      s = createStorageCredentialsStore(options)
+      break
+    case 'database':
+      s = createDatabaseCredentialsStore(options)
+      break
+    default:
+      s = createFileCredentialsStore(options)
+  }
+  await s.init()
+  options.peertubeHelpers.logger.debug(`Using the ${s.type} chat credentials store.`)
+  return s
+}
+
+async function _cleanup (options: RegisterServerOptions): Promise<void> {
+  const count = await (await _getStore(options)).cleanup(Date.now())
+  if (count) {
+    options.peertubeHelpers.logger.debug(`Removed ${count} expired chat credentials.`)
+  }
+}
+
+/**
+ * Returns the secret used to sign tokens. It is generated on first call.
+ * @param options server options
+ */
+async function getProsodyAuthSecret ({ storageManager }: RegisterServerOptions): Promise<string> {
+  let value: string = await storageManager.getData('PROSODYAUTHSECRET')
+  if (!value) {
+    value = randomBytes(32).toString('hex')
+    await storageManager.storeData('PROSODYAUTHSECRET', value)
+  }
+  return value
+}
+
+/**
+ * Returns the token validity duration, in seconds.
+ */
+async function _getValidity (options: RegisterServerOptions): Promise<number> {
+  const setting = await options.settingsManager.getSetting('prosody-credentials-validity')
+  let hours = parseFloat((setting as string | undefined) ?? '')
+  if (isNaN(hours) || hours <= 0) {
+    hours = defaultValidityHours
+  }
+  return Math.round(hours * 60 * 60)
+}
+
+async function _generateToken (
+  options: RegisterServerOptions,
+  user: string,
+  validity: number
+): Promise<StoredCredentials> {
+  // Milliseconds, so that Prosody can refuse tokens issued right before a revocation (and accept the next ones).
+  const issued = Date.now()
+  const expires = issued + validity * 1000
+  const signature = createHmac('sha256', await getProsodyAuthSecret(options))
+    .update(user + '.' + issued.toString() + '.' + expires.toString())
+    .digest('hex')
+  return {
+    password: issued.toString() + '.' + expires.toString() + '.' + signature,
+    validity: expires
+  }
+}
+
+async function _getAndClean (options: RegisterServerOptions, user: string): Promise<StoredCredentials | undefined> {
+  const s = await _getStore(options)
+  const entry = await s.get(user)
   if (entry) {
     if (entry.validity > Date.now()) {
       return entry
     }
-    PASSWORDS.delete(user)
+    await s.delete(user)
   }
   return undefined
 }
 
-async function prosodyRegisterUser (user: string): Promise<string> {
-  const entry = _getAndClean(user)
-  const validity = Date.now() + (24 * 60 * 60 * 1000) // 24h
-  if (entry) {
-    entry.validity = validity
+async function prosodyRegisterUser (options: RegisterServerOptions, user: string): Promise<string> {
+  const entry = await _getAndClean(options, user)
+  const validity = await _getValidity(options)
+  // Tokens can't be extended: if the current one expires soon, we generate a new one.
+  if (entry && entry.validity - Date.now() > validity * 1000 / 2) {
     return entry.password
   }
-
-  const password = Math.random().toString(36).slice(2, 12) + Math.random().toString(36).slice(2, 12)
-  PASSWORDS.set(user, {
-    password: password,
-    validity: validity
-  })
-  return password
+  const credentials = await _generateToken(options, user, validity)
+  await (await _getStore(options)).set(user, credentials)
+  return credentials.password
 }
 
-async function prosodyUserRegistered (user: string): Promise<boolean> {
-  const entry = _getAndClean(user)
+async function prosodyUserRegistered (options: RegisterServerOptions, user: string): Promise<boolean> {
+  const entry = await _getAndClean(options, user)
   return !!entry
 }
 
-async function prosodyCheckUserPassword (user: string, password: string): Promise<boolean> {
-  const entry = _getAndClean(user)
-  if (entry && entry.password === password) {
-    return true
+/**
+ * Revokes the credentials of a user.
+ * Note: this does not close the user's current sessions.
+ * @param options server options
+ * @param user the user (normalized username)
+ * @param revokedByProsody true if the revocation comes from Prosody (so there is no need to notify it)
+ */
+async function prosodyRevokeUser (
+  options: RegisterServerOptions,
+  user: string,
+  revokedByProsody?: boolean
+): Promise<void> {
+  const s = await _getStore(options)
+  await s.delete(user)
+  if (!revokedByProsody) {
+    await revokeProsodyUserTokens(options, user)
+    // A token issued during the Prosody call would be refused: it must not be returned anymore.
+    await s.delete(user)
   }
-  return false
 }
 
 export {
+  initCredentialsStore,
+  stopCredentialsStore,
+  resetCredentialsStore,
+  destroyCredentialsStore,
+  getProsodyAuthSecret,
   prosodyRegisterUser,
   prosodyUserRegistered,
-  prosodyCheckUserPassword
+  prosodyRevokeUser
 }
@@ -7,8 +7,12 @@ import { ProsodyFilePaths } from './config/paths'
 import { ConfigLogExpiration, ProsodyConfigContent } from './config/content'
 import { getProsodyDomain } from './config/domain'
 import { getAPIKey } from '../apikey'
+import { getProsodyAuthSecret } from './auth'
+import { getAnonymousAvatarsConfig } from '../avatars/sets'
 import { parseExternalComponents } from './config/components'
+import { getProsodyChatFiltersConfig } from './config/filters'
 import { getRemoteServerInfosDir } from '../federation/storage'
+import { parseWebhooks, hasWebhookFor } from '../webhooks/parse'
 
 async function getWorkingDir (options: RegisterServerOptions): Promise<string> {
   const peertubeHelpers = options.peertubeHelpers
@@ -146,7 +150,10 @@ async function getProsodyConfig (options: RegisterServerOptionsV5): Promise<Pros
     'prosody-components-port',
     'prosody-components-list',
     'chat-no-anonymous',
-    'federation-dont-publish-remotely'
+    'chat-slow-mode-default',
+    'federation-dont-publish-remotely',
+    'prometheus-metrics',
+    'webhooks'
   ])
 
   const valuesToHideInDiagnostic = new Map<string, string>()
@@ -157,10 +164,12 @@ async function getProsodyConfig (options: RegisterServerOptionsV5): Promise<Pros
   const logByDefault = (settings['prosody-muc-log-by-default'] as boolean) ?? true
   const disableAnon = (settings['chat-no-anonymous'] as boolean) || false
   const logExpirationSetting = (settings['prosody-muc-expiration'] as string) ?? DEFAULTLOGEXPIRATION
+  const slowModeDefaultSetting = (settings['chat-slow-mode-default'] as string) || '0'
   const enableC2S = (settings['prosody-c2s'] as boolean) || false
   // enableRoomS2S: room can be joined from remote XMPP servers (Peertube or not)
   const enableRoomS2S = (settings['prosody-room-allow-s2s'] as boolean) || false
   const enableComponents = (settings['prosody-components'] as boolean) || false
+  const enableMetrics = (settings['prometheus-metrics'] as boolean) || false
   const prosodyDomain = await getProsodyDomain(options)
   const paths = await getProsodyFilePaths(options)
   const roomType = settings['prosody-room-type'] === 'channel' ? 'channel' : 'video'
@@ -182,15 +191,24 @@ async function getProsodyConfig (options: RegisterServerOptionsV5): Promise<Pros
   }
   const baseApiUrl = basePeertubeUrl + getBaseRouterRoute(options) + 'api/'
 
-  const authApiUrl = baseApiUrl + 'user' // FIXME: should be protected by apikey, but mod_auth_http cant handle params
+  const authApiUrl = baseApiUrl + 'user'
   const roomApiUrl = baseApiUrl + 'room?apikey=' + apikey + '&jid={room.jid|jid_node}'
   const testApiUrl = baseApiUrl + 'test?apikey=' + apikey
+  const moderationLogApiUrl = baseApiUrl + 'moderation-log?apikey=' + apikey
+  const pollsApiUrl = baseApiUrl + 'polls?apikey=' + apikey
+  const statsApiUrl = baseApiUrl + 'stats?apikey=' + apikey
+  const webhooksMessageApiUrl = baseApiUrl + 'webhooks/message?apikey=' + apikey
+  const botUptimeApiUrl = baseApiUrl + 'bot/uptime?apikey=' + apikey
+  const avatarApiUrl = baseApiUrl + 'avatar?apikey=' + apikey
+  const roomSettingsApiUrl = baseApiUrl + 'room/settings?apikey=' + apikey
 
   const config = new ProsodyConfigContent(paths, prosodyDomain)
   if (!disableAnon) {
     config.useAnonymous()
   }
-  config.useHttpAuthentication(authApiUrl)
+  const authSecret = await getProsodyAuthSecret(options)
+  valuesToHideInDiagnostic.set('Auth secret', authSecret)
+  config.usePeertubeAuthentication(authApiUrl, apikey, authSecret)
   const useWS = !!options.registerWebSocketRoute // this comes with Peertube >=5.0.0, and is a prerequisite to websocket
   config.usePeertubeBoshAndWebsocket(prosodyDomain, port, publicServerUrl, useWS)
   config.useMucHttpDefault(roomApiUrl)
@@ -250,8 +268,28 @@ async function getProsodyConfig (options: RegisterServerOptionsV5): Promise<Pros
   config.useDefaultPersistent()
 
   config.useListRoomsApi(apikey)
-  config.usePeertubeVCards(basePeertubeUrl)
-  config.useAnonymousRandomVCards(paths.avatars)
+  config.useManageRoomsApi(apikey)
+  config.useRoomArchiveApi(apikey)
+  if (enableMetrics) {
+    config.useMetricsApi(apikey)
+  }
+  config.useChannelsSettings(roomSettingsApiUrl, apikey)
+  config.useSlowMode(readSlowModeDuration(options, slowModeDefaultSetting))
+  config.useChatFilters(await getProsodyChatFiltersConfig(options))
+  config.useChatBot(botUptimeApiUrl)
+  config.useModerationLog(moderationLogApiUrl)
+  config.usePolls(pollsApiUrl)
+  config.usePinnedMessage()
+  config.useStats(statsApiUrl)
+  // Messages are only sent to the plugin if some webhooks need them.
+  if (hasWebhookFor(parseWebhooks((settings.webhooks as string) || ''), ['message_posted', 'live_first_message'])) {
+    config.useWebhooksMessages(webhooksMessageApiUrl)
+  }
+  config.usePeertubeVCards(basePeertubeUrl, avatarApiUrl)
+  const anonymousAvatars = await getAnonymousAvatarsConfig(options, paths.avatars)
+  if (anonymousAvatars) {
+    config.useAnonymousRandomVCards(anonymousAvatars.dir, anonymousAvatars.files)
+  }
 
   config.useTestModule(apikey, testApiUrl)
 
@@ -352,6 +390,19 @@ function readLogExpiration (options: RegisterServerOptions, logExpiration: strin
   }
 }
 
+const MAXSLOWMODEDURATION = 3600
+function readSlowModeDuration (options: RegisterServerOptions, duration: string): number {
+  duration = duration?.trim()
+  if (/^\d+$/.test(duration)) {
+    const seconds = parseInt(duration)
+    if (seconds <= MAXSLOWMODEDURATION) {
+      return seconds
+    }
+  }
+  options.peertubeHelpers.logger.error(`Invalid chat-slow-mode-default value '${duration}'.`)
+  return 0
+}
+
 function getProsodyConfigContentForDiagnostic (config: ProsodyConfig, content?: string): string {
   let r: string = content ?? config.content
   for (const [key, value] of config.valuesToHideInDiagnostic.entries()) {
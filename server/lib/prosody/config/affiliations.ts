@@ -1,6 +1,11 @@
 import type { RegisterServerOptions, MVideoThumbnail } from '@peertube/peertube-types'
 import { getProsodyDomain } from './domain'
 import { getUserNameByChannelId } from '../../database/channel'
+import { getChannelModerators, channelModeratorsToJIDs } from '../../configuration/channel/moderators'
+import { getActiveChannelBans } from '../../configuration/channel/bans'
+import { channelUserToJID } from '../../configuration/channel/jid'
+import { getChannelEffectiveSettings } from '../../configuration/channel/settings'
+import { getFederatedBannedJIDs } from '../../federation/bans/storage'
 
 interface Affiliations { [jid: string]: 'outcast' | 'none' | 'member' | 'admin' | 'owner' }
 
@@ -51,6 +56,73 @@ async function _addAffiliationByChannelId (
   }
 }
 
+async function _addChannelModerators (
+  options: RegisterServerOptions,
+  prosodyDomain: string,
+  r: Affiliations,
+  channelId: number
+): Promise<void> {
+  // NB: if it fails, we want previous results to be returned...
+  try {
+    const moderators = await getChannelModerators(options, channelId)
+    for (const jid of channelModeratorsToJIDs(moderators, prosodyDomain)) {
+      if (!(jid in r)) { // don't override if already owner or admin!
+        r[jid] = 'admin'
+      }
+    }
+  } catch (error) {
+    options.peertubeHelpers.logger.error('Failed to get channel moderators:', error)
+  }
+}
+
+async function _addChannelBans (
+  options: RegisterServerOptions,
+  prosodyDomain: string,
+  r: Affiliations,
+  channelId: number
+): Promise<void> {
+  // NB: if it fails, we want previous results to be returned...
+  try {
+    const bans = await getActiveChannelBans(options, channelId)
+    for (const ban of bans) {
+      const jid = channelUserToJID(ban.user, prosodyDomain)
+      if (!(jid in r)) { // can't ban owners, admins and moderators!
+        r[jid] = 'outcast'
+      }
+    }
+  } catch (error) {
+    options.peertubeHelpers.logger.error('Failed to get channel bans:', error)
+  }
+}
+
+async function _addFederatedBans (
+  options: RegisterServerOptions,
+  r: Affiliations,
+  channelId: number
+): Promise<void> {
+  // NB: if it fails, we want previous results to be returned...
+  try {
+    // Federated bans only apply to channels that enable them (see the federation-bans-apply setting).
+    const settings = await getChannelEffectiveSettings(options, channelId, ['federation-bans-apply'])
+    if (!settings['federation-bans-apply']) { return }
+    for (const jid of await getFederatedBannedJIDs(options)) {
+      if (!(jid in r)) { // can't ban owners, admins and moderators!
+        r[jid] = 'outcast'
+      }
+    }
+  } catch (error) {
+    options.peertubeHelpers.logger.error('Failed to get federated bans:', error)
+  }
+}
+
+/**
+ * Returns affiliations that are common to all rooms (Peertube admins and moderators are owners).
+ * @param options server options
+ */
+async function getCommonAffiliations (options: RegisterServerOptions): Promise<Affiliations> {
+  return _getCommonAffiliations(options, await getProsodyDomain(options))
+}
+
 async function getVideoAffiliations (options: RegisterServerOptions, video: MVideoThumbnail): Promise<Affiliations> {
   const prosodyDomain = await getProsodyDomain(options)
   const r = await _getCommonAffiliations(options, prosodyDomain)
@@ -59,6 +131,12 @@ async function getVideoAffiliations (options: RegisterServerOptions, video: MVid
   if (!video.remote) {
     // don't add the video owner if it is a remote video!
     await _addAffiliationByChannelId(options, prosodyDomain, r, video.channelId)
+    // and for the channel moderators
+    await _addChannelModerators(options, prosodyDomain, r, video.channelId)
+    // and the banned users
+    await _addChannelBans(options, prosodyDomain, r, video.channelId)
+    // and the users banned by partner instances
+    await _addFederatedBans(options, r, video.channelId)
   }
 
   return r
@@ -71,12 +149,19 @@ async function getChannelAffiliations (options: RegisterServerOptions, channelId
   // Adding an 'admin' affiliation for channel owner
   // NB: remote channel can't be found, there are not in the videoChannel table.
   await _addAffiliationByChannelId(options, prosodyDomain, r, channelId)
+  // and for the channel moderators
+  await _addChannelModerators(options, prosodyDomain, r, channelId)
+  // and the banned users
+  await _addChannelBans(options, prosodyDomain, r, channelId)
+  // and the users banned by partner instances
+  await _addFederatedBans(options, r, channelId)
 
   return r
 }
 
 export {
   Affiliations,
+  getCommonAffiliations,
   getVideoAffiliations,
   getChannelAffiliations
 }
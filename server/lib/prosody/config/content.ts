@@ -1,5 +1,6 @@
 import type { ProsodyFilePaths } from './paths'
 import type { ExternalComponent } from './components'
+import type { ProsodyChatFiltersConfig } from './filters'
 import { userInfo } from 'os'
 
 type ConfigEntryValue = boolean | number | string | ConfigEntryValue[]
@@ -32,7 +33,7 @@ function writeValue (value: ConfigEntryValue): string {
     return value.toString() + ';\n'
   }
   if (typeof value === 'string') {
-    return '"' + value.replace(/"/g, '\\"') + '"' + ';\n'
+    return '"' + value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n') + '"' + ';\n'
   }
   if (typeof value === 'number') {
     return value.toString() + ';\n'
@@ -210,13 +211,15 @@ class ProsodyConfigContent {
     this.anon.set('modules_enabled', ['ping'])
   }
 
-  useHttpAuthentication (url: string): void {
+  usePeertubeAuthentication (url: string, apikey: string, secret: string): void {
     this.authenticated = new ProsodyConfigVirtualHost(this.prosodyDomain)
 
-    this.authenticated.set('authentication', 'http')
+    this.authenticated.set('authentication', 'peertubelivechat')
     this.authenticated.set('modules_enabled', ['ping'])
 
-    this.authenticated.set('http_auth_url', url)
+    this.authenticated.set('peertubelivechat_auth_api_url', url)
+    this.authenticated.set('peertubelivechat_auth_apikey', apikey)
+    this.authenticated.set('peertubelivechat_auth_secret', secret)
   }
 
   usePeertubeBoshAndWebsocket (prosodyDomain: string, port: string, publicServerUrl: string, useWS: boolean): void {
@@ -375,23 +378,112 @@ class ProsodyConfigContent {
     this.muc.set('peertubelivechat_list_rooms_apikey', apikey)
   }
 
+  useManageRoomsApi (apikey: string): void {
+    this.muc.add('modules_enabled', 'http_peertubelivechat_manage_rooms')
+    this.muc.set('peertubelivechat_manage_rooms_apikey', apikey)
+  }
+
+  useMetricsApi (apikey: string): void {
+    this.muc.add('modules_enabled', 'http_peertubelivechat_metrics')
+    this.muc.set('peertubelivechat_metrics_apikey', apikey)
+  }
+
+  useRoomArchiveApi (apikey: string): void {
+    this.muc.add('modules_enabled', 'http_peertubelivechat_room_archive')
+    this.muc.set('peertubelivechat_room_archive_apikey', apikey)
+  }
+
+  /**
+   * Enables the per-room channel settings (see mod_muc_peertubelivechat_channels).
+   * Must be called after useAnonymous, so that anonymous users can be identified.
+   * @param url the plugin API url to call to get the settings of a room
+   * @param apikey the API key that the plugin uses to call the module API
+   */
+  useChannelsSettings (url: string, apikey: string): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_channels')
+    this.muc.set('peertubelivechat_channels_api_url', url)
+    this.muc.set('peertubelivechat_channels_apikey', apikey)
+    if (this.anon) {
+      this.muc.set('peertubelivechat_channels_anonymous_host', 'anon.' + this.prosodyDomain)
+    }
+  }
+
+  useSlowMode (defaultDuration: number): void {
+    this.muc.add('modules_enabled', 'muc_slow_mode')
+    this.muc.set('slow_mode_duration_default', defaultDuration)
+  }
+
+  /**
+   * Enables the chat filters.
+   * The module is always enabled, as channel filters come with the room settings (see useChannelsSettings).
+   * @param filtersConfig instance filters configuration
+   */
+  useChatFilters (filtersConfig: ProsodyChatFiltersConfig): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_filters')
+    this.muc.set('peertubelivechat_filters', JSON.stringify(filtersConfig))
+  }
+
+  /**
+   * Enables the channels chat bots.
+   * The module is always enabled, as bots come with the room settings (see useChannelsSettings).
+   * @param uptimeUrl the plugin API url to call to get the live uptime
+   */
+  useChatBot (uptimeUrl: string): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_bot')
+    this.muc.set('peertubelivechat_bot_uptime_url', uptimeUrl)
+  }
+
+  useModerationLog (url: string): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_moderation_log')
+    this.muc.set('peertubelivechat_moderation_log_url', url)
+  }
+
+  usePolls (url: string): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_polls')
+    this.muc.set('peertubelivechat_polls_url', url)
+  }
+
+  usePinnedMessage (): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_pinned_message')
+  }
+
+  /**
+   * Enables the chat statistics.
+   * Must be called after useAnonymous, so that anonymous participants can be identified.
+   * @param url the plugin API url to call with the rooms activity samples
+   */
+  useStats (url: string): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_stats')
+    this.muc.set('peertubelivechat_stats_url', url)
+    if (this.anon) {
+      this.muc.set('peertubelivechat_stats_anonymous_host', 'anon.' + this.prosodyDomain)
+    }
+  }
+
+  useWebhooksMessages (url: string): void {
+    this.muc.add('modules_enabled', 'muc_peertubelivechat_webhooks')
+    this.muc.set('peertubelivechat_webhooks_message_url', url)
+  }
+
   useTestModule (prosodyApikey: string, apiurl: string): void {
     this.muc.add('modules_enabled', 'http_peertubelivechat_test')
     this.muc.set('peertubelivechat_test_apikey', prosodyApikey)
     this.muc.set('peertubelivechat_test_peertube_api_url', apiurl)
   }
 
-  usePeertubeVCards (peertubeUrl: string): void {
+  usePeertubeVCards (peertubeUrl: string, avatarUrl: string): void {
     if (this.authenticated) {
       this.authenticated.add('modules_enabled', 'vcard_peertubelivechat')
       this.authenticated.set('peertubelivechat_vcard_peertube_url', peertubeUrl)
+      this.authenticated.set('peertubelivechat_vcard_avatar_url', avatarUrl)
     }
   }
 
-  useAnonymousRandomVCards (avatarPath: string): void {
+  useAnonymousRandomVCards (avatarPath: string, avatarFiles: string[]): void {
     if (this.anon) {
       this.anon.add('modules_enabled', 'random_vcard_peertubelivechat')
       this.anon.set('peertubelivechat_random_vcard_avatars_path', avatarPath)
+      this.anon.set('peertubelivechat_random_vcard_avatars_files', avatarFiles)
     }
   }
 
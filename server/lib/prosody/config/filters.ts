@@ -0,0 +1,88 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChatFilters } from '../../../../shared/lib/types'
+import { sanitizeChatFilters, checkChatFilterPattern } from '../../configuration/channel/sanitize'
+import { hasChatFiltersRules } from '../../configuration/channel/filters'
+
+/**
+ * Chat filters configuration, as expected by mod_muc_peertubelivechat_filters.
+ * Instance filters apply to all rooms.
+ * Note: channel filters are not in the configuration, Prosody gets them with the room settings (see ./room-settings).
+ */
+interface ProsodyChatFiltersConfig {
+  instance?: ChatFilters
+}
+
+/**
+ * Reads the instance chat filters from the plugin settings.
+ * Invalid words and patterns are logged and skipped, other rules still apply.
+ * Other invalid values are logged, and the filters are ignored.
+ * @param options server options
+ * @returns instance chat filters, or undefined if there is no rule
+ */
+async function getInstanceChatFilters (options: RegisterServerOptions): Promise<ChatFilters | undefined> {
+  const settings = await options.settingsManager.getSettings([
+    'chat-filters-forbidden-words',
+    'chat-filters-patterns',
+    'chat-filters-block-links',
+    'chat-filters-max-length',
+    'chat-filters-max-caps-ratio',
+    'chat-filters-action',
+    'chat-filters-kick-after'
+  ])
+  const logger = options.peertubeHelpers.logger
+  const forbiddenWords = _readLines(settings['chat-filters-forbidden-words']).filter(word => {
+    if (word.length <= 100) { return true }
+    logger.error(`Invalid chat filters forbidden word '${word}' for the instance: too long, skipping it.`)
+    return false
+  })
+  const patterns = _readLines(settings['chat-filters-patterns']).filter(pattern => {
+    try {
+      if (pattern.length > 200) {
+        throw new Error(`Invalid pattern '${pattern}' for the instance: too long`)
+      }
+      checkChatFilterPattern(pattern, `pattern '${pattern}' for the instance`)
+      return true
+    } catch (err) {
+      logger.error(`${(err as Error).message}, skipping it.`)
+      return false
+    }
+  })
+
+  let filters: ChatFilters
+  try {
+    filters = sanitizeChatFilters({
+      forbiddenWords,
+      patterns,
+      blockLinks: !!settings['chat-filters-block-links'],
+      maxLength: (settings['chat-filters-max-length'] as string) || '0',
+      maxCapsRatio: (settings['chat-filters-max-caps-ratio'] as string) || '0',
+      action: settings['chat-filters-action'] || 'block',
+      kickAfter: (settings['chat-filters-kick-after'] as string) || '3'
+    }, 'the instance')
+  } catch (err) {
+    logger.error('Invalid chat filters settings, ignoring them.', err)
+    return undefined
+  }
+  return hasChatFiltersRules(filters) ? filters : undefined
+}
+
+/**
+ * Computes the chat filters configuration for Prosody.
+ * @param options server options
+ * @returns the configuration
+ */
+async function getProsodyChatFiltersConfig (options: RegisterServerOptions): Promise<ProsodyChatFiltersConfig> {
+  return {
+    instance: await getInstanceChatFilters(options)
+  }
+}
+
+function _readLines (value: any): string[] {
+  if (typeof value !== 'string') { return [] }
+  return value.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '')
+}
+
+export {
+  ProsodyChatFiltersConfig,
+  getProsodyChatFiltersConfig
+}
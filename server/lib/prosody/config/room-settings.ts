@@ -0,0 +1,58 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChatFilters, ChatBot } from '../../../../shared/lib/types'
+import { getRoomChannelId } from '../../configuration/channel/rooms'
+import { getChannelEffectiveSettings } from '../../configuration/channel/settings'
+import { getChannelChatFilters, hasChatFiltersRules } from '../../configuration/channel/filters'
+import { getChannelChatBot } from '../../configuration/channel/bot'
+
+/**
+ * Channel settings that apply to a room, as expected by mod_muc_peertubelivechat_channels.
+ * Prosody gets them when needed (and caches them), so that channel owners can change them without reloading Prosody.
+ */
+interface ProsodyRoomSettings {
+  channel: number | null
+  noAnonymous: boolean
+  // channel chat filters (instance filters are in the Prosody configuration), null if there is no rule.
+  filters: ChatFilters | null
+  // channel chat bot, null if disabled.
+  bot: ChatBot | null
+  // nickname used by the bot and the scheduled announcements (reserved, even if the bot is disabled).
+  announcer: string | null
+}
+
+/**
+ * Computes the settings of a room.
+ * @param options server options
+ * @param localpart room localpart
+ * @returns the room settings. If the room is not related to a local channel, channel is null.
+ */
+async function getProsodyRoomSettings (
+  options: RegisterServerOptions,
+  localpart: string
+): Promise<ProsodyRoomSettings> {
+  const channelId = await getRoomChannelId(options, localpart)
+  if (channelId === null) {
+    return {
+      channel: null,
+      noAnonymous: false,
+      filters: null,
+      bot: null,
+      announcer: null
+    }
+  }
+  const settings = await getChannelEffectiveSettings(options, channelId, ['chat-no-anonymous'])
+  const filters = await getChannelChatFilters(options, channelId)
+  const bot = await getChannelChatBot(options, channelId)
+  return {
+    channel: channelId,
+    noAnonymous: !!settings['chat-no-anonymous'],
+    filters: hasChatFiltersRules(filters) ? filters : null,
+    bot: bot.enabled ? bot : null,
+    announcer: bot.nickname
+  }
+}
+
+export {
+  ProsodyRoomSettings,
+  getProsodyRoomSettings
+}
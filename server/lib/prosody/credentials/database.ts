@@ -0,0 +1,64 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { CredentialsStore } from './types'
+
+const table = '"livechat_prosody_credentials"'
+
+/**
+ * Credentials stored in a dedicated table of the Peertube database.
+ * This works with multiple Peertube processes, even on different servers.
+ * @param options server options
+ */
+function createDatabaseCredentialsStore (options: RegisterServerOptions): CredentialsStore {
+  const database = options.peertubeHelpers.database
+  return {
+    type: 'database',
+    init: async () => {
+      await database.query(
+        'CREATE TABLE IF NOT EXISTS ' + table + ' (' +
+        ' "user" VARCHAR(255) PRIMARY KEY,' +
+        ' "password" VARCHAR(255) NOT NULL,' +
+        ' "validity" BIGINT NOT NULL' +
+        ')'
+      )
+    },
+    get: async (user) => {
+      const [results] = await database.query(
+        'SELECT "password", "validity" FROM ' + table + ' WHERE "user" = :user',
+        { replacements: { user } }
+      )
+      if (!Array.isArray(results) || !results[0]) { return undefined }
+      return {
+        password: results[0].password,
+        // BIGINT values are returned as strings.
+        validity: parseInt(results[0].validity)
+      }
+    },
+    set: async (user, c) => {
+      await database.query(
+        'INSERT INTO ' + table + ' ("user", "password", "validity") VALUES (:user, :password, :validity)' +
+        ' ON CONFLICT ("user") DO UPDATE SET "password" = EXCLUDED."password", "validity" = EXCLUDED."validity"',
+        { replacements: { user, password: c.password, validity: c.validity } }
+      )
+    },
+    delete: async (user) => {
+      await database.query(
+        'DELETE FROM ' + table + ' WHERE "user" = :user',
+        { replacements: { user } }
+      )
+    },
+    cleanup: async (now) => {
+      const [results] = await database.query(
+        'DELETE FROM ' + table + ' WHERE "validity" <= :now RETURNING "user"',
+        { replacements: { now } }
+      )
+      return Array.isArray(results) ? results.length : 0
+    },
+    destroy: async () => {
+      await database.query('DROP TABLE IF EXISTS ' + table)
+    }
+  }
+}
+
+export {
+  createDatabaseCredentialsStore
+}
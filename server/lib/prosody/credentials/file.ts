@@ -0,0 +1,81 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { CredentialsStore, StoredCredentials } from './types'
+import { createHash } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * Credentials stored in the plugin data directory, one file per user.
+ * File names are hashes of the username, so there is no need to escape anything.
+ * This works with multiple Peertube processes, as long as they share the data directory.
+ * @param options server options
+ */
+function createFileCredentialsStore (options: RegisterServerOptions): CredentialsStore {
+  const dir = path.resolve(options.peertubeHelpers.plugin.getDataDirectoryPath(), 'credentials')
+  const filePath = (user: string): string => path.resolve(
+    dir,
+    createHash('sha256').update(user).digest('hex') + '.json'
+  )
+
+  const read = async (p: string): Promise<StoredCredentials | undefined> => {
+    let content: string
+    try {
+      content = await fs.promises.readFile(p, { encoding: 'utf-8' })
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') { return undefined }
+      throw err
+    }
+    try {
+      const data = JSON.parse(content)
+      if (typeof data?.password !== 'string' || typeof data.validity !== 'number') { return undefined }
+      return data
+    } catch (_err) {
+      // The file can be partially written by another process.
+      return undefined
+    }
+  }
+
+  const remove = async (p: string): Promise<void> => {
+    try {
+      await fs.promises.unlink(p)
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') { throw err }
+    }
+  }
+
+  return {
+    type: 'file',
+    init: async () => {
+      await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 })
+    },
+    get: async (user) => read(filePath(user)),
+    set: async (user, c) => {
+      // Writing to a temporary file, then renaming, so that readers never get a partial file.
+      const p = filePath(user)
+      const tmp = p + '.' + process.pid.toString() + '.tmp'
+      await fs.promises.writeFile(tmp, JSON.stringify(c), { encoding: 'utf-8', mode: 0o600 })
+      await fs.promises.rename(tmp, p)
+    },
+    delete: async (user) => remove(filePath(user)),
+    cleanup: async (now) => {
+      let count = 0
+      for (const file of await fs.promises.readdir(dir)) {
+        if (!file.endsWith('.json')) { continue }
+        const p = path.resolve(dir, file)
+        const c = await read(p)
+        if (!c || c.validity <= now) {
+          await remove(p)
+          count++
+        }
+      }
+      return count
+    },
+    destroy: async () => {
+      await fs.promises.rm(dir, { recursive: true, force: true })
+    }
+  }
+}
+
+export {
+  createFileCredentialsStore
+}
@@ -0,0 +1,38 @@
+import type { CredentialsStore, StoredCredentials } from './types'
+
+/**
+ * Credentials stored in memory.
+ * This was the historical behaviour: credentials are lost when Peertube restarts (or when the plugin is reloaded),
+ * and this can't work when Peertube runs multiple processes.
+ */
+function createMemoryCredentialsStore (): CredentialsStore {
+  const credentials = new Map<string, StoredCredentials>()
+  return {
+    type: 'memory',
+    init: async () => {},
+    get: async (user) => credentials.get(user),
+    set: async (user, c) => {
+      credentials.set(user, c)
+    },
+    delete: async (user) => {
+      credentials.delete(user)
+    },
+    cleanup: async (now) => {
+      let count = 0
+      for (const [user, c] of credentials) {
+        if (c.validity <= now) {
+          credentials.delete(user)
+          count++
+        }
+      }
+      return count
+    },
+    destroy: async () => {
+      credentials.clear()
+    }
+  }
+}
+
+export {
+  createMemoryCredentialsStore
+}
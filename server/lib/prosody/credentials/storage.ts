@@ -0,0 +1,73 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { CredentialsStore, StoredCredentials } from './types'
+import { pluginShortName } from '../../helpers'
+
+/*
+The Peertube storage manager can't list or remove keys.
+Peertube stores the plugin data in the «storage» JSONB column of its row in the «plugin» table:
+we use this column directly to list and remove keys (so they don't pile up).
+*/
+
+const keyPrefix = 'livechat-credentials-'
+// PluginType.PLUGIN
+const pluginType = 1
+
+/**
+ * Credentials stored using the Peertube plugin storage (in the Peertube database).
+ * @param options server options
+ */
+function createStorageCredentialsStore (options: RegisterServerOptions): CredentialsStore {
+  const storageManager = options.storageManager
+  const database = options.peertubeHelpers.database
+  const key = (user: string): string => keyPrefix + user
+
+  const listEntries = async (): Promise<Array<{ key: string, value: any }>> => {
+    const [results] = await database.query(
+      'SELECT "entry"."key", "entry"."value" FROM "plugin", jsonb_each("plugin"."storage") AS "entry"' +
+      ' WHERE "plugin"."name" = :name AND "plugin"."type" = :type',
+      { replacements: { name: pluginShortName, type: pluginType } }
+    )
+    if (!Array.isArray(results)) { return [] }
+    return results.filter(r => typeof r.key === 'string' && r.key.startsWith(keyPrefix))
+  }
+
+  const removeKeys = async (keys: string[]): Promise<void> => {
+    if (!keys.length) { return }
+    await database.query(
+      'UPDATE "plugin" SET "storage" = "storage" - ARRAY[:keys]::text[]' +
+      ' WHERE "name" = :name AND "type" = :type',
+      { replacements: { keys, name: pluginShortName, type: pluginType } }
+    )
+  }
+
+  return {
+    type: 'storage',
+    init: async () => {},
+    get: async (user) => {
+      const data: any = await storageManager.getData(key(user))
+      if (!data || typeof data !== 'object') { return undefined }
+      if (typeof data.password !== 'string' || typeof data.validity !== 'number') { return undefined }
+      return data as StoredCredentials
+    },
+    set: async (user, c) => {
+      await storageManager.storeData(key(user), c)
+    },
+    delete: async (user) => {
+      await removeKeys([key(user)])
+    },
+    cleanup: async (now) => {
+      const expired = (await listEntries())
+        .filter(e => typeof e.value?.validity !== 'number' || e.value.validity <= now)
+        .map(e => e.key)
+      await removeKeys(expired)
+      return expired.length
+    },
+    destroy: async () => {
+      await removeKeys((await listEntries()).map(e => e.key))
+    }
+  }
+}
+
+export {
+  createStorageCredentialsStore
+}
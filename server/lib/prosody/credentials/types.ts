@@ -0,0 +1,36 @@
+type CredentialsStoreType = 'file' | 'storage' | 'database' | 'memory'
+
+interface StoredCredentials {
+  password: string
+  validity: number // timestamp, in milliseconds
+}
+
+/**
+ * A credentials store backend.
+ * Backends don't have to check the validity: this is done by the caller (see ../auth.ts).
+ */
+interface CredentialsStore {
+  type: CredentialsStoreType
+  /**
+   * Prepares the backend (creates directories, tables, ...).
+   */
+  init: () => Promise<void>
+  get: (user: string) => Promise<StoredCredentials | undefined>
+  set: (user: string, credentials: StoredCredentials) => Promise<void>
+  delete: (user: string) => Promise<void>
+  /**
+   * Removes expired credentials.
+   * @returns the number of removed entries
+   */
+  cleanup: (now: number) => Promise<number>
+  /**
+   * Removes everything the backend created (credentials, directories, tables, ...).
+   */
+  destroy: () => Promise<void>
+}
+
+export {
+  CredentialsStoreType,
+  StoredCredentials,
+  CredentialsStore
+}
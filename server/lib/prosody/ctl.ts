@@ -9,6 +9,7 @@ import {
 } from './certificates'
 import { disableProxyRoute, enableProxyRoute } from '../routers/webchat'
 import { fixRoomSubject } from './fix-room-subject'
+import { countProsodyStart } from '../metrics'
 import * as fs from 'fs'
 import * as child_process from 'child_process'
 import { disableLuaUnboundIfNeeded, prosodyDebuggerOptions } from '../../lib/debug'
@@ -207,6 +208,22 @@ async function reloadProsody (options: RegisterServerOptions): Promise<boolean>
   return true
 }
 
+/**
+ * Rewrites the Prosody configuration file, and reloads Prosody.
+ * This must only be used for configuration changes that don't need a restart (for example some module options).
+ * If Prosody is not running, does nothing: the configuration will be written on next start.
+ * @param options server options
+ */
+async function updateProsodyConfig (options: RegisterServerOptions): Promise<void> {
+  const r = await testProsodyRunning(options)
+  if (!r.ok) {
+    options.peertubeHelpers.logger.info('Prosody is not running, no need to update its configuration.')
+    return
+  }
+  await writeProsodyConfig(options)
+  await reloadProsody(options)
+}
+
 async function checkProsody (options: RegisterServerOptions): Promise<string> {
   const ctl = await prosodyCtl(options, 'check')
   return ctl.message
@@ -359,6 +376,7 @@ async function ensureProsodyRunning (
       PROSODY_CONFIG: filePaths.config
     }
   })
+  countProsodyStart()
   prosody.stdout?.on('data', (data) => {
     logger.debug(`Prosody stdout: ${data as string}`)
   })
@@ -443,5 +461,6 @@ export {
   ensureProsodyRunning,
   ensureProsodyNotRunning,
   prosodyCtl,
-  reloadProsody
+  reloadProsody,
+  updateProsodyConfig
 }
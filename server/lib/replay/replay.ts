@@ -0,0 +1,100 @@
+import type { RegisterServerOptions, Video } from '@peertube/peertube-types'
+import type { VideoLiveInfos } from './storage'
+import { getVideoLiveInfos, storeVideoLiveInfos } from './storage'
+import { getLastLiveSessionStartDate, getLiveSessionByReplayVideoId } from '../database/video'
+import { getChannelEffectiveSettings } from '../configuration/channel/settings'
+import { videoHasWebchat } from '../../../shared/lib/video'
+
+// Note: we can't import VideoState from @peertube/peertube-types, it is a const enum in a declaration file.
+const videoStatePublished = 1
+const videoStateLiveEnded = 5
+
+/**
+ * Stores the live start (and end) timestamps, so that the chat can be replayed with the VOD.
+ * Must be called with local videos, when they are fetched by the API.
+ * Peertube has no hook when a live starts, so we are detecting state changes
+ * when the video is viewed.
+ * @param options server options
+ * @param video the video (with pluginData already filled)
+ */
+async function updateVideoLiveInfos (options: RegisterServerOptions, video: Video): Promise<void> {
+  if (!video.isLive || !video.id) { return }
+  const state = video.state?.id
+  const stored = await getVideoLiveInfos(options, video.id)
+
+  if (state === videoStatePublished) {
+    if (stored && stored.end === undefined) {
+      // Already recorded.
+      return
+    }
+    const settings = await getChannelEffectiveSettings(options, video.channel?.id ?? null, [
+      'chat-per-live-video',
+      'chat-all-lives',
+      'chat-all-non-lives',
+      'chat-videos-list',
+      'prosody-room-type'
+    ])
+    if (!videoHasWebchat({
+      'chat-per-live-video': !!settings['chat-per-live-video'],
+      'chat-all-lives': !!settings['chat-all-lives'],
+      'chat-all-non-lives': !!settings['chat-all-non-lives'],
+      'chat-videos-list': settings['chat-videos-list'] as string
+    }, video)) {
+      return
+    }
+    const sessionStart = await getLastLiveSessionStartDate(options, video.id)
+    const infos: VideoLiveInfos = {
+      room: settings['prosody-room-type'] === 'channel' && video.channel?.id
+        ? 'channel.' + video.channel.id.toString()
+        : video.uuid,
+      start: Math.floor((sessionStart?.getTime() ?? Date.now()) / 1000)
+    }
+    options.peertubeHelpers.logger.info(`Storing live start for video ${video.uuid}`)
+    await storeVideoLiveInfos(options, video.id, infos)
+  } else if (state === videoStateLiveEnded) {
+    if (!stored || stored.end !== undefined) { return }
+    options.peertubeHelpers.logger.info(`Storing live end for video ${video.uuid}`)
+    stored.end = Math.floor(Date.now() / 1000)
+    await storeVideoLiveInfos(options, video.id, stored)
+  }
+}
+
+/**
+ * Returns the informations needed to replay the chat of a past live, with the VOD.
+ * Returns null if there is no chat to replay.
+ * @param options server options
+ * @param video the video
+ * @returns the room that was used during the live, and the live start and end timestamps
+ */
+async function getVideoReplayInfos (
+  options: RegisterServerOptions,
+  video: { id?: number, isLive: boolean }
+): Promise<VideoLiveInfos | null> {
+  if (video.isLive || !video.id) { return null }
+
+  // For permanent lives, the replay is a new video. Peertube knows the session, that gives accurate dates.
+  const session = await getLiveSessionByReplayVideoId(options, video.id)
+  if (session) {
+    const stored = await getVideoLiveInfos(options, session.liveVideoId)
+    if (!stored) {
+      // No chat recorded for this live.
+      return null
+    }
+    const infos: VideoLiveInfos = {
+      room: stored.room,
+      start: Math.floor(session.startDate.getTime() / 1000)
+    }
+    if (session.endDate) {
+      infos.end = Math.floor(session.endDate.getTime() / 1000)
+    }
+    return infos
+  }
+
+  // For non-permanent lives, the live video becomes the replay.
+  return getVideoLiveInfos(options, video.id)
+}
+
+export {
+  updateVideoLiveInfos,
+  getVideoReplayInfos
+}
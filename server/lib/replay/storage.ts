@@ -0,0 +1,100 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/*
+Live informations are stored in files, in the plugin data directory (one file per video).
+See server/lib/federation/storage.ts for the reasons why we are not using storageManager.
+*/
+
+/**
+ * Informations about the last live of a video.
+ * room: the localpart of the chat room that was used during the live (video uuid, or channel.<id>)
+ * start, end: unix timestamps (seconds)
+ */
+interface VideoLiveInfos {
+  room: string
+  start: number
+  end?: number
+}
+
+const cache: Map<number, VideoLiveInfos | null> = new Map<number, VideoLiveInfos | null>()
+
+/**
+ * Returns the stored live informations for a video.
+ * @param options server options
+ * @param videoId video id (not uuid)
+ * @returns live informations, or null
+ */
+async function getVideoLiveInfos (options: RegisterServerOptions, videoId: number): Promise<VideoLiveInfos | null> {
+  const cached = cache.get(videoId)
+  if (cached !== undefined) { return cached }
+
+  const filePath = _getFilePath(options, videoId)
+  try {
+    if (!fs.existsSync(filePath)) {
+      cache.set(videoId, null)
+      return null
+    }
+    const content = JSON.parse(await fs.promises.readFile(filePath, { encoding: 'utf-8' }))
+    const infos = _sanitizeVideoLiveInfos(content)
+    cache.set(videoId, infos)
+    return infos
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Failed reading live informations for video ${videoId}`, err)
+    return null
+  }
+}
+
+/**
+ * Stores the live informations for a video.
+ * @param options server options
+ * @param videoId video id (not uuid)
+ * @param infos live informations
+ */
+async function storeVideoLiveInfos (
+  options: RegisterServerOptions,
+  videoId: number,
+  infos: VideoLiveInfos
+): Promise<void> {
+  const filePath = _getFilePath(options, videoId)
+  cache.delete(videoId)
+  const dir = path.dirname(filePath)
+  if (!fs.existsSync(dir)) {
+    await fs.promises.mkdir(dir, { recursive: true })
+  }
+  await fs.promises.writeFile(filePath, JSON.stringify(infos), { encoding: 'utf-8' })
+  cache.delete(videoId)
+}
+
+function _sanitizeVideoLiveInfos (data: any): VideoLiveInfos | null {
+  if (typeof data !== 'object' || !data) { return null }
+  if (typeof data.room !== 'string' || !/^(channel\.\d+|[a-zA-Z0-9-]+)$/.test(data.room)) { return null }
+  if (typeof data.start !== 'number') { return null }
+  const infos: VideoLiveInfos = {
+    room: data.room,
+    start: data.start
+  }
+  if (typeof data.end === 'number') {
+    infos.end = data.end
+  }
+  return infos
+}
+
+function _getFilePath (options: RegisterServerOptions, videoId: number): string {
+  // some sanitization, just in case...
+  if (!Number.isInteger(videoId)) {
+    throw new Error('Invalid videoId: not an integer')
+  }
+  return path.resolve(
+    options.peertubeHelpers.plugin.getDataDirectoryPath(),
+    'videoLive',
+    videoId.toString() + '.json'
+  )
+}
+
+export {
+  VideoLiveInfos,
+  getVideoLiveInfos,
+  storeVideoLiveInfos
+}
@@ -1,17 +1,39 @@
 import type { RegisterServerOptions } from '@peertube/peertube-types'
 import type { Router, Request, Response, NextFunction } from 'express'
+import { timingSafeEqual } from 'crypto'
 import { videoHasWebchat } from '../../../shared/lib/video'
 import { asyncMiddleware } from '../middlewares/async'
 import { getCheckAPIKeyMiddleware } from '../middlewares/apikey'
-import { prosodyCheckUserPassword, prosodyRegisterUser, prosodyUserRegistered } from '../prosody/auth'
-import { getUserNickname } from '../helpers'
+import { prosodyRegisterUser, prosodyUserRegistered, prosodyRevokeUser } from '../prosody/auth'
+import { getUserNickname, isUserAdmin } from '../helpers'
 import { Affiliations, getVideoAffiliations, getChannelAffiliations } from '../prosody/config/affiliations'
 import { getProsodyDomain } from '../prosody/config/domain'
+import { getProsodyRoomSettings } from '../prosody/config/room-settings'
 import { fillVideoCustomFields } from '../custom-fields'
 import { getChannelInfosById } from '../database/channel'
+import { getLastLiveSessionStartDate } from '../database/video'
+import { getLocalUserByUsername } from '../database/user'
+import { getAccountAvatar } from '../avatars/accounts'
 import { ensureProsodyRunning } from '../prosody/ctl'
 import { serverBuildInfos } from '../federation/outgoing'
+import {
+  getFederatedBansPartners, findFederatedBansPartner, signFederatedBansPayload, checkFederatedBansSignature
+} from '../federation/bans/partners'
+import { buildFederatedBansList } from '../federation/bans/publish'
 import { isDebugMode } from '../debug'
+import { getChannelEffectiveSettings } from '../configuration/channel/settings'
+import { getRoomChannelId } from '../configuration/channel/rooms'
+import {
+  sanitizeModerationLogEntry, sanitizeChatPoll, sanitizeRoomStatsSample
+} from '../configuration/channel/sanitize'
+import { addChannelModerationLogEntry } from '../configuration/channel/moderation-log'
+import { addChannelPoll } from '../configuration/channel/polls'
+import { addRoomStatsSample } from '../configuration/channel/stats'
+import { getChannelEmojiFilePath } from '../configuration/channel/emojis'
+import { getMetrics } from '../metrics'
+import { emitWebhookEvent, emitWebhookMessageEvents } from '../webhooks/emit'
+import { initConfigurationApiRouter } from './api/configuration'
+import { initReplayApiRouter } from './api/replay'
 
 // See here for description: https://modules.prosody.im/mod_muc_http_defaults.html
 interface RoomDefaults {
@@ -53,17 +75,11 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
       const jid: string = req.query.jid as string || ''
       logger.info(`Requesting room information for room '${jid}'.`)
 
-      const settings = await options.settingsManager.getSettings([
-        'prosody-room-type'
-      ])
       // Now, we have two different room type: per video or per channel.
-      if (settings['prosody-room-type'] === 'channel') {
-        const matches = jid.match(/^channel\.(\d+)$/)
-        if (!matches || !matches[1]) {
-          logger.warn(`Invalid channel room jid '${jid}'.`)
-          res.sendStatus(403)
-          return
-        }
+      // The room type can be overridden by the channel configuration,
+      // so we must check that the room jid matches the room type of the channel.
+      const matches = jid.match(/^channel\.(\d+)$/)
+      if (matches?.[1]) {
         const channelId = parseInt(matches[1])
         const channelInfos = await getChannelInfosById(options, channelId)
         if (!channelInfos) {
@@ -72,6 +88,15 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
           return
         }
 
+        const settings = await getChannelEffectiveSettings(options, channelId, [
+          'prosody-room-type'
+        ])
+        if (settings['prosody-room-type'] !== 'channel') {
+          logger.warn(`Channel ${channelId} does not use channel rooms, cant create room '${jid}'.`)
+          res.sendStatus(403)
+          return
+        }
+
         let affiliations: Affiliations
         try {
           affiliations = await getChannelAffiliations(options, channelId)
@@ -90,6 +115,7 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
           affiliations: affiliations
         }
         res.json(roomDefaults)
+        _emitRoomCreated(jid)
       } else {
         // FIXME: @peertube/peertype-types@4.2.2: wrongly considere video as MVideoThumbnail.
         const video = await peertubeHelpers.videos.loadByIdOrUUID(jid)
@@ -103,7 +129,8 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
         await fillVideoCustomFields(options, video)
 
         // check settings (chat enabled for this video?)
-        const settings = await options.settingsManager.getSettings([
+        const settings = await getChannelEffectiveSettings(options, video.channelId, [
+          'prosody-room-type',
           'chat-per-live-video',
           'chat-all-lives',
           'chat-all-non-lives',
@@ -119,6 +146,11 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
           res.sendStatus(403)
           return
         }
+        if (settings['prosody-room-type'] === 'channel') {
+          logger.warn(`Video ${jid} is on a channel that uses channel rooms, cant create a video room.`)
+          res.sendStatus(403)
+          return
+        }
 
         let affiliations: Affiliations
         try {
@@ -139,10 +171,260 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
           affiliations: affiliations
         }
         res.json(roomDefaults)
+        _emitRoomCreated(jid)
+      }
+    }
+  ]))
+
+  /**
+   * Emits the room_created webhook event.
+   * Not waiting for the result: Prosody is waiting for the room defaults to create the room.
+   */
+  function _emitRoomCreated (localpart: string): void {
+    getProsodyDomain(options).then(
+      async (prosodyDomain) => emitWebhookEvent(
+        options, 'room_created', { localpart, jid: localpart + '@room.' + prosodyDomain }, {}
+      ),
+      (err) => logger.error(`Failed to emit the room_created webhook event for room ${localpart}:`, err)
+    )
+  }
+
+  // Called by Prosody (mod_muc_peertubelivechat_channels) to get the channel settings that apply to a room.
+  router.get('/room/settings', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const room = req.query.room
+      if (typeof room !== 'string' || room === '') {
+        res.sendStatus(400)
+        return
+      }
+      res.json(await getProsodyRoomSettings(options, room))
+    }
+  ]))
+
+  // Called by Prosody (mod_muc_peertubelivechat_moderation_log) for each moderation action.
+  router.post('/moderation-log', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const room = req.body?.room
+      if (typeof room !== 'string' || !room.includes('@')) {
+        res.sendStatus(400)
+        return
+      }
+      const localpart = room.split('@')[0]
+      const channelId = await getRoomChannelId(options, localpart)
+      if (channelId === null) {
+        logger.debug(`Moderation log: no channel found for room ${room}, ignoring.`)
+        res.sendStatus(404)
+        return
+      }
+
+      let entry
+      try {
+        entry = sanitizeModerationLogEntry(options, channelId, Object.assign({}, req.body, {
+          room: localpart,
+          date: typeof req.body.timestamp === 'number' ? req.body.timestamp * 1000 : Date.now()
+        }))
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+      await addChannelModerationLogEntry(options, channelId, entry)
+      if (entry.action === 'ban') {
+        await emitWebhookEvent(options, 'user_banned', { jid: room, localpart }, {
+          actor: entry.actor,
+          target: entry.target,
+          reason: entry.reason
+        })
+      }
+      res.json({ ok: true })
+    }
+  ]))
+
+  // Called by Prosody (mod_muc_peertubelivechat_polls) when a poll is over.
+  router.post('/polls', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const room = req.body?.room
+      if (typeof room !== 'string' || !room.includes('@')) {
+        res.sendStatus(400)
+        return
+      }
+      const localpart = room.split('@')[0]
+      const channelId = await getRoomChannelId(options, localpart)
+      if (channelId === null) {
+        logger.debug(`Polls: no channel found for room ${room}, ignoring.`)
+        res.sendStatus(404)
+        return
+      }
+
+      let poll
+      try {
+        poll = sanitizeChatPoll(options, channelId, Object.assign({}, req.body, {
+          room: localpart,
+          startDate: typeof req.body.start === 'number' ? req.body.start * 1000 : undefined,
+          endDate: typeof req.body.end === 'number' ? req.body.end * 1000 : Date.now()
+        }))
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+      await addChannelPoll(options, channelId, poll)
+      await emitWebhookEvent(options, 'poll_ended', { jid: room, localpart }, poll)
+      res.json({ ok: true })
+    }
+  ]))
+
+  // Called by Prosody (mod_muc_peertubelivechat_webhooks) for each message, when some webhooks need them.
+  router.post('/webhooks/message', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const room = req.body?.room
+      const body = req.body?.body
+      if (typeof room !== 'string' || !room.includes('@') || typeof body !== 'string') {
+        res.sendStatus(400)
+        return
+      }
+      const localpart = room.split('@')[0]
+      await emitWebhookMessageEvents(options, { jid: room, localpart }, {
+        id: typeof req.body.id === 'string' ? req.body.id : undefined,
+        nick: typeof req.body.nick === 'string' ? req.body.nick : '',
+        body,
+        date: new Date(typeof req.body.timestamp === 'number' ? req.body.timestamp * 1000 : Date.now()).toISOString()
+      })
+      res.json({ ok: true })
+    }
+  ]))
+
+  // Called by Prosody (mod_muc_peertubelivechat_stats) periodically, for each active room.
+  router.post('/stats', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const room = req.body?.room
+      if (typeof room !== 'string' || !room.includes('@')) {
+        res.sendStatus(400)
+        return
+      }
+      const localpart = room.split('@')[0]
+      const channelId = await getRoomChannelId(options, localpart)
+      if (channelId === null) {
+        logger.debug(`Stats: no channel found for room ${room}, ignoring.`)
+        res.sendStatus(404)
+        return
+      }
+
+      let sample
+      try {
+        sample = sanitizeRoomStatsSample(options, channelId, Object.assign({}, req.body, {
+          room: localpart,
+          date: typeof req.body.timestamp === 'number' ? req.body.timestamp * 1000 : Date.now()
+        }))
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+      await addRoomStatsSample(options, channelId, sample)
+      res.json({ ok: true })
+    }
+  ]))
+
+  // Called by Prosody (mod_vcard_peertubelivechat) to get accounts avatars.
+  router.get('/avatar', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const jid = req.query.jid
+      if (typeof jid !== 'string' || !jid) {
+        res.sendStatus(400)
+        return
+      }
+      let size = parseInt((req.query.size as string | undefined) ?? '')
+      if (isNaN(size) || size <= 0) {
+        size = 120
+      }
+      const avatar = await getAccountAvatar(options, jid, size, req.header('if-none-match'))
+      if (avatar === null) {
+        res.sendStatus(404)
+        return
+      }
+      if (avatar === 'not-modified') {
+        res.sendStatus(304)
+        return
       }
+      res.set('ETag', avatar.etag)
+      res.set('Cache-Control', 'private, max-age=300')
+      res.type(avatar.contentType)
+      res.send(avatar.data)
     }
   ]))
 
+  // Called by Prosody (mod_muc_peertubelivechat_bot) for the !uptime command.
+  router.get('/bot/uptime', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const room = req.query.room
+      if (typeof room !== 'string' || room === '' || room.startsWith('channel.')) {
+        // Channel rooms are not related to a live.
+        res.json({ live: false })
+        return
+      }
+      const video = await options.peertubeHelpers.videos.loadByIdOrUUID(room)
+      // Video state 1 is «published»: for a live, it means that it is currently streaming.
+      if (!video?.isLive || video.state !== 1) {
+        res.json({ live: false })
+        return
+      }
+      const startDate = await getLastLiveSessionStartDate(options, video.id)
+      res.json({
+        live: true,
+        startDate: startDate ? startDate.toISOString() : undefined,
+        // in seconds, so that Prosody does not have to parse dates.
+        uptime: startDate ? Math.max(0, Math.floor((Date.now() - startDate.getTime()) / 1000)) : undefined
+      })
+    }
+  ]))
+
+  // Custom emojis images. This route is public, as emojis are displayed to anonymous users.
+  router.get('/emojis/channel/:channelId/:file', asyncMiddleware(
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelId = req.params.channelId
+      const filePath = /^\d+$/.test(channelId ?? '')
+        ? getChannelEmojiFilePath(options, parseInt(channelId), req.params.file ?? '')
+        : null
+      if (!filePath) {
+        res.sendStatus(404)
+        return
+      }
+      res.setHeader('X-Content-Type-Options', 'nosniff')
+      res.sendFile(filePath, { maxAge: 3600 * 1000 })
+    }
+  ))
+
+  // Prometheus metrics, if enabled in the plugin settings.
+  // Access is granted to admins, or using the token set in the settings.
+  // Note: the token is a query parameter, as Peertube would consider an Authorization header as an OAuth token.
+  router.get('/metrics', asyncMiddleware(
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const settings = await options.settingsManager.getSettings(['prometheus-metrics', 'prometheus-metrics-token'])
+      if (!settings['prometheus-metrics']) {
+        res.sendStatus(404)
+        return
+      }
+      const token = (settings['prometheus-metrics-token'] as string) ?? ''
+      const hasValidToken = token !== '' && typeof req.query.token === 'string' &&
+        _tokenEquals(req.query.token, token)
+      if (!hasValidToken && !(res.locals.authenticated && await isUserAdmin(options, res))) {
+        res.sendStatus(403)
+        return
+      }
+      res.status(200)
+      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      res.send(await getMetrics(options))
+    }
+  ))
+
   router.get('/auth', asyncMiddleware(
     async (req: Request, res: Response, _next: NextFunction) => {
       const user = await peertubeHelpers.user.getAuthUser(res)
@@ -160,7 +442,7 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
       // So it feels safe to normalize usernames like so:
       const normalizedUsername = user.username.toLowerCase()
       const prosodyDomain = await getProsodyDomain(options)
-      const password: string = await prosodyRegisterUser(normalizedUsername)
+      const password: string = await prosodyRegisterUser(options, normalizedUsername)
       const nickname: string | undefined = await getUserNickname(options, user)
       res.status(200).json({
         jid: normalizedUsername + '@' + prosodyDomain,
@@ -170,60 +452,85 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
     }
   ))
 
-  router.post('/user/register', asyncMiddleware(
-    async (req: Request, res: Response, _next: NextFunction) => {
-      res.sendStatus(501)
+  // The following routes are called by mod_auth_peertubelivechat.
+  // Passwords are tokens verified by Prosody, so there is no check_password route.
+  const getProsodyAuthUser = async (req: Request): Promise<string | null> => {
+    const params = req.method === 'GET' ? req.query : req.body
+    const prosodyDomain = await getProsodyDomain(options)
+    if (params?.server !== prosodyDomain) {
+      logger.warn(`Cannot call the user api for a user on server ${params?.server as string}.`)
+      return null
     }
-  ))
+    if (typeof params.user !== 'string' || params.user === '') {
+      return null
+    }
+    return params.user
+  }
 
-  router.get('/user/check_password', asyncMiddleware(
+  router.post('/user/register', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
     async (req: Request, res: Response, _next: NextFunction) => {
-      const prosodyDomain = await getProsodyDomain(options)
-      const user = req.query.user
-      const server = req.query.server
-      const pass = req.query.pass
-      if (server !== prosodyDomain) {
-        logger.warn(`Cannot call check_password on user on server ${server as string}.`)
-        res.status(200).send('false')
+      const user = await getProsodyAuthUser(req)
+      if (!user) {
+        res.sendStatus(400)
         return
       }
-      if (user && pass && await prosodyCheckUserPassword(user as string, pass as string)) {
-        res.status(200).send('true')
+      // Chat accounts are Peertube accounts: we can't create new ones.
+      // We only accept the registration of existing and non-blocked Peertube users.
+      const peertubeUser = await getLocalUserByUsername(options, user)
+      if (!peertubeUser || peertubeUser.blocked) {
+        logger.info(`Refusing the chat account registration for ${user}.`)
+        res.sendStatus(403)
         return
       }
-      res.status(200).send('false')
+      res.sendStatus(201)
     }
-  ))
+  ]))
 
-  router.get('/user/user_exists', asyncMiddleware(
+  router.get('/user/user_exists', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
     async (req: Request, res: Response, _next: NextFunction) => {
-      const prosodyDomain = await getProsodyDomain(options)
-      const user = req.query.user
-      const server = req.query.server
-      if (server !== prosodyDomain) {
-        logger.warn(`Cannot call user_exists on user on server ${server as string}.`)
-        res.status(200).send('false')
-        return
-      }
-      if (user && await prosodyUserRegistered(user as string)) {
+      const user = await getProsodyAuthUser(req)
+      if (user && await prosodyUserRegistered(options, user)) {
         res.status(200).send('true')
         return
       }
       res.status(200).send('false')
     }
-  ))
+  ]))
 
-  router.post('/user/set_password', asyncMiddleware(
+  router.post('/user/set_password', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
     async (req: Request, res: Response, _next: NextFunction) => {
-      res.sendStatus(501)
+      const user = await getProsodyAuthUser(req)
+      if (!user) {
+        res.sendStatus(400)
+        return
+      }
+      // Passwords can't be chosen. Prosody revoked the current tokens, we forget them too.
+      logger.info(`Chat password change for ${user}, revoking current credentials.`)
+      await prosodyRevokeUser(options, user, true)
+      res.sendStatus(204)
     }
-  ))
+  ]))
 
-  router.post('/user/remove_user', asyncMiddleware(
+  router.post('/user/remove_user', asyncMiddleware([
+    getCheckAPIKeyMiddleware(options),
     async (req: Request, res: Response, _next: NextFunction) => {
-      res.sendStatus(501)
+      const user = await getProsodyAuthUser(req)
+      if (!user) {
+        res.sendStatus(400)
+        return
+      }
+      // The Peertube account is not deleted, only the chat credentials.
+      logger.info(`Chat account removal for ${user}, revoking current credentials.`)
+      await prosodyRevokeUser(options, user, true)
+      res.sendStatus(204)
     }
-  ))
+  ]))
+
+  router.use('/configuration', await initConfigurationApiRouter(options))
+  router.use('/replay', await initReplayApiRouter(options))
 
   router.get('/federation_server_infos', asyncMiddleware(
     async (req: Request, res: Response, _next: NextFunction) => {
@@ -233,6 +540,28 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
     }
   ))
 
+  // Bans published to partner instances. Requests must be signed by a partner.
+  router.get('/federation_bans', asyncMiddleware(
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const instance = req.query.instance
+      const partner = typeof instance === 'string'
+        ? findFederatedBansPartner(await getFederatedBansPartners(options), instance)
+        : null
+      if (!partner || !checkFederatedBansSignature(
+        partner, instance as string, req.header('x-livechat-timestamp'), req.header('x-livechat-signature')
+      )) {
+        logger.info('federation_bans api call from an unknown partner, or with an invalid signature')
+        res.sendStatus(403)
+        return
+      }
+      logger.debug(`federation_bans api call from ${partner.url}`)
+      const body = JSON.stringify(await buildFederatedBansList(options))
+      res.set(signFederatedBansPayload(partner, body))
+      res.type('application/json')
+      res.send(body)
+    }
+  ))
+
   if (isDebugMode(options)) {
     // Only add this route if the debug mode is enabled at time of the server launch.
     // Note: the isDebugMode will be tested again when the API is called.
@@ -254,6 +583,15 @@ async function initApiRouter (options: RegisterServerOptions): Promise<Router> {
   return router
 }
 
+/**
+ * Compares tokens in constant time.
+ */
+function _tokenEquals (received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received)
+  const expectedBuffer = Buffer.from(expected)
+  return receivedBuffer.length === expectedBuffer.length && timingSafeEqual(receivedBuffer, expectedBuffer)
+}
+
 export {
   initApiRouter
 }
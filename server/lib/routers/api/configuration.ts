@@ -0,0 +1,592 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Router, Request, Response, NextFunction } from 'express'
+import type {
+  ChannelConfiguration, ChannelConfigurationOptions, ChannelInfos, ChannelModerators, ChannelAffiliationsSyncResult,
+  ChannelBan, ChannelBans, ChannelRooms, ChatExportFormat, ChannelChatFilters, ChatFilters,
+  ChannelModerationLog, RoomPolls, ChannelEmojis, ChannelChatBot, ChatBot, ChannelAnnouncements,
+  ScheduledAnnouncement
+} from '../../../../shared/lib/types'
+import { asyncMiddleware } from '../../middlewares/async'
+import { getCheckConfigurationChannelMiddleware } from '../../middlewares/configuration/channel'
+import {
+  ConfigurationRoomInfos, getCheckConfigurationRoomMiddleware
+} from '../../middlewares/configuration/room'
+import {
+  getChannelConfigurationOptions, storeChannelConfigurationOptions
+} from '../../configuration/channel/storage'
+import {
+  sanitizeChannelConfigurationOptions, sanitizeChannelModerators, sanitizeChannelBan, sanitizeChannelChatFilters,
+  sanitizeCustomEmojiUpload, sanitizeChannelChatBot, sanitizeChannelAnnouncements
+} from '../../configuration/channel/sanitize'
+import {
+  getChannelBans, addChannelBan, removeChannelBans, purgeExpiredChannelBans
+} from '../../configuration/channel/bans'
+import { channelUserToJID } from '../../configuration/channel/jid'
+import {
+  getChannelModerators, storeChannelModerators, channelModeratorsToJIDs
+} from '../../configuration/channel/moderators'
+import { syncChannelRoomsAffiliations } from '../../configuration/channel/affiliations'
+import { getChannelChatFilters, storeChannelChatFilters } from '../../configuration/channel/filters'
+import { getChannelChatBot, storeChannelChatBot } from '../../configuration/channel/bot'
+import { getChannelAnnouncements, storeChannelAnnouncements } from '../../configuration/channel/announcements'
+import { getChannelModerationLog } from '../../configuration/channel/moderation-log'
+import { getChannelEffectiveSettings } from '../../configuration/channel/settings'
+import { getAppliedFederatedBans } from '../../federation/bans/storage'
+import { getChannelRooms, getChannelRoomJID } from '../../configuration/channel/rooms'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import { getProsodyRoomsInfos, setProsodyRoomSubject, destroyProsodyRoom } from '../../prosody/api/manage-rooms'
+import { getProsodyRoomMessages } from '../../prosody/api/archive'
+import { invalidateProsodyChannelSettings } from '../../prosody/api/channels'
+import { getLastLiveSessionStartDate } from '../../database/video'
+import { formatChatExport } from '../../export/chat'
+import { formatModerationLogCSV } from '../../export/moderation-log'
+import { getChannelPolls } from '../../configuration/channel/polls'
+import { getChannelEmojis, addChannelEmoji, deleteChannelEmoji } from '../../configuration/channel/emojis'
+
+async function initConfigurationApiRouter (options: RegisterServerOptions): Promise<Router> {
+  const { peertubeHelpers, getRouter } = options
+  const router = getRouter()
+  const logger = peertubeHelpers.logger
+
+  router.get('/channel/:channelId', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelConfiguration = {
+        channel: channelInfos,
+        configuration: await getChannelConfigurationOptions(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Saving configuration options for channel ${channelInfos.id}`)
+
+      let channelOptions: ChannelConfigurationOptions
+      try {
+        channelOptions = sanitizeChannelConfigurationOptions(options, channelInfos.id, req.body)
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+
+      const federatedBansBefore = await _getFederatedBansApply(channelInfos.id)
+      await storeChannelConfigurationOptions(options, channelInfos.id, channelOptions)
+
+      // Prosody caches some channel settings (see mod_muc_peertubelivechat_channels).
+      try {
+        await invalidateProsodyChannelSettings(options, channelInfos.id)
+      } catch (err) {
+        logger.error(`Failed to invalidate the Prosody settings cache for channel ${channelInfos.id}:`, err)
+      }
+
+      // Federated bans only apply to the rooms of channels that enable them.
+      if (federatedBansBefore !== await _getFederatedBansApply(channelInfos.id)) {
+        try {
+          await syncChannelRoomsAffiliations(options, channelInfos.id, (await getAppliedFederatedBans(options)).jids)
+        } catch (err) {
+          logger.error(`Failed to update the federated bans for channel ${channelInfos.id}:`, err)
+        }
+      }
+
+      const result: ChannelConfiguration = {
+        channel: channelInfos,
+        configuration: channelOptions
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/moderators', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelModerators = {
+        moderators: await getChannelModerators(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/moderators', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Saving moderators for channel ${channelInfos.id}`)
+
+      let moderators: string[]
+      try {
+        moderators = sanitizeChannelModerators(options, channelInfos.id, req.body?.moderators)
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+
+      const previousModerators = await getChannelModerators(options, channelInfos.id)
+      await storeChannelModerators(options, channelInfos.id, moderators)
+
+      // Updating existing rooms. New rooms will get affiliations from the /api/room call.
+      try {
+        const prosodyDomain = await getProsodyDomain(options)
+        const newJIDs = channelModeratorsToJIDs(moderators, prosodyDomain)
+        const removedJIDs = channelModeratorsToJIDs(previousModerators, prosodyDomain)
+          .filter(jid => !newJIDs.includes(jid))
+        await syncChannelRoomsAffiliations(options, channelInfos.id, removedJIDs)
+      } catch (err) {
+        // Moderators are saved, the channel owner can retry the sync later.
+        logger.error(`Failed to update rooms affiliations for channel ${channelInfos.id}:`, err)
+      }
+
+      const result: ChannelModerators = {
+        moderators
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/filters', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelChatFilters = {
+        filters: await getChannelChatFilters(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/filters', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Saving chat filters for channel ${channelInfos.id}`)
+
+      let filters: ChatFilters
+      try {
+        filters = sanitizeChannelChatFilters(options, channelInfos.id, req.body?.filters)
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+
+      await storeChannelChatFilters(options, channelInfos.id, filters)
+
+      // Prosody caches the channel filters with the room settings.
+      try {
+        await invalidateProsodyChannelSettings(options, channelInfos.id)
+      } catch (err) {
+        logger.error(`Failed to invalidate the Prosody settings cache for channel ${channelInfos.id} filters:`, err)
+      }
+
+      const result: ChannelChatFilters = {
+        filters
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/bot', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelChatBot = {
+        bot: await getChannelChatBot(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/bot', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Saving chat bot for channel ${channelInfos.id}`)
+
+      let bot: ChatBot
+      try {
+        bot = sanitizeChannelChatBot(options, channelInfos.id, req.body?.bot)
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+
+      await storeChannelChatBot(options, channelInfos.id, bot)
+
+      // Prosody caches the channel bot with the room settings.
+      try {
+        await invalidateProsodyChannelSettings(options, channelInfos.id)
+      } catch (err) {
+        logger.error(`Failed to invalidate the Prosody settings cache for channel ${channelInfos.id} bot:`, err)
+      }
+
+      const result: ChannelChatBot = {
+        bot
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/announcements', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelAnnouncements = {
+        announcements: await getChannelAnnouncements(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/announcements', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Saving announcements for channel ${channelInfos.id}`)
+
+      let announcements: ScheduledAnnouncement[]
+      try {
+        announcements = sanitizeChannelAnnouncements(options, channelInfos.id, req.body?.announcements)
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+
+      await storeChannelAnnouncements(options, channelInfos.id, announcements)
+
+      const result: ChannelAnnouncements = {
+        announcements
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/sync-affiliations', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Updating rooms affiliations for channel ${channelInfos.id}`)
+
+      // Expired bans must be lifted on existing rooms.
+      const prosodyDomain = await getProsodyDomain(options)
+      const unbannedJIDs = (await purgeExpiredChannelBans(options, channelInfos.id))
+        .map(user => channelUserToJID(user, prosodyDomain))
+
+      const result: ChannelAffiliationsSyncResult = {
+        ok: true,
+        updated: await syncChannelRoomsAffiliations(options, channelInfos.id, unbannedJIDs)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/bans', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelBans = {
+        bans: await getChannelBans(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/bans', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const user = await peertubeHelpers.user.getAuthUser(res)
+
+      let ban: ChannelBan
+      try {
+        ban = sanitizeChannelBan(options, channelInfos.id, {
+          user: req.body?.user,
+          reason: req.body?.reason,
+          expires: req.body?.expires,
+          author: user.username,
+          date: new Date().toISOString()
+        })
+        if (ban.expires && new Date(ban.expires).getTime() <= Date.now()) {
+          throw new Error('Ban expiration date is in the past')
+        }
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+      logger.info(`User ${user.username} is banning ${ban.user} from channel ${channelInfos.id}`)
+
+      const result: ChannelBans = {
+        bans: await addChannelBan(options, channelInfos.id, ban)
+      }
+
+      // Updating existing rooms. New rooms will get affiliations from the /api/room call.
+      try {
+        await syncChannelRoomsAffiliations(options, channelInfos.id)
+      } catch (err) {
+        logger.error(`Failed to update rooms affiliations for channel ${channelInfos.id}:`, err)
+      }
+
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.delete('/channel/:channelId/bans/:user', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const bannedUser = (req.params.user ?? '').toLowerCase()
+      logger.info(`Removing ban for ${bannedUser} on channel ${channelInfos.id}`)
+
+      const result: ChannelBans = {
+        bans: await removeChannelBans(options, channelInfos.id, [bannedUser])
+      }
+
+      try {
+        const prosodyDomain = await getProsodyDomain(options)
+        await syncChannelRoomsAffiliations(options, channelInfos.id, [channelUserToJID(bannedUser, prosodyDomain)])
+      } catch (err) {
+        logger.error(`Failed to update rooms affiliations for channel ${channelInfos.id}:`, err)
+      }
+
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/rooms', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelRooms = {
+        rooms: await getChannelRooms(options, channelInfos.id)
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/rooms/:localpart/subject', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const roomJID = await _getExistingChannelRoomJID(channelInfos, req.params.localpart)
+      if (!roomJID) {
+        res.sendStatus(404)
+        return
+      }
+      const subject = req.body?.subject
+      if (typeof subject !== 'string' || subject.length > 1000) {
+        res.sendStatus(400)
+        return
+      }
+      logger.info(`Changing the subject of room ${roomJID}`)
+      await setProsodyRoomSubject(options, roomJID, subject)
+      res.status(200)
+      res.json({ ok: true })
+    }
+  ]))
+
+  router.delete('/channel/:channelId/rooms/:localpart', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const roomJID = await _getExistingChannelRoomJID(channelInfos, req.params.localpart)
+      if (!roomJID) {
+        res.sendStatus(404)
+        return
+      }
+      const purge = req.query.purge === 'true' || req.query.purge === '1'
+      logger.info(`Destroying room ${roomJID}` + (purge ? ' (and purging its archive)' : ''))
+      await destroyProsodyRoom(options, roomJID, purge)
+      res.status(200)
+      res.json({ ok: true })
+    }
+  ]))
+
+  router.get('/channel/:channelId/moderation-log', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const format = req.query.format ?? 'json'
+      if (format !== 'json' && format !== 'csv') {
+        res.sendStatus(400)
+        return
+      }
+
+      const entries = await getChannelModerationLog(options, channelInfos.id)
+      if (format === 'csv') {
+        res.status(200)
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+        res.setHeader('Content-Disposition', `attachment; filename="moderation-log-${channelInfos.name}.csv"`)
+        res.send(formatModerationLogCSV(entries))
+        return
+      }
+      const result: ChannelModerationLog = {
+        entries
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/channel/:channelId/emojis', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      const result: ChannelEmojis = await getChannelEmojis(options, channelInfos.id)
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.post('/channel/:channelId/emojis', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+
+      let emoji
+      try {
+        emoji = sanitizeCustomEmojiUpload(options, channelInfos.id, req.body)
+        logger.info(`Saving custom emoji ${emoji.sn} for channel ${channelInfos.id}`)
+        await addChannelEmoji(options, channelInfos.id, emoji)
+      } catch (err) {
+        logger.warn(err)
+        res.sendStatus(400)
+        return
+      }
+
+      const result: ChannelEmojis = await getChannelEmojis(options, channelInfos.id)
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.delete('/channel/:channelId/emojis/:sn', asyncMiddleware([
+    getCheckConfigurationChannelMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const channelInfos: ChannelInfos = res.locals.channelInfos
+      logger.info(`Deleting custom emoji ${req.params.sn} for channel ${channelInfos.id}`)
+      if (!await deleteChannelEmoji(options, channelInfos.id, req.params.sn ?? '')) {
+        res.sendStatus(404)
+        return
+      }
+
+      const result: ChannelEmojis = await getChannelEmojis(options, channelInfos.id)
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  router.get('/room/:localpart/export', asyncMiddleware([
+    getCheckConfigurationRoomMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const roomInfos: ConfigurationRoomInfos = res.locals.roomInfos
+
+      const format = (req.query.format ?? 'json') as ChatExportFormat
+      if (!['json', 'txt', 'vtt', 'srt'].includes(format)) {
+        res.sendStatus(400)
+        return
+      }
+      const start = _readDateParam(req.query.start)
+      const end = _readDateParam(req.query.end)
+      if (start === false || end === false) {
+        res.sendStatus(400)
+        return
+      }
+
+      logger.info(`Exporting chat for room ${roomInfos.jid} (format: ${format})`)
+      const messages = await getProsodyRoomMessages(options, roomInfos.jid, start, end)
+
+      // For subtitles, messages are aligned on the live start.
+      let baseTimestamp = start
+      if (baseTimestamp === undefined && roomInfos.video) {
+        const liveStart = await getLastLiveSessionStartDate(options, roomInfos.video.id)
+        if (liveStart) {
+          baseTimestamp = Math.floor(liveStart.getTime() / 1000)
+        }
+      }
+      const file = formatChatExport(
+        messages.map(m => ({ timestamp: m.timestamp, nick: m.nick, body: m.body })),
+        format,
+        baseTimestamp ?? messages[0]?.timestamp ?? 0
+      )
+      res.status(200)
+      res.setHeader('Content-Type', file.contentType)
+      res.setHeader('Content-Disposition', `attachment; filename="chat-${roomInfos.localpart}.${file.extension}"`)
+      res.send(file.content)
+    }
+  ]))
+
+  router.get('/room/:localpart/polls', asyncMiddleware([
+    getCheckConfigurationRoomMiddleware(options),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      const roomInfos: ConfigurationRoomInfos = res.locals.roomInfos
+      const result: RoomPolls = {
+        polls: roomInfos.channelId !== null
+          ? await getChannelPolls(options, roomInfos.channelId, roomInfos.localpart)
+          : []
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ]))
+
+  /**
+   * Reads an optional date query parameter (ISO 8601 date).
+   * Returns the unix timestamp (seconds), undefined if missing, or false if invalid.
+   */
+  function _readDateParam (param: any): number | undefined | false {
+    if (param === undefined || param === '') { return undefined }
+    if (typeof param !== 'string') { return false }
+    const time = new Date(param).getTime()
+    if (isNaN(time)) { return false }
+    return Math.floor(time / 1000)
+  }
+
+  /**
+   * Returns the room JID if the room exists and is related to the channel, null otherwise.
+   */
+  async function _getExistingChannelRoomJID (channelInfos: ChannelInfos, localpart?: string): Promise<string | null> {
+    if (!localpart) { return null }
+    const roomJID = await getChannelRoomJID(options, channelInfos.id, localpart)
+    if (!roomJID) { return null }
+    const rooms = await getProsodyRoomsInfos(options, [roomJID])
+    return rooms.length ? roomJID : null
+  }
+
+  /**
+   * Returns true if the federated bans apply to the channel rooms.
+   */
+  async function _getFederatedBansApply (channelId: number): Promise<boolean> {
+    const settings = await getChannelEffectiveSettings(options, channelId, ['federation-bans-apply'])
+    return !!settings['federation-bans-apply']
+  }
+
+  return router
+}
+
+export {
+  initConfigurationApiRouter
+}
@@ -0,0 +1,55 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Router, Request, Response, NextFunction } from 'express'
+import type { ChatReplay } from '../../../../shared/lib/types'
+import { asyncMiddleware } from '../../middlewares/async'
+import { getVideoReplayInfos } from '../../replay/replay'
+import { getProsodyDomain } from '../../prosody/config/domain'
+import { getProsodyRoomMessages } from '../../prosody/api/archive'
+
+// Public and unlisted videos. Other videos have no replay (we can't check the video ACL here).
+const replayablePrivacies = [1, 2]
+
+async function initReplayApiRouter (options: RegisterServerOptions): Promise<Router> {
+  const { peertubeHelpers, getRouter } = options
+  const router = getRouter()
+  const logger = peertubeHelpers.logger
+
+  router.get('/messages/:videoUUID', asyncMiddleware(
+    async (req: Request, res: Response, _next: NextFunction) => {
+      // FIXME: @peertube/peertype-types@4.2.2: wrongly considere video as MVideoThumbnail.
+      const video = await peertubeHelpers.videos.loadByIdOrUUID(req.params.videoUUID)
+      if (!video || video.remote || !replayablePrivacies.includes(video.privacy)) {
+        res.sendStatus(404)
+        return
+      }
+
+      const replayInfos = await getVideoReplayInfos(options, video)
+      if (!replayInfos) {
+        res.sendStatus(404)
+        return
+      }
+
+      logger.debug(`Loading chat replay for video ${video.uuid}`)
+      const roomJID = replayInfos.room + '@room.' + await getProsodyDomain(options)
+      const messages = await getProsodyRoomMessages(options, roomJID, replayInfos.start, replayInfos.end)
+
+      const result: ChatReplay = {
+        start: replayInfos.start,
+        end: replayInfos.end,
+        messages: messages.map(m => ({
+          offset: m.timestamp - replayInfos.start,
+          nick: m.nick,
+          body: m.body
+        }))
+      }
+      res.status(200)
+      res.json(result)
+    }
+  ))
+
+  return router
+}
+
+export {
+  initReplayApiRouter
+}
@@ -3,6 +3,8 @@ import type { Router, Request, Response, NextFunction } from 'express'
 import { diag } from '../diagnostic'
 import { getBaseStaticRoute, isUserAdmin } from '../helpers'
 import { asyncMiddleware } from '../middlewares/async'
+import { storeCustomAvatars, getMaxCustomAvatarsArchiveSize } from '../avatars/sets'
+import { updateProsodyConfig } from '../prosody/ctl'
 
 async function initSettingsRouter (options: RegisterServerOptions): Promise<Router> {
   const { peertubeHelpers, getRouter } = options
@@ -44,9 +46,67 @@ async function initSettingsRouter (options: RegisterServerOptions): Promise<Rout
     }
   ))
 
+  // Upload of a custom avatar set. The body is the zip file.
+  router.post('/avatars', asyncMiddleware(
+    async (req: Request, res: Response, _next: NextFunction) => {
+      if (!res.locals.authenticated) {
+        res.sendStatus(403)
+        return
+      }
+      if (!await isUserAdmin(options, res)) {
+        res.sendStatus(403)
+        return
+      }
+
+      let archive: Buffer
+      try {
+        archive = await _readBody(req, getMaxCustomAvatarsArchiveSize())
+      } catch (err) {
+        res.status(413)
+        res.json({ ok: false, error: 'The archive is too big' })
+        return
+      }
+
+      let count: number
+      try {
+        count = await storeCustomAvatars(options, archive)
+      } catch (err: any) {
+        logger.warn('Invalid custom avatar set: ' + (err?.message as string ?? ''))
+        res.status(400)
+        res.json({ ok: false, error: err?.message ?? 'Invalid archive' })
+        return
+      }
+
+      if (await options.settingsManager.getSetting('avatar-set') === 'custom') {
+        // Prosody must load the new avatars.
+        await updateProsodyConfig(options)
+      }
+      res.status(200)
+      res.json({ ok: true, count })
+    }
+  ))
+
   return router
 }
 
+async function _readBody (req: Request, maxSize: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxSize) {
+        req.destroy()
+        reject(new Error('Body too big'))
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
 export {
   initSettingsRouter
 }
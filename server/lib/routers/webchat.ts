@@ -1,7 +1,7 @@
 import type { RegisterServerOptions, MVideoThumbnail, SettingEntries } from '@peertube/peertube-types'
 import type { Router, Request, Response, NextFunction } from 'express'
 import type {
-  ProsodyListRoomsResult, ProsodyListRoomsResultRoom
+  ProsodyListRoomsResult, ProsodyListRoomsResultRoom, RoomStats
 } from '../../../shared/lib/types'
 import { createProxyServer } from 'http-proxy'
 import {
@@ -12,6 +12,7 @@ import { getProsodyDomain } from '../prosody/config/domain'
 import { getAPIKey } from '../apikey'
 import { getChannelInfosById, getChannelNameById } from '../database/channel'
 import { isAutoColorsAvailable, areAutoColorsValid, AutoColors } from '../../../shared/lib/autocolors'
+import { parseOverlayOptions, OverlayOptions } from '../../../shared/lib/overlay'
 import { getBoshUri, getWSUri } from '../uri/webchat'
 import { getVideoLiveChatInfos } from '../federation/storage'
 import { LiveChatJSONLDAttributeV1 } from '../federation/types'
@@ -19,16 +20,18 @@ import {
   anonymousConnectionInfos, compatibleRemoteAuthenticatedConnectionEnabled
 } from '../federation/connection-infos'
 import { fetchMissingRemoteServerInfos } from '../federation/fetch-infos'
+import { getChannelEffectiveSettings } from '../configuration/channel/settings'
+import { ProsodyHost, getCurrentProsody, setCurrentProsody } from '../prosody/api/host'
+import { getVideoReplayInfos } from '../replay/replay'
+import { getChannelEmojis } from '../configuration/channel/emojis'
+import { getRoomChannelId } from '../configuration/channel/rooms'
+import { getChannelRoomsStats } from '../configuration/channel/stats'
+import { countProxyError } from '../metrics'
 import * as path from 'path'
 const got = require('got')
 
 const fs = require('fs').promises
 
-interface ProsodyProxyInfo {
-  host: string
-  port: string
-}
-let currentProsodyProxyInfo: ProsodyProxyInfo | null = null
 let currentHttpBindProxy: ReturnType<typeof createProxyServer> | null = null
 let currentWebsocketProxy: ReturnType<typeof createProxyServer> | null = null
 let currentS2SWebsocketProxy: ReturnType<typeof createProxyServer> | null = null
@@ -50,21 +53,15 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
       res.removeHeader('X-Frame-Options') // this route can be opened in an iframe
 
       const roomKey = req.params.roomKey
-      const settings = await settingsManager.getSettings([
-        'prosody-room-type',
+      const instanceSettings = await settingsManager.getSettings([
         'disable-websocket',
-        'converse-theme', 'converse-autocolors',
         'federation-no-remote-chat',
         'prosody-room-allow-s2s'
       ])
 
       let autoViewerMode: boolean = false
       let forceReadonly: 'true' | 'false' | 'noscroll' = 'false'
-      let converseJSTheme: string = settings['converse-theme'] as string
       let transparent: boolean = false
-      if (!/^\w+$/.test(converseJSTheme)) {
-        converseJSTheme = 'peertube'
-      }
 
       const authenticationUrl = options.peertubeHelpers.config.getWebserverUrl() +
         getBaseRouterRoute(options) +
@@ -79,6 +76,26 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
       if (req.query._transparent === 'true') {
         transparent = true
       }
+      // Replay mode: the chat of a past live is replayed with the VOD (readonly, without connecting to Prosody).
+      const replay = req.query._replay === 'true'
+      if (replay) {
+        forceReadonly = 'true'
+        autoViewerMode = false
+      }
+      // Overlay mode: dedicated readonly renderer (for OBS, for example), with styling options.
+      let overlay: OverlayOptions | null = null
+      if (req.query._overlay === 'true' && !replay) {
+        const overlayOptions = parseOverlayOptions(req.query)
+        if (Array.isArray(overlayOptions)) {
+          peertubeHelpers.logger.debug('Invalid overlay parameters: ' + overlayOptions.join(', '))
+          res.status(400)
+          res.send('Invalid overlay parameters: ' + overlayOptions.join(', '))
+          return
+        }
+        overlay = overlayOptions
+        forceReadonly = 'noscroll'
+        autoViewerMode = false
+      }
 
       let video: MVideoThumbnail | undefined
       let channelId: number
@@ -101,7 +118,9 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
           return
         }
         if (video.remote) {
-          remoteChatInfos = settings['federation-no-remote-chat'] ? false : await getVideoLiveChatInfos(options, video)
+          remoteChatInfos = instanceSettings['federation-no-remote-chat']
+            ? false
+            : await getVideoLiveChatInfos(options, video)
           if (!remoteChatInfos) {
             res.status(404)
             res.send('Not found')
@@ -111,6 +130,27 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
         channelId = video.channelId
       }
 
+      let replayUrl = ''
+      if (replay) {
+        if (!video || video.remote || !await getVideoReplayInfos(options, video)) {
+          res.status(404)
+          res.send('Not found')
+          return
+        }
+        replayUrl = getBaseRouterRoute(options) + 'api/replay/messages/' + encodeURIComponent(video.uuid)
+      }
+
+      // Some settings can be overridden by the channel configuration:
+      const settings = await getChannelEffectiveSettings(options, channelId, [
+        'prosody-room-type',
+        'converse-theme', 'converse-autocolors',
+        'chat-no-anonymous'
+      ])
+      let converseJSTheme: string = settings['converse-theme'] as string
+      if (!/^\w+$/.test(converseJSTheme)) {
+        converseJSTheme = 'peertube'
+      }
+
       let page = '' + (converseJSIndex as string)
       const baseStaticUrl = getBaseStaticRoute(options)
       page = page.replace(/{{BASE_STATIC_URL}}/g, baseStaticUrl)
@@ -118,15 +158,17 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
       const prosodyDomain = await getProsodyDomain(options)
       const localAnonymousJID = 'anon.' + prosodyDomain
       const localBoshUri = getBoshUri(options)
-      const localWsUri = settings['disable-websocket']
+      const localWsUri = instanceSettings['disable-websocket']
         ? ''
         : (getWSUri(options) ?? '')
 
       let remoteConnectionInfos: WCRemoteConnectionInfos | undefined
       let roomJID: string
       if (video?.remote) {
-        const canWebsocketS2S = !settings['federation-no-remote-chat'] && !settings['disable-websocket']
-        const canDirectS2S = !settings['federation-no-remote-chat'] && !!settings['prosody-room-allow-s2s']
+        const canWebsocketS2S = !instanceSettings['federation-no-remote-chat'] &&
+          !instanceSettings['disable-websocket']
+        const canDirectS2S = !instanceSettings['federation-no-remote-chat'] &&
+          !!instanceSettings['prosody-room-allow-s2s']
         remoteConnectionInfos = await _remoteConnectionInfos(remoteChatInfos ?? false, canWebsocketS2S, canDirectS2S)
         if (!remoteConnectionInfos) {
           res.status(404)
@@ -218,6 +260,13 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
       page = page.replace(/{{CONVERSEJS_AUTOCOLORS}}/g, autocolorsStyles)
       page = page.replace(/{{FORCEREADONLY}}/g, forceReadonly)
       page = page.replace(/{{TRANSPARENT}}/g, transparent ? 'true' : 'false')
+      page = page.replace(/{{FORBID_ANONYMOUS}}/g, settings['chat-no-anonymous'] ? 'true' : 'false')
+      page = page.replace(/{{REPLAY_URL}}/g, replayUrl)
+      // overlay options are validated, so it is safe to inject them as JSON.
+      page = page.replace(/{{OVERLAY}}/g, overlay ? JSON.stringify(overlay) : 'null')
+      // custom emojis are only available for local channels.
+      const customEmojis = video?.remote ? [] : (await getChannelEmojis(options, channelId)).customEmojis
+      page = page.replace(/{{CUSTOM_EMOJIS}}/g, JSON.stringify(customEmojis).replace(/</g, '\\u003c'))
 
       res.status(200)
       res.type('html')
@@ -315,6 +364,7 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
         return
       }
 
+      const currentProsodyProxyInfo = getCurrentProsody()
       if (!currentProsodyProxyInfo) {
         throw new Error('It seems that prosody is not binded... Cant list rooms.')
       }
@@ -331,6 +381,8 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
       })
 
       if (Array.isArray(rooms)) {
+        // Stats are stored by channel, so we keep them here to not read them for each room.
+        const statsByChannel = new Map<number, Map<string, RoomStats>>()
         for (let i = 0; i < rooms.length; i++) {
           const room: ProsodyListRoomsResultRoom = rooms[i]
           const matches = room.localpart.match(/^channel\.(\d+)$/)
@@ -345,6 +397,23 @@ async function initWebchatRouter (options: RegisterServerOptionsV5): Promise<Rou
               }
             }
           }
+
+          try {
+            const channelId = await getRoomChannelId(options, room.localpart)
+            if (channelId !== null) {
+              let channelStats = statsByChannel.get(channelId)
+              if (!channelStats) {
+                channelStats = await getChannelRoomsStats(options, channelId)
+                statsByChannel.set(channelId, channelStats)
+              }
+              const roomStats = channelStats.get(room.localpart)
+              if (roomStats) {
+                room.stats = roomStats
+              }
+            }
+          } catch (err) {
+            peertubeHelpers.logger.error(`Failed to read the stats of room ${room.localpart}`, err)
+          }
         }
       }
 
@@ -365,7 +434,7 @@ async function disableProxyRoute ({ peertubeHelpers }: RegisterServerOptions): P
   // But this seems to never happen, and stucked the plugin uninstallation.
   // So I don't wait.
   try {
-    currentProsodyProxyInfo = null
+    setCurrentProsody(null)
     if (currentHttpBindProxy) {
       peertubeHelpers.logger.info('Closing the http bind proxy...')
       currentHttpBindProxy.close()
@@ -389,14 +458,14 @@ async function disableProxyRoute ({ peertubeHelpers }: RegisterServerOptions): P
 
 async function enableProxyRoute (
   { peertubeHelpers }: RegisterServerOptions,
-  prosodyProxyInfo: ProsodyProxyInfo
+  prosodyProxyInfo: ProsodyHost
 ): Promise<void> {
   const logger = peertubeHelpers.logger
   if (!/^\d+$/.test(prosodyProxyInfo.port)) {
     logger.error(`Port '${prosodyProxyInfo.port}' is not valid. Aborting.`)
     return
   }
-  currentProsodyProxyInfo = prosodyProxyInfo
+  setCurrentProsody(prosodyProxyInfo)
 
   logger.info('Creating a new http bind proxy')
   currentHttpBindProxy = createProxyServer({
@@ -405,6 +474,7 @@ async function enableProxyRoute (
   })
   currentHttpBindProxy.on('error', (err, req, res) => {
     // We must handle errors, otherwise Peertube server crashes!
+    countProxyError('http-bind')
     logger.error(
       'The http bind proxy got an error ' +
       '(this can be normal if you updated/uninstalled the plugin, or shutdowned peertube while users were chatting): ' +
@@ -427,6 +497,7 @@ async function enableProxyRoute (
   })
   currentWebsocketProxy.on('error', (err, req, res) => {
     // We must handle errors, otherwise Peertube server crashes!
+    countProxyError('websocket')
     logger.error(
       'The websocket proxy got an error ' +
       '(this can be normal if you updated/uninstalled the plugin, or shutdowned peertube while users were chatting): ' +
@@ -449,6 +520,7 @@ async function enableProxyRoute (
   })
   currentS2SWebsocketProxy.on('error', (err, req, res) => {
     // We must handle errors, otherwise Peertube server crashes!
+    countProxyError('s2s-websocket')
     logger.error(
       'The s2s websocket proxy got an error ' +
       '(this can be normal if you updated/uninstalled the plugin, or shutdowned peertube while users were chatting): ' +
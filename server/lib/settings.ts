@@ -1,6 +1,10 @@
 import type { RegisterServerOptions } from '@peertube/peertube-types'
 import { ensureProsodyRunning } from './prosody/ctl'
-import type { ConverseJSTheme } from '../../shared/lib/types'
+import { resetCredentialsStore } from './prosody/auth'
+import { pingNewWebhooks } from './webhooks/emit'
+import type { CredentialsStoreType } from './prosody/credentials/types'
+import type { AnonymousAvatarSet } from './avatars/sets'
+import type { ConverseJSTheme, ChatFiltersAction } from '../../shared/lib/types'
 import { existsSync, promises as fsPromises } from 'fs'
 import { resolve } from 'path'
 
@@ -119,6 +123,22 @@ Please read
     default: false,
     private: true
   })
+  registerSetting({
+    name: 'federation-bans-partners',
+    label: loc('federation_bans_partners_label'),
+    descriptionHTML: loc('federation_bans_partners_description'),
+    type: 'input-textarea',
+    default: '',
+    private: true
+  })
+  registerSetting({
+    name: 'federation-bans-apply',
+    label: loc('federation_bans_apply_label'),
+    descriptionHTML: loc('federation_bans_apply_description'),
+    type: 'input-checkbox',
+    default: false,
+    private: true
+  })
 
   // ********** Chat behaviour
   registerSetting({
@@ -214,6 +234,89 @@ Please read
     descriptionHTML: loc('no_anonymous_description'),
     private: false
   })
+  registerSetting({
+    name: 'chat-slow-mode-default',
+    label: loc('slow_mode_default_label'),
+    type: 'input',
+    default: '0',
+    descriptionHTML: loc('slow_mode_default_description'),
+    private: true
+  })
+  registerSetting({
+    name: 'chat-live-state-rooms',
+    label: loc('live_state_rooms_label'),
+    type: 'input-checkbox',
+    default: false,
+    descriptionHTML: loc('live_state_rooms_description'),
+    private: true
+  })
+
+  // ********** Automatic moderation
+  registerSetting({
+    name: 'chat-filters-advanced',
+    type: 'html',
+    private: true,
+    descriptionHTML: loc('chat_filters_advanced_description')
+  })
+  registerSetting({
+    name: 'chat-filters-forbidden-words',
+    label: loc('chat_filters_forbidden_words_label'),
+    type: 'input-textarea',
+    default: '',
+    descriptionHTML: loc('chat_filters_forbidden_words_description'),
+    private: true
+  })
+  registerSetting({
+    name: 'chat-filters-patterns',
+    label: loc('chat_filters_patterns_label'),
+    type: 'input-textarea',
+    default: '',
+    descriptionHTML: loc('chat_filters_patterns_description'),
+    private: true
+  })
+  registerSetting({
+    name: 'chat-filters-block-links',
+    label: loc('chat_filters_block_links_label'),
+    type: 'input-checkbox',
+    default: false,
+    private: true
+  })
+  registerSetting({
+    name: 'chat-filters-max-length',
+    label: loc('chat_filters_max_length_label'),
+    type: 'input',
+    default: '0',
+    descriptionHTML: loc('chat_filters_max_length_description'),
+    private: true
+  })
+  registerSetting({
+    name: 'chat-filters-max-caps-ratio',
+    label: loc('chat_filters_max_caps_ratio_label'),
+    type: 'input',
+    default: '0',
+    descriptionHTML: loc('chat_filters_max_caps_ratio_description'),
+    private: true
+  })
+  registerSetting({
+    name: 'chat-filters-action',
+    label: loc('chat_filters_action_label'),
+    type: 'select',
+    default: 'block' as ChatFiltersAction,
+    private: true,
+    options: [
+      { value: 'block', label: loc('chat_filters_action_block') },
+      { value: 'retract', label: loc('chat_filters_action_retract') },
+      { value: 'kick', label: loc('chat_filters_action_kick') }
+    ] as Array<{value: ChatFiltersAction, label: string}>
+  })
+  registerSetting({
+    name: 'chat-filters-kick-after',
+    label: loc('chat_filters_kick_after_label'),
+    type: 'input',
+    default: '3',
+    descriptionHTML: loc('chat_filters_kick_after_description'),
+    private: true
+  })
 
   // ********** Theming
   registerSetting({
@@ -255,6 +358,28 @@ Please read
     private: false
   })
 
+  registerSetting({
+    name: 'avatar-set',
+    label: loc('avatar_set_label'),
+    type: 'select',
+    default: 'classic' as AnonymousAvatarSet,
+    private: true,
+    options: [
+      { value: 'classic', label: loc('avatar_set_option_classic') },
+      { value: 'pastel', label: loc('avatar_set_option_pastel') },
+      { value: 'custom', label: loc('avatar_set_option_custom') },
+      { value: 'none', label: loc('avatar_set_option_none') }
+    ] as Array<{value: AnonymousAvatarSet, label: string}>,
+    descriptionHTML: loc('avatar_set_description')
+  })
+  registerSetting({
+    name: 'avatar-set-upload',
+    label: loc('avatar_set_upload_label'),
+    type: 'html',
+    descriptionHTML: loc('avatar_set_upload_description'),
+    private: true
+  })
+
   // ********** Chat server advanced settings
   registerSetting({
     name: 'prosody-advanced',
@@ -325,6 +450,30 @@ Please read
     descriptionHTML: loc('prosody_muc_expiration_description')
   })
 
+  registerSetting({
+    name: 'prosody-credentials-store',
+    label: loc('prosody_credentials_store_label'),
+    type: 'select',
+    default: 'file' as CredentialsStoreType,
+    private: true,
+    options: [
+      { value: 'file', label: loc('prosody_credentials_store_file') },
+      { value: 'storage', label: loc('prosody_credentials_store_storage') },
+      { value: 'database', label: loc('prosody_credentials_store_database') },
+      { value: 'memory', label: loc('prosody_credentials_store_memory') }
+    ] as Array<{value: CredentialsStoreType, label: string}>,
+    descriptionHTML: loc('prosody_credentials_store_description')
+  })
+
+  registerSetting({
+    name: 'prosody-credentials-validity',
+    label: loc('prosody_credentials_validity_label'),
+    type: 'input',
+    default: '24',
+    private: true,
+    descriptionHTML: loc('prosody_credentials_validity_description')
+  })
+
   registerSetting({
     name: 'prosody-room-allow-s2s',
     label: loc('prosody_room_allow_s2s_label'),
@@ -406,9 +555,42 @@ Please read
     descriptionHTML: loc('prosody_components_list_description')
   })
 
+  registerSetting({
+    name: 'prometheus-metrics',
+    label: loc('prometheus_metrics_label'),
+    type: 'input-checkbox',
+    default: false,
+    private: true,
+    descriptionHTML: loc('prometheus_metrics_description')
+  })
+
+  registerSetting({
+    name: 'prometheus-metrics-token',
+    label: loc('prometheus_metrics_token_label'),
+    type: 'input',
+    default: '',
+    private: true,
+    descriptionHTML: loc('prometheus_metrics_token_description')
+  })
+
+  registerSetting({
+    name: 'webhooks',
+    label: loc('webhooks_label'),
+    type: 'input-textarea',
+    default: '',
+    private: true,
+    descriptionHTML: loc('webhooks_description')
+  })
+
   // ********** settings changes management
-  settingsManager.onSettingsChange(async (_settings: any) => {
+  settingsManager.onSettingsChange(async (settings: any) => {
     peertubeHelpers.logger.info('Saving settings, ensuring prosody is running')
+    try {
+      await resetCredentialsStore(options, settings['prosody-credentials-store'])
+    } catch (err) {
+      peertubeHelpers.logger.error('Failed to remove the previous chat credentials store:', err)
+    }
+    pingNewWebhooks(options, settings.webhooks as string)
     await ensureProsodyRunning(options)
   })
 }
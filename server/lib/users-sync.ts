@@ -0,0 +1,147 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { Affiliations } from './prosody/config/affiliations'
+import { getCommonAffiliations, getChannelAffiliations } from './prosody/config/affiliations'
+import { getProsodyDomain } from './prosody/config/domain'
+import { prosodyRevokeUser } from './prosody/auth'
+import { kickProsodyUser, deleteProsodyUser } from './prosody/api/auth'
+import { updateAllProsodyRoomsAffiliations } from './prosody/api/manage-rooms'
+import { getLocalUserByUsername } from './database/user'
+import { getChannelIdsByUserId } from './database/channel'
+import { listChannelsWithData } from './configuration/channel/storage'
+import { syncChannelRoomsAffiliations } from './configuration/channel/affiliations'
+
+/*
+Peertube user changes are propagated to Prosody:
+- blocked users lose their credentials, and their current sessions are closed,
+- deleted users lose their credentials, their sessions are closed, and their data (vCards, affiliations) are removed,
+- when a user is promoted or demoted (admin or moderator role), the owners of all existing rooms are updated.
+Nothing has to be done when a user is unblocked: /api/auth checks the blocked status before giving new credentials.
+*/
+
+// Storage key for the list of owners JIDs that were last applied on existing rooms.
+const commonOwnersStorageKey = 'livechat-common-owners'
+
+// Owners synchronizations must not run in parallel.
+let pendingSync: Promise<void> = Promise.resolve()
+
+/**
+ * Registers the hooks on Peertube users changes.
+ * @param options server options
+ */
+function initUsersSyncHooks (options: RegisterServerOptions): void {
+  const logger = options.peertubeHelpers.logger
+
+  options.registerHook({
+    target: 'action:api.user.blocked',
+    handler: async (params: any) => {
+      const username = _getUsername(params)
+      if (!username) { return }
+      try {
+        await prosodyRevokeUser(options, username, true)
+        const closed = await kickProsodyUser(options, username, 'Your account has been blocked')
+        logger.info(`User ${username} blocked, ${closed} chat sessions closed.`)
+      } catch (err) {
+        logger.error(`Failed to disconnect the blocked user ${username} from the chat:`, err)
+      }
+    }
+  })
+
+  options.registerHook({
+    target: 'action:api.user.deleted',
+    handler: async (params: any) => {
+      const username = _getUsername(params)
+      if (!username) { return }
+      try {
+        await prosodyRevokeUser(options, username, true)
+        await deleteProsodyUser(options, username)
+        const jid = username + '@' + await getProsodyDomain(options)
+        const updated = await updateAllProsodyRoomsAffiliations(options, { [jid]: 'none' })
+        logger.info(`User ${username} deleted, chat data removed, affiliations removed from ${updated} rooms.`)
+      } catch (err) {
+        logger.error(`Failed to remove the chat data of the deleted user ${username}:`, err)
+      }
+      // If the user was an admin or a moderator, it must be removed from the owners list.
+      await syncCommonOwners(options)
+    }
+  })
+
+  // Roles can be changed when users are created or updated.
+  for (const target of ['action:api.user.created', 'action:api.user.updated'] as const) {
+    options.registerHook({
+      target,
+      handler: async () => syncCommonOwners(options)
+    })
+  }
+}
+
+/**
+ * Updates the owners of all existing rooms, if Peertube admins or moderators changed since the last call.
+ * This function never throws.
+ * @param options server options
+ */
+async function syncCommonOwners (options: RegisterServerOptions): Promise<void> {
+  const p = pendingSync.then(async () => _syncCommonOwners(options)).catch((err) => {
+    options.peertubeHelpers.logger.error('Failed to update the owners of existing rooms:', err)
+  })
+  pendingSync = p
+  return p
+}
+
+async function _syncCommonOwners (options: RegisterServerOptions): Promise<void> {
+  const logger = options.peertubeHelpers.logger
+  const owners = Object.keys(await getCommonAffiliations(options)).sort()
+  const stored: any = await options.storageManager.getData(commonOwnersStorageKey)
+  const previous: string[] = Array.isArray(stored) ? stored.filter(jid => typeof jid === 'string') : []
+
+  const promoted = owners.filter(jid => !previous.includes(jid))
+  const demoted = previous.filter(jid => !owners.includes(jid))
+  if (!promoted.length && !demoted.length) { return }
+
+  logger.info(`Updating owners of existing rooms: ${promoted.length} promoted, ${demoted.length} demoted.`)
+  const affiliations: Affiliations = {}
+  for (const jid of promoted) { affiliations[jid] = 'owner' }
+  for (const jid of demoted) { affiliations[jid] = 'none' }
+  await updateAllProsodyRoomsAffiliations(options, affiliations)
+  await options.storageManager.storeData(commonOwnersStorageKey, owners)
+
+  if (demoted.length) {
+    // Demoted users can still have other affiliations (channel owner, moderator, banned, ...).
+    await _resyncChannels(options, demoted)
+  }
+}
+
+async function _resyncChannels (options: RegisterServerOptions, jids: string[]): Promise<void> {
+  const prosodyDomain = await getProsodyDomain(options)
+  const channelIds = new Set<number>([
+    ...await listChannelsWithData(options, 'moderators'),
+    ...await listChannelsWithData(options, 'bans')
+  ])
+  for (const jid of jids) {
+    const [username, domain] = jid.split('@')
+    if (domain !== prosodyDomain) { continue }
+    const user = await getLocalUserByUsername(options, username)
+    if (!user) { continue }
+    for (const channelId of await getChannelIdsByUserId(options, user.id)) {
+      channelIds.add(channelId)
+    }
+  }
+
+  for (const channelId of channelIds) {
+    const affiliations = await getChannelAffiliations(options, channelId)
+    if (jids.some(jid => jid in affiliations)) {
+      await syncChannelRoomsAffiliations(options, channelId)
+    }
+  }
+}
+
+function _getUsername (params: any): string | null {
+  const username = params?.user?.username
+  if (typeof username !== 'string' || !username) { return null }
+  // Usernames are normalized, see /api/auth.
+  return username.toLowerCase()
+}
+
+export {
+  initUsersSyncHooks,
+  syncCommonOwners
+}
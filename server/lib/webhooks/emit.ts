@@ -0,0 +1,315 @@
+import type { RegisterServerOptions } from '@peertube/peertube-types'
+import type { ChatPoll } from '../../../shared/lib/types'
+import { parseWebhooks, Webhook, WebhookEvent } from './parse'
+import { getChannelInfosById } from '../database/channel'
+import { getLastLiveSessionStartDate } from '../database/video'
+import { createHmac, randomBytes } from 'crypto'
+const got = require('got')
+
+/*
+Webhooks payloads are JSON objects:
+{
+  "event": "room_created",
+  "delivery": "<unique id>",
+  "date": "<ISO 8601 date>",
+  "room": { "jid": "...", "localpart": "..." },
+  "video": { "uuid": "...", "name": "...", "url": "...", "isLive": true }, // for video rooms
+  "channel": { "id": 1, "name": "...", "displayName": "..." },
+  "data": { ... } // event specific data
+}
+When a webhook is added to the settings, a ping event is sent to it (without room, video and channel),
+so that admins can check their receiver.
+Requests are signed: the X-Livechat-Signature header contains «sha256=» followed by the hex HMAC-SHA256
+of «<X-Livechat-Timestamp header>.<body>», using the webhook secret as key.
+*/
+
+// Delays (in seconds) before retrying a failed delivery. After the last one, the delivery is dropped.
+const retryDelays = [10, 60, 300, 1800]
+const requestTimeout = 10000
+
+// Pending retries, so that they can be cancelled when the plugin is unloaded.
+const pendingRetries = new Set<NodeJS.Timeout>()
+
+// Live sessions for which the live_first_message event was already sent, by room localpart.
+// This is kept in memory: after a Peertube restart, the event can be sent again for the current live.
+const firstMessageSessions = new Map<string, number>()
+
+// Webhooks that were already in the settings («url secret»), so that only new ones get the ping event.
+let knownWebhooks: Set<string> | undefined
+
+interface WebhookRoomInfos {
+  jid: string
+  localpart: string
+}
+
+interface WebhookRoomContext {
+  video?: {
+    uuid: string
+    name: string
+    url: string
+    isLive: boolean
+  }
+  channel?: {
+    id: number
+    name: string
+    displayName: string
+  }
+}
+
+interface WebhookMessageData {
+  id?: string
+  nick: string
+  body: string
+  date: string
+}
+
+interface WebhookFirstMessageData extends WebhookMessageData {
+  liveStartDate: string
+}
+
+interface WebhookUserBannedData {
+  actor: string
+  target: string
+  reason?: string
+}
+
+interface WebhookEventsData {
+  room_created: Record<string, never>
+  live_first_message: WebhookFirstMessageData
+  message_posted: WebhookMessageData
+  user_banned: WebhookUserBannedData
+  poll_ended: ChatPoll
+}
+
+interface WebhookPayload<E extends WebhookEvent> extends WebhookRoomContext {
+  event: E
+  delivery: string
+  date: string
+  room: WebhookRoomInfos
+  data: WebhookEventsData[E]
+}
+
+interface WebhookPingPayload {
+  event: 'ping'
+  delivery: string
+  date: string
+  data: Record<string, never>
+}
+
+/**
+ * Must be called when the plugin is loaded, to remember the webhooks that don't need the ping event.
+ * @param options server options
+ */
+async function initWebhooks (options: RegisterServerOptions): Promise<void> {
+  knownWebhooks = new Set((await _getWebhooks(options)).map(_webhookKey))
+}
+
+/**
+ * Sends the ping event to the webhooks that were added to the settings.
+ * This function never throws.
+ * @param options server options
+ * @param setting the new webhooks setting value
+ */
+function pingNewWebhooks (options: RegisterServerOptions, setting: string): void {
+  const webhooks = parseWebhooks(setting ?? '')
+  const known = knownWebhooks ?? new Set()
+  knownWebhooks = new Set(webhooks.map(_webhookKey))
+  for (const webhook of webhooks) {
+    if (known.has(_webhookKey(webhook))) { continue }
+    const payload: WebhookPingPayload = {
+      event: 'ping',
+      delivery: randomBytes(16).toString('hex'),
+      date: new Date().toISOString(),
+      data: {}
+    }
+    _deliver(options, webhook, payload.event, payload.delivery, JSON.stringify(payload), 0)
+  }
+}
+
+/**
+ * Emits an event to all webhooks that listen for it.
+ * Deliveries are asynchronous: this function does not wait for them.
+ * This function never throws: errors are logged, so that webhooks can't break the calling code.
+ * @param options server options
+ * @param event the event
+ * @param room the related room
+ * @param data event specific data
+ */
+async function emitWebhookEvent<E extends WebhookEvent> (
+  options: RegisterServerOptions,
+  event: E,
+  room: WebhookRoomInfos,
+  data: WebhookEventsData[E]
+): Promise<void> {
+  try {
+    const webhooks = (await _getWebhooks(options)).filter(w => w.events.includes(event))
+    if (!webhooks.length) { return }
+
+    const payload: WebhookPayload<E> = Object.assign(
+      {
+        event,
+        delivery: randomBytes(16).toString('hex'),
+        date: new Date().toISOString(),
+        room: {
+          jid: room.jid,
+          localpart: room.localpart
+        }
+      },
+      await _getRoomContext(options, room.localpart),
+      { data }
+    )
+    const body = JSON.stringify(payload)
+    for (const webhook of webhooks) {
+      _deliver(options, webhook, event, payload.delivery, body, 0)
+    }
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Failed to emit the ${event} webhook event for room ${room.jid}:`, err)
+  }
+}
+
+/**
+ * Handles a chat message reported by Prosody:
+ * emits message_posted, and live_first_message if this is the first message since the live started.
+ * @param options server options
+ * @param room the room
+ * @param message the message (nick, body, ...)
+ */
+async function emitWebhookMessageEvents (
+  options: RegisterServerOptions,
+  room: WebhookRoomInfos,
+  message: WebhookMessageData
+): Promise<void> {
+  try {
+    const webhooks = await _getWebhooks(options)
+    if (webhooks.some(w => w.events.includes('message_posted'))) {
+      await emitWebhookEvent(options, 'message_posted', room, message)
+    }
+    if (!webhooks.some(w => w.events.includes('live_first_message'))) { return }
+    if (room.localpart.startsWith('channel.')) {
+      // Channel rooms are not related to a specific live.
+      return
+    }
+    const video = await options.peertubeHelpers.videos.loadByIdOrUUID(room.localpart)
+    if (!video?.isLive) { return }
+    const sessionStart = await getLastLiveSessionStartDate(options, video.id)
+    if (!sessionStart || firstMessageSessions.get(room.localpart) === sessionStart.getTime()) { return }
+    firstMessageSessions.set(room.localpart, sessionStart.getTime())
+    await emitWebhookEvent(options, 'live_first_message', room, Object.assign({}, message, {
+      liveStartDate: sessionStart.toISOString()
+    }))
+  } catch (err) {
+    options.peertubeHelpers.logger.error(`Failed to handle the webhooks for a message in room ${room.jid}:`, err)
+  }
+}
+
+/**
+ * Cancels all pending retries. Must be called when the plugin is unloaded.
+ */
+function stopWebhooksDeliveries (): void {
+  for (const timeout of pendingRetries) {
+    clearTimeout(timeout)
+  }
+  pendingRetries.clear()
+  firstMessageSessions.clear()
+  knownWebhooks = undefined
+}
+
+async function _getWebhooks (options: RegisterServerOptions): Promise<Webhook[]> {
+  return parseWebhooks((await options.settingsManager.getSetting('webhooks') as string) ?? '')
+}
+
+function _webhookKey (webhook: Webhook): string {
+  return webhook.url + ' ' + webhook.secret
+}
+
+async function _getRoomContext (options: RegisterServerOptions, localpart: string): Promise<WebhookRoomContext> {
+  const result: WebhookRoomContext = {}
+  let channelId: number | undefined
+  const matches = localpart.match(/^channel\.(\d+)$/)
+  if (matches?.[1]) {
+    channelId = parseInt(matches[1])
+  } else {
+    const video = await options.peertubeHelpers.videos.loadByIdOrUUID(localpart)
+    if (video) {
+      result.video = {
+        uuid: video.uuid,
+        name: video.name,
+        url: options.peertubeHelpers.config.getWebserverUrl() + '/w/' + video.uuid,
+        isLive: video.isLive
+      }
+      channelId = video.channelId
+    }
+  }
+  if (channelId !== undefined) {
+    const channelInfos = await getChannelInfosById(options, channelId)
+    if (channelInfos) {
+      result.channel = {
+        id: channelInfos.id,
+        name: channelInfos.name,
+        displayName: channelInfos.displayName
+      }
+    }
+  }
+  return result
+}
+
+function _deliver (
+  options: RegisterServerOptions,
+  webhook: Webhook,
+  event: WebhookEvent | 'ping',
+  delivery: string,
+  body: string,
+  attempt: number
+): void {
+  const logger = options.peertubeHelpers.logger
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const signature = createHmac('sha256', webhook.secret).update(timestamp + '.' + body).digest('hex')
+  got(webhook.url, {
+    method: 'POST',
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'x-livechat-event': event,
+      'x-livechat-delivery': delivery,
+      'x-livechat-timestamp': timestamp,
+      'x-livechat-signature': 'sha256=' + signature
+    },
+    timeout: requestTimeout,
+    retry: 0,
+    followRedirect: false
+  }).then(
+    () => {
+      logger.debug(`Webhook ${event} ${delivery} delivered to ${webhook.url}`)
+    },
+    (err: any) => {
+      const statusCode: number | undefined = err?.response?.statusCode
+      // Client errors (except 408 and 429) will not be fixed by retrying.
+      const retryable = !statusCode || statusCode >= 500 || statusCode === 408 || statusCode === 429
+      if (!retryable || attempt >= retryDelays.length) {
+        logger.error(
+          `Webhook ${event} ${delivery} to ${webhook.url} failed (attempt ${attempt + 1}), giving up: ` +
+          (err?.message as string)
+        )
+        return
+      }
+      const delay = retryDelays[attempt]
+      logger.warn(
+        `Webhook ${event} ${delivery} to ${webhook.url} failed (attempt ${attempt + 1}), ` +
+        `retrying in ${delay} seconds: ` + (err?.message as string)
+      )
+      const timeout = setTimeout(() => {
+        pendingRetries.delete(timeout)
+        _deliver(options, webhook, event, delivery, body, attempt + 1)
+      }, delay * 1000)
+      pendingRetries.add(timeout)
+    }
+  )
+}
+
+export {
+  initWebhooks,
+  pingNewWebhooks,
+  emitWebhookEvent,
+  emitWebhookMessageEvents,
+  stopWebhooksDeliveries
+}
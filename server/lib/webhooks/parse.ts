@@ -0,0 +1,67 @@
+type WebhookEvent = 'room_created' | 'live_first_message' | 'message_posted' | 'user_banned' | 'poll_ended'
+
+const webhookEvents: WebhookEvent[] = [
+  'room_created', 'live_first_message', 'message_posted', 'user_banned', 'poll_ended'
+]
+
+// Events sent when no event filter is given. message_posted can generate a lot of requests, it must be explicit.
+const defaultWebhookEvents: WebhookEvent[] = webhookEvents.filter(e => e !== 'message_posted')
+
+interface Webhook {
+  url: string
+  secret: string
+  events: WebhookEvent[]
+}
+
+/**
+ * Parses the webhooks setting.
+ * Format: one webhook per line, «url secret [event1,event2,...]».
+ * Comments start with # (at the beginning of the line, or after a whitespace,
+ * so that urls and secrets can contain #). Invalid lines are ignored.
+ * @param s the setting value
+ * @returns the webhooks
+ */
+function parseWebhooks (s: string): Webhook[] {
+  if (!s) {
+    return []
+  }
+  const lines = s.split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(line => line !== '')
+
+  const r: Webhook[] = []
+  for (const line of lines) {
+    const matches = line.match(/^(https?:\/\/\S+)\s+(\S{8,})(?:\s+([\w,\s]+))?$/)
+    if (!matches) { continue }
+    let events = defaultWebhookEvents
+    if (matches[3]) {
+      events = matches[3].split(',')
+        .map(e => e.trim())
+        .filter((e): e is WebhookEvent => webhookEvents.includes(e as WebhookEvent))
+      if (!events.length) { continue }
+    }
+    r.push({
+      url: matches[1],
+      secret: matches[2],
+      events
+    })
+  }
+  return r
+}
+
+/**
+ * Returns true if at least one webhook listens for the given events.
+ * @param webhooks webhooks
+ * @param events events to check
+ */
+function hasWebhookFor (webhooks: Webhook[], events: WebhookEvent[]): boolean {
+  return webhooks.some(w => w.events.some(e => events.includes(e)))
+}
+
+export {
+  WebhookEvent,
+  Webhook,
+  webhookEvents,
+  parseWebhooks,
+  hasWebhookFor
+}
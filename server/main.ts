@@ -6,6 +6,14 @@ import { initRouters } from './lib/routers/index'
 import { initFederation } from './lib/federation/init'
 import { prepareProsody, ensureProsodyRunning, ensureProsodyNotRunning } from './lib/prosody/ctl'
 import { unloadDebugMode } from './lib/debug'
+import { initWebhooks, stopWebhooksDeliveries } from './lib/webhooks/emit'
+import { initAnnouncementsScheduler, stopAnnouncementsScheduler } from './lib/announcements/scheduler'
+import { initChannelBansExpiry, stopChannelBansExpiry } from './lib/bans/expiry'
+import { initLiveStateHooks } from './lib/live-state'
+import { initFederatedBansImport, stopFederatedBansImport } from './lib/federation/bans/import'
+import { initCredentialsStore, stopCredentialsStore, destroyCredentialsStore } from './lib/prosody/auth'
+import { initUsersSyncHooks } from './lib/users-sync'
+import { initAccountsAvatarsHooks, clearAccountsAvatarsCache } from './lib/avatars/accounts'
 import decache from 'decache'
 
 // FIXME: Peertube unregister don't have any parameter.
@@ -24,8 +32,16 @@ async function register (options: RegisterServerOptions): Promise<any> {
 
   await initSettings(options)
   await initCustomFields(options)
+  await initWebhooks(options)
+  initCredentialsStore(options)
+  initUsersSyncHooks(options)
+  initAccountsAvatarsHooks(options)
+  const liveStateHook = await initLiveStateHooks(options)
+  initAnnouncementsScheduler(options, liveStateHook)
+  initChannelBansExpiry(options)
   await initRouters(options)
   await initFederation(options)
+  initFederatedBansImport(options)
 
   try {
     await prepareProsody(options)
@@ -44,7 +60,21 @@ async function unregister (): Promise<any> {
     }
   }
 
+  if (OPTIONS) {
+    try {
+      await destroyCredentialsStore(OPTIONS)
+    } catch (error) {
+      OPTIONS.peertubeHelpers.logger.error('Error when trying to remove the chat credentials: ' + (error as string))
+    }
+  }
+
   unloadDebugMode()
+  stopWebhooksDeliveries()
+  stopAnnouncementsScheduler()
+  stopChannelBansExpiry()
+  stopFederatedBansImport()
+  stopCredentialsStore()
+  clearAccountsAvatarsCache()
 
   const module = __filename
   OPTIONS?.peertubeHelpers.logger.info(`Unloading module ${module}...`)
@@ -0,0 +1,31 @@
+/**
+ * Accepted image formats for custom emojis (mime type => file extension).
+ * SVG is not accepted, as it could contain scripts.
+ */
+const customEmojiFormats: {[mimeType: string]: string} = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+}
+
+const maxCustomEmojiSize = 256 * 1024 // bytes
+const maxCustomEmojis = 100
+
+/**
+ * Normalizes a custom emoji short name. The colons are optional.
+ * @param value short name, with or without colons (for example «:myemote:» or «myemote»)
+ * @returns the short name with colons, or null if invalid
+ */
+function normalizeCustomEmojiShortName (value: string): string | null {
+  const matches = value.trim().match(/^:?([a-zA-Z0-9_-]{2,32}):?$/)
+  if (!matches) { return null }
+  return ':' + matches[1] + ':'
+}
+
+export {
+  customEmojiFormats,
+  maxCustomEmojiSize,
+  maxCustomEmojis,
+  normalizeCustomEmojiShortName
+}
@@ -0,0 +1,118 @@
+type OverlayAnimation = 'none' | 'fade' | 'slide'
+
+/**
+ * Options for the overlay mode (chat integration in OBS, for example).
+ */
+interface OverlayOptions {
+  fadeOut: number // number of seconds before hiding a message. 0 to never hide messages.
+  maxMessages: number // maximum number of visible messages.
+  fontSize: number // font size, in pixels.
+  avatars: boolean
+  hideSystemMessages: boolean
+  animation: OverlayAnimation
+  polls: boolean // display running polls and their results.
+}
+
+const overlayAnimations: OverlayAnimation[] = ['none', 'fade', 'slide']
+
+const overlayLimits = {
+  fadeOut: { min: 0, max: 3600 },
+  maxMessages: { min: 1, max: 100 },
+  fontSize: { min: 8, max: 72 }
+}
+
+function getDefaultOverlayOptions (): OverlayOptions {
+  return {
+    fadeOut: 0,
+    maxMessages: 10,
+    fontSize: 16,
+    avatars: true,
+    hideSystemMessages: false,
+    animation: 'fade',
+    polls: true
+  }
+}
+
+/**
+ * Converts overlay options to query parameters.
+ * @param options overlay options
+ * @returns query parameters (without the '_overlay' parameter)
+ */
+function overlayOptionsToQuery (options: OverlayOptions): {[key: string]: string} {
+  return {
+    _ov_fade: options.fadeOut.toString(),
+    _ov_max: options.maxMessages.toString(),
+    _ov_fontsize: options.fontSize.toString(),
+    _ov_avatars: options.avatars ? 'true' : 'false',
+    _ov_nosystem: options.hideSystemMessages ? 'true' : 'false',
+    _ov_anim: options.animation,
+    _ov_polls: options.polls ? 'true' : 'false'
+  }
+}
+
+/**
+ * Reads and validates overlay options from query parameters.
+ * Missing parameters get their default value.
+ * @param query query parameters
+ * @returns overlay options. Else a string array with invalid parameters.
+ */
+function parseOverlayOptions (query: {[key: string]: unknown}): OverlayOptions | string[] {
+  const options = getDefaultOverlayOptions()
+  const errors: string[] = []
+
+  function readInteger (key: string, limits: { min: number, max: number }): number | undefined {
+    const value = query[key]
+    if (value === undefined) { return undefined }
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+      errors.push(key)
+      return undefined
+    }
+    const n = parseInt(value)
+    if (n < limits.min || n > limits.max) {
+      errors.push(key)
+      return undefined
+    }
+    return n
+  }
+  function readBoolean (key: string): boolean | undefined {
+    const value = query[key]
+    if (value === undefined) { return undefined }
+    if (value !== 'true' && value !== 'false') {
+      errors.push(key)
+      return undefined
+    }
+    return value === 'true'
+  }
+
+  options.fadeOut = readInteger('_ov_fade', overlayLimits.fadeOut) ?? options.fadeOut
+  options.maxMessages = readInteger('_ov_max', overlayLimits.maxMessages) ?? options.maxMessages
+  options.fontSize = readInteger('_ov_fontsize', overlayLimits.fontSize) ?? options.fontSize
+  options.avatars = readBoolean('_ov_avatars') ?? options.avatars
+  options.hideSystemMessages = readBoolean('_ov_nosystem') ?? options.hideSystemMessages
+  options.polls = readBoolean('_ov_polls') ?? options.polls
+  const animation = query._ov_anim
+  if (animation !== undefined) {
+    if (overlayAnimations.includes(animation as OverlayAnimation)) {
+      options.animation = animation as OverlayAnimation
+    } else {
+      errors.push('_ov_anim')
+    }
+  }
+
+  if (errors.length) {
+    return errors
+  }
+  return options
+}
+
+export type {
+  OverlayAnimation,
+  OverlayOptions
+}
+export {
+  overlayAnimations,
+  overlayLimits,
+  getDefaultOverlayOptions,
+  overlayOptionsToQuery,
+  parseOverlayOptions
+}
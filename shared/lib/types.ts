@@ -17,6 +17,7 @@ interface ProsodyListRoomsResultRoom {
     name: string
     displayName: string
   }
+  stats?: RoomStats
 }
 
 interface ProsodyListRoomsResultSuccess {
@@ -26,8 +27,282 @@ interface ProsodyListRoomsResultSuccess {
 
 type ProsodyListRoomsResult = ProsodyListRoomsResultError | ProsodyListRoomsResultSuccess
 
+/**
+ * Chat options that a channel owner can override for their channel.
+ * Keys are the same as the corresponding plugin settings.
+ * A missing key means that the instance-wide setting value is used.
+ */
+interface ChannelConfigurationOptions {
+  'chat-per-live-video'?: boolean
+  'chat-all-lives'?: boolean
+  'chat-all-non-lives'?: boolean
+  'chat-no-anonymous'?: boolean
+  'chat-live-state-rooms'?: boolean
+  'federation-bans-apply'?: boolean
+  'prosody-room-type'?: 'video' | 'channel'
+  'converse-theme'?: ConverseJSTheme
+}
+
+interface ChannelInfos {
+  id: number
+  name: string
+  displayName: string
+}
+
+interface ChannelConfiguration {
+  channel: ChannelInfos
+  configuration: ChannelConfigurationOptions
+}
+
+/**
+ * Channel moderators: local PeerTube usernames, or JIDs for remote users.
+ */
+interface ChannelModerators {
+  moderators: string[]
+}
+
+/**
+ * A ban on a channel.
+ * user: local PeerTube username, or JID for remote users.
+ * date and expires are ISO 8601 date strings. If expires is missing, the ban never expires.
+ */
+interface ChannelBan {
+  user: string
+  reason: string
+  author: string
+  date: string
+  expires?: string
+}
+
+interface ChannelBans {
+  bans: ChannelBan[]
+}
+
+/**
+ * An existing chat room related to a channel (channel room, or room of one of the channel videos).
+ */
+interface ChannelRoom {
+  jid: string
+  localpart: string
+  name: string
+  subject?: string
+  occupants: number
+  lasttimestamp?: number
+  video?: {
+    uuid: string
+    name: string
+  }
+  stats?: RoomStats
+}
+
+interface ChannelRooms {
+  rooms: ChannelRoom[]
+}
+
+type ChatExportFormat = 'json' | 'txt' | 'vtt' | 'srt'
+
+interface ChatExportMessage {
+  timestamp: number // unix timestamp, in seconds
+  nick: string
+  body: string
+}
+
+/**
+ * Archived messages of a past live, to replay the chat with the VOD.
+ * start and end are unix timestamps (seconds).
+ * offset is the number of seconds between the live start and the message.
+ */
+interface ChatReplay {
+  start: number
+  end?: number
+  messages: Array<{
+    offset: number
+    nick: string
+    body: string
+  }>
+}
+
+interface ChannelAffiliationsSyncResult {
+  ok: boolean
+  updated: number
+}
+
+/**
+ * Action to apply when a message does not pass the chat filters:
+ * - block: the message is rejected, the sender gets an error.
+ * - retract: the message is not broadcasted, and the sender gets a warning.
+ * - kick: same as retract, and the sender is kicked after kickAfter offences.
+ */
+type ChatFiltersAction = 'block' | 'retract' | 'kick'
+
+/**
+ * Automatic moderation rules.
+ * patterns are Lua patterns (they are applied by Prosody).
+ * maxLength and maxCapsRatio (percentage) are ignored when 0.
+ */
+interface ChatFilters {
+  forbiddenWords: string[]
+  patterns: string[]
+  blockLinks: boolean
+  maxLength: number
+  maxCapsRatio: number
+  action: ChatFiltersAction
+  kickAfter: number
+}
+
+interface ChannelChatFilters {
+  filters: ChatFilters
+}
+
+/**
+ * A message sent by the chat bot every interval minutes.
+ */
+interface ChatBotAnnouncement {
+  message: string
+  interval: number
+}
+
+/**
+ * Chat bot configuration.
+ * welcomeMessage is sent to new joiners, if not empty. socials are returned by the !socials command.
+ */
+interface ChatBot {
+  enabled: boolean
+  nickname: string
+  welcomeMessage: string
+  socials: string[]
+  announcements: ChatBotAnnouncement[]
+}
+
+interface ChannelChatBot {
+  bot: ChatBot
+}
+
+type ScheduledAnnouncementType = 'recurring' | 'once'
+
+/**
+ * A message posted in the rooms of the channel lives, while they are streaming.
+ * Recurring announcements are posted every interval minutes.
+ * One-shot announcements are posted once, at date (ISO 8601 date string).
+ */
+interface ScheduledAnnouncement {
+  id: string
+  type: ScheduledAnnouncementType
+  message: string
+  interval?: number
+  date?: string
+}
+
+interface ChannelAnnouncements {
+  announcements: ScheduledAnnouncement[]
+}
+
+type ModerationLogAction = 'retract' | 'kick' | 'ban' | 'role' | 'affiliation'
+
+/**
+ * A moderation action, as reported by Prosody.
+ * actor and target are JIDs or nicknames. date is an ISO 8601 date string.
+ * details contains the new role or affiliation, when relevant.
+ */
+interface ModerationLogEntry {
+  date: string
+  room: string
+  action: ModerationLogAction
+  actor: string
+  target: string
+  reason?: string
+  details?: string
+}
+
+interface ChannelModerationLog {
+  entries: ModerationLogEntry[]
+}
+
+interface ChatPollChoice {
+  label: string
+  votes: number
+}
+
+/**
+ * A finished poll, as reported by Prosody.
+ * creator is the JID of the moderator who created the poll. Dates are ISO 8601 date strings.
+ */
+interface ChatPoll {
+  id: string
+  room: string
+  question: string
+  choices: ChatPollChoice[]
+  creator: string
+  startDate: string
+  endDate: string
+}
+
+interface RoomPolls {
+  polls: ChatPoll[]
+}
+
+/**
+ * A custom emoji. sn is the short name, with colons (for example «:myemote:»).
+ */
+interface CustomEmojiDefinition {
+  sn: string
+  url: string
+}
+
+interface ChannelEmojis {
+  customEmojis: CustomEmojiDefinition[]
+}
+
+/**
+ * Chat activity statistics of a room, computed from the samples sent by Prosody.
+ * Dates are ISO 8601 date strings. messagesPerMinute is an average over the time the room had occupants.
+ */
+interface RoomStats {
+  room: string
+  firstDate: string
+  lastDate: string
+  participants: number
+  authenticatedParticipants: number
+  anonymousParticipants: number
+  messages: number
+  messagesPerMinute: number
+  peakMessagesPerMinute: number
+  peakOccupants: number
+  peakOccupantsDate?: string
+}
+
 export type {
   ConverseJSTheme,
   ProsodyListRoomsResult,
-  ProsodyListRoomsResultRoom
+  ProsodyListRoomsResultRoom,
+  ChannelConfigurationOptions,
+  ChannelInfos,
+  ChannelConfiguration,
+  ChannelModerators,
+  ChannelBan,
+  ChannelBans,
+  ChannelRoom,
+  ChannelRooms,
+  ChatExportFormat,
+  ChatExportMessage,
+  ChatReplay,
+  ChannelAffiliationsSyncResult,
+  ChatFiltersAction,
+  ChatFilters,
+  ChannelChatFilters,
+  ChatBotAnnouncement,
+  ChatBot,
+  ChannelChatBot,
+  ScheduledAnnouncementType,
+  ScheduledAnnouncement,
+  ChannelAnnouncements,
+  ModerationLogAction,
+  ModerationLogEntry,
+  ChannelModerationLog,
+  ChatPollChoice,
+  ChatPoll,
+  RoomPolls,
+  CustomEmojiDefinition,
+  ChannelEmojis,
+  RoomStats
 }
@@ -1,3 +1,4 @@
+import type { ChannelConfigurationOptions } from './types'
 import { parseConfigUUIDs } from './config'
 
 interface VideoHasWebchatSettings {
@@ -13,6 +14,8 @@ interface SharedVideoBase {
   pluginData?: {
     'livechat-active'?: boolean
     'livechat-remote'?: boolean
+    'livechat-channel-configuration'?: ChannelConfigurationOptions
+    'livechat-replay'?: boolean
   }
 }
 